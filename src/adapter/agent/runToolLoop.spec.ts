@@ -0,0 +1,172 @@
+import { vi } from 'vitest';
+import { OpenAI } from 'openai';
+import { runToolLoop, ToolLoopClient } from './runToolLoop';
+import { AdapterExport, FunctionOptions } from '../types';
+import { Chain } from '../../blockchain';
+import { toResult } from '../transformers';
+
+type Message = OpenAI.Chat.Completions.ChatCompletionMessage;
+
+function createClient(script: Message[]) {
+    const requests: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming[] = [];
+    const client: ToolLoopClient = {
+        chat: {
+            completions: {
+                create: async body => {
+                    requests.push({ ...body, messages: [...body.messages] });
+                    const message = script.shift();
+                    if (!message) throw new Error('Script exhausted');
+                    return { id: 'id', object: 'chat.completion', created: 0, model: body.model, choices: [{ index: 0, finish_reason: 'stop', logprobs: null, message }] };
+                },
+            },
+        },
+    };
+    return { client, requests };
+}
+
+function toolCall(id: string, name: string, args: object): OpenAI.Chat.Completions.ChatCompletionMessageToolCall {
+    return { id, type: 'function', function: { name, arguments: JSON.stringify(args) } };
+}
+
+function assistant(content: string | null, toolCalls?: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[]): Message {
+    return { role: 'assistant', content, refusal: null, ...(toolCalls && { tool_calls: toolCalls }) };
+}
+
+describe('runToolLoop', () => {
+    const options = {} as FunctionOptions;
+    const adapter: AdapterExport = {
+        name: 'aave',
+        description: 'Aave',
+        chains: [Chain.BASE],
+        functions: {
+            getApy: vi.fn(async ({ token }: any) => toResult(`${token} APY is 5%`)),
+            supply: vi.fn(async ({ amount }: any) => toResult(`Supplied ${amount}`)),
+        },
+        executableFunctions: ['supply'],
+        tools: [
+            { type: 'function', function: { name: 'getApy', parameters: { type: 'object', properties: { token: { type: 'string' } } } } },
+            { type: 'function', function: { name: 'supply', parameters: { type: 'object', properties: { amount: { type: 'string' } } } } },
+        ],
+    };
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [{ role: 'user', content: 'Supply 100 USDC if APY is good' }];
+
+    it('should run tool calls until the model stops', async () => {
+        const { client, requests } = createClient([
+            assistant(null, [toolCall('1', 'aave__getApy', { token: 'USDC' })]),
+            assistant(null, [toolCall('2', 'aave__supply', { amount: '100' })]),
+            assistant('Done, supplied 100 USDC'),
+        ]);
+
+        const result = await runToolLoop({ client, model: 'gpt-4o', adapters: [adapter], messages, options });
+
+        expect(result.stopReason).toBe('stop');
+        expect(result.iterations).toBe(3);
+        expect(result.message.content).toBe('Done, supplied 100 USDC');
+        expect(result.trace).toEqual([
+            { iteration: 1, toolCallId: '1', name: 'aave__getApy', arguments: '{"token":"USDC"}', result: { success: true, data: 'USDC APY is 5%' } },
+            { iteration: 2, toolCallId: '2', name: 'aave__supply', arguments: '{"amount":"100"}', result: { success: true, data: 'Supplied 100' } },
+        ]);
+        expect(result.messages).toHaveLength(6);
+        expect(result.messages[2]).toEqual({ role: 'tool', tool_call_id: '1', content: 'USDC APY is 5%' });
+        expect(messages).toHaveLength(1);
+
+        expect(requests[0].tools?.map(tool => tool.type === 'function' && tool.function.name)).toEqual(['aave__getApy', 'aave__supply']);
+        expect(requests[0].parallel_tool_calls).toBe(true);
+        expect(requests[1].messages).toHaveLength(3);
+        expect(adapter.functions.supply).toHaveBeenCalledWith({ amount: '100' }, options);
+    });
+
+    it('should stop after max iterations', async () => {
+        const { client, requests } = createClient([
+            assistant(null, [toolCall('1', 'aave__getApy', { token: 'USDC' })]),
+            assistant(null, [toolCall('2', 'aave__getApy', { token: 'DAI' })]),
+        ]);
+
+        const result = await runToolLoop({ client, model: 'gpt-4o', adapters: [adapter], messages, options, maxIterations: 2 });
+
+        expect(result.stopReason).toBe('max_iterations');
+        expect(result.iterations).toBe(2);
+        expect(result.trace).toHaveLength(2);
+        expect(requests).toHaveLength(2);
+        expect(result.messages[result.messages.length - 1]).toEqual({ role: 'tool', tool_call_id: '2', content: 'DAI APY is 5%' });
+    });
+
+    it('should run several tool calls of one response in order', async () => {
+        const { client, requests } = createClient([
+            assistant(null, [toolCall('1', 'aave__getApy', { token: 'USDC' }), toolCall('2', 'aave__getApy', { token: 'DAI' })]),
+            assistant('USDC and DAI both pay 5%'),
+        ]);
+
+        const result = await runToolLoop({ client, model: 'gpt-4o', adapters: [adapter], messages, options, parallelToolCalls: false });
+
+        expect(result.trace.map(call => call.toolCallId)).toEqual(['1', '2']);
+        expect(requests[0].parallel_tool_calls).toBe(false);
+        expect(requests[1].messages.slice(2)).toEqual([
+            { role: 'tool', tool_call_id: '1', content: 'USDC APY is 5%' },
+            { role: 'tool', tool_call_id: '2', content: 'DAI APY is 5%' },
+        ]);
+    });
+
+    it('should never run executable calls concurrently', async () => {
+        const events: string[] = [];
+        const track = (name: string) => async (args: any) => {
+            events.push(`start ${name} ${args.token ?? args.amount}`);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            events.push(`end ${name} ${args.token ?? args.amount}`);
+            return toResult('ok');
+        };
+        const tracked: AdapterExport = { ...adapter, functions: { getApy: track('getApy'), supply: track('supply') } };
+        const { client } = createClient([
+            assistant(null, [
+                toolCall('1', 'aave__getApy', { token: 'USDC' }),
+                toolCall('2', 'aave__getApy', { token: 'DAI' }),
+                toolCall('3', 'aave__supply', { amount: '100' }),
+                toolCall('4', 'aave__supply', { amount: '200' }),
+            ]),
+            assistant('Done'),
+        ]);
+
+        const result = await runToolLoop({ client, model: 'gpt-4o', adapters: [tracked], messages, options });
+
+        expect(result.trace.map(call => call.toolCallId)).toEqual(['1', '2', '3', '4']);
+        expect(events).toEqual([
+            'start getApy USDC',
+            'start getApy DAI',
+            'end getApy USDC',
+            'end getApy DAI',
+            'start supply 100',
+            'end supply 100',
+            'start supply 200',
+            'end supply 200',
+        ]);
+    });
+
+    it('should refuse iteration limits below 1', async () => {
+        const { client, requests } = createClient([assistant('Hi')]);
+
+        for (const maxIterations of [0, -1, 1.5]) {
+            await expect(runToolLoop({ client, model: 'gpt-4o', adapters: [adapter], messages, options, maxIterations })).rejects.toThrow(
+                `maxIterations must be a positive integer, got ${maxIterations}`,
+            );
+        }
+        expect(requests).toHaveLength(0);
+    });
+
+    it('should report unknown tools to the model', async () => {
+        const { client } = createClient([assistant(null, [toolCall('1', 'aave__borrow', {})]), assistant('Borrowing is not available')]);
+
+        const result = await runToolLoop({ client, model: 'gpt-4o', adapters: [adapter], messages, options });
+
+        expect(result.trace[0].result.success).toBe(false);
+        expect(result.messages[2]).toEqual({ role: 'tool', tool_call_id: '1', content: 'ERROR: Unknown tool aave__borrow' });
+    });
+
+    it('should only offer tools for the requested chains', async () => {
+        const { client, requests } = createClient([assistant('Nothing to do on Solana')]);
+
+        await runToolLoop({ client, model: 'gpt-4o', adapters: [adapter], messages, options, chains: [Chain.SOLANA], request: { temperature: 0 } });
+
+        expect(requests[0].tools).toBeUndefined();
+        expect(requests[0].temperature).toBe(0);
+    });
+});
@@ -0,0 +1,196 @@
+import { OpenAI } from 'openai';
+import { AdapterExport, FunctionErrorCode, FunctionOptions, FunctionReturn } from '../types';
+import { Chain } from '../../blockchain';
+import { AdapterRegistry } from '../registry';
+import { toResult } from '../transformers';
+
+/**
+ * Part of the OpenAI client used by the tool loop
+ * @description Lets tests pass a scripted client instead of a real `OpenAI` instance
+ */
+export interface ToolLoopClient {
+    readonly chat: {
+        readonly completions: {
+            create(body: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming): Promise<OpenAI.Chat.Completions.ChatCompletion>;
+        };
+    };
+}
+
+/**
+ * Parameters of the tool loop
+ * @interface RunToolLoopParams
+ */
+export interface RunToolLoopParams {
+    /** OpenAI client */
+    readonly client: ToolLoopClient;
+    /** Model name */
+    readonly model: string;
+    /** Adapters whose tools are offered to the model, or a prepared registry */
+    readonly adapters: AdapterExport[] | AdapterRegistry;
+    /** Conversation so far */
+    readonly messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+    /** Function options passed to every adapter function */
+    readonly options: FunctionOptions;
+    /** Only offer tools of adapters supporting these chains (default: all adapters) */
+    readonly chains?: Chain[];
+    /** Maximum number of model requests (default: 10) */
+    readonly maxIterations?: number;
+    /**
+     * Allow the model to request several tool calls at once and run read-only ones concurrently (default: true).
+     * Calls of executable functions always run one at a time, in the requested order.
+     */
+    readonly parallelToolCalls?: boolean;
+    /** Additional request parameters (temperature, user, etc.) */
+    readonly request?: Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming, 'model' | 'messages' | 'tools' | 'parallel_tool_calls'>;
+}
+
+/**
+ * Record of a single tool call made during the loop
+ * @interface ToolCallTrace
+ */
+export interface ToolCallTrace {
+    /** Model request (starting from 1) that produced the call */
+    readonly iteration: number;
+    /** Tool call id assigned by the model */
+    readonly toolCallId: string;
+    /** Tool name as sent by the model */
+    readonly name: string;
+    /** JSON encoded arguments as sent by the model */
+    readonly arguments: string;
+    /** Result returned to the model */
+    readonly result: FunctionReturn;
+}
+
+/**
+ * Result of the tool loop
+ * @interface ToolLoopResult
+ */
+export interface ToolLoopResult {
+    /** Last assistant message */
+    readonly message: OpenAI.Chat.Completions.ChatCompletionMessage;
+    /** Full conversation including assistant and tool messages added by the loop */
+    readonly messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+    /** Every tool call in the order it was requested */
+    readonly trace: ToolCallTrace[];
+    /** Number of model requests made */
+    readonly iterations: number;
+    /** 'stop' when the model answered without tool calls, 'max_iterations' when the limit was reached */
+    readonly stopReason: 'stop' | 'max_iterations';
+}
+
+async function runToolCall(
+    registry: AdapterRegistry,
+    call: OpenAI.Chat.Completions.ChatCompletionMessageToolCall,
+    iteration: number,
+    options: FunctionOptions,
+): Promise<ToolCallTrace> {
+    if (call.type !== 'function') {
+        const result = toResult(`Custom tool ${call.custom.name} is not supported`, { errorCode: FunctionErrorCode.INVALID_ARGS });
+        return { iteration, toolCallId: call.id, name: call.custom.name, arguments: call.custom.input, result };
+    }
+
+    const { name, arguments: args } = call.function;
+    const result = await registry.dispatch(name, args, options);
+    return { iteration, toolCallId: call.id, name, arguments: args, result };
+}
+
+function isExecutableCall(registry: AdapterRegistry, call: OpenAI.Chat.Completions.ChatCompletionMessageToolCall): boolean {
+    return call.type === 'function' && registry.resolve(call.function.name)?.executable === true;
+}
+
+/**
+ * Runs the tool calls of one model turn in order
+ * @description Consecutive read-only calls run concurrently when allowed. Executable calls send transactions from the same
+ * wallet, they never overlap with any other call to avoid nonce and balance races.
+ */
+async function runToolCalls(
+    registry: AdapterRegistry,
+    toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[],
+    iteration: number,
+    options: FunctionOptions,
+    parallel: boolean,
+): Promise<ToolCallTrace[]> {
+    const calls: ToolCallTrace[] = [];
+    let readOnly: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] = [];
+
+    const flushReadOnly = async () => {
+        calls.push(...(await Promise.all(readOnly.map(call => runToolCall(registry, call, iteration, options)))));
+        readOnly = [];
+    };
+
+    for (const call of toolCalls) {
+        if (parallel && !isExecutableCall(registry, call)) {
+            readOnly.push(call);
+            continue;
+        }
+        await flushReadOnly();
+        calls.push(await runToolCall(registry, call, iteration, options));
+    }
+    await flushReadOnly();
+    return calls;
+}
+
+/**
+ * Runs the chat completion tool-calling loop over a set of adapters
+ * @param params - Loop parameters
+ * @returns Final assistant message, updated conversation and a trace of every tool call
+ * @description Sends the adapter tools to the model, runs the requested tool calls, appends the results as `tool` messages
+ * and repeats until the model answers without tool calls or `maxIterations` requests were made.
+ * Tool names are namespaced by adapter (see `AdapterRegistry`). Calls of executable functions never run concurrently.
+ * @throws {Error} When `maxIterations` is not a positive integer or the model returns no choices
+ * @example
+ * ```typescript
+ * const { message, trace } = await runToolLoop({
+ *   client: new OpenAI(),
+ *   model: 'gpt-4o',
+ *   adapters: [aaveAdapter, uniswapAdapter],
+ *   messages: [{ role: 'user', content: 'Supply 100 USDC to Aave on Base' }],
+ *   options,
+ *   chains: [Chain.BASE],
+ *   maxIterations: 5
+ * });
+ *
+ * console.log(message.content);
+ * trace.forEach(call => console.log(call.name, call.result.success));
+ * ```
+ */
+export async function runToolLoop(params: RunToolLoopParams): Promise<ToolLoopResult> {
+    const { client, model, options, chains, maxIterations = 10, parallelToolCalls = true, request } = params;
+    if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+        throw new Error(`maxIterations must be a positive integer, got ${maxIterations}`);
+    }
+
+    const registry = params.adapters instanceof AdapterRegistry ? params.adapters : params.adapters.reduce((result, adapter) => result.register(adapter), new AdapterRegistry());
+    const tools = registry.getTools(chains);
+    const messages = [...params.messages];
+    const trace: ToolCallTrace[] = [];
+
+    for (let iteration = 1; ; iteration++) {
+        const completion = await client.chat.completions.create({
+            ...request,
+            model,
+            messages,
+            ...(tools.length > 0 && { tools, parallel_tool_calls: parallelToolCalls }),
+        });
+
+        const message = completion.choices[0]?.message;
+        if (!message) {
+            throw new Error('Model returned no choices');
+        }
+        messages.push(message);
+
+        const toolCalls = message.tool_calls ?? [];
+        if (toolCalls.length === 0) {
+            return { message, messages, trace, iterations: iteration, stopReason: 'stop' };
+        }
+
+        for (const call of await runToolCalls(registry, toolCalls, iteration, options, parallelToolCalls)) {
+            trace.push(call);
+            messages.push({ role: 'tool', tool_call_id: call.toolCallId, content: call.result.data });
+        }
+
+        if (iteration >= maxIterations) {
+            return { message, messages, trace, iterations: iteration, stopReason: 'max_iterations' };
+        }
+    }
+}
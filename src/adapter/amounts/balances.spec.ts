@@ -0,0 +1,76 @@
+import { vi } from 'vitest';
+import { Address, erc20Abi } from 'viem';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { Address as TonAddress } from '@ton/ton';
+import { getEvmBalance, getSolanaBalance, getTonBalance } from './balances';
+import { EVM } from '../../blockchain';
+
+describe('balances', () => {
+    describe('getEvmBalance', () => {
+        const owner: Address = '0x00000000000000000000000000000000000A11cE';
+        const usdc: Address = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+        it('should return the native balance', async () => {
+            const provider = { getBalance: vi.fn(async () => 5n), readContract: vi.fn() };
+
+            expect(await getEvmBalance(provider as any, owner, EVM.constants.NATIVE_ADDRESS)).toBe(5n);
+            expect(provider.getBalance).toHaveBeenCalledWith({ address: owner });
+            expect(provider.readContract).not.toHaveBeenCalled();
+        });
+
+        it('should return the ERC20 balance', async () => {
+            const provider = { getBalance: vi.fn(), readContract: vi.fn(async () => 7n) };
+
+            expect(await getEvmBalance(provider as any, owner, usdc)).toBe(7n);
+            expect(provider.readContract).toHaveBeenCalledWith({ address: usdc, abi: erc20Abi, functionName: 'balanceOf', args: [owner] });
+        });
+    });
+
+    describe('getSolanaBalance', () => {
+        const owner = Keypair.generate().publicKey;
+        const mint = Keypair.generate().publicKey;
+
+        it('should return the SOL balance for native SOL', async () => {
+            const connection = { getBalance: vi.fn(async () => 1_000), getParsedTokenAccountsByOwner: vi.fn() };
+
+            expect(await getSolanaBalance(connection as any, owner, EVM.constants.NATIVE_ADDRESS)).toBe(1_000n);
+            expect(connection.getParsedTokenAccountsByOwner).not.toHaveBeenCalled();
+        });
+
+        it('should return the wrapped SOL token balance for the wrapped SOL mint', async () => {
+            const wrapped = { account: { data: { parsed: { info: { tokenAmount: { amount: '250' } } } } } };
+            const connection = { getBalance: vi.fn(async () => 1_000), getParsedTokenAccountsByOwner: vi.fn(async () => ({ value: [wrapped] })) };
+
+            expect(await getSolanaBalance(connection as any, owner, 'So11111111111111111111111111111111111111112')).toBe(250n);
+            expect(connection.getBalance).not.toHaveBeenCalled();
+        });
+
+        it('should sum the token accounts of the mint', async () => {
+            const account = (amount: string) => ({ account: { data: { parsed: { info: { tokenAmount: { amount } } } } } });
+            const connection = { getBalance: vi.fn(), getParsedTokenAccountsByOwner: vi.fn(async () => ({ value: [account('10'), account('32')] })) };
+
+            expect(await getSolanaBalance(connection as any, owner, mint.toBase58())).toBe(42n);
+            expect(connection.getParsedTokenAccountsByOwner).toHaveBeenCalledWith(owner, { mint: expect.any(PublicKey) });
+        });
+    });
+
+    describe('getTonBalance', () => {
+        const owner = TonAddress.parse(`0:${'1'.repeat(64)}`);
+        const jetton = `0:${'2'.repeat(64)}`;
+
+        it('should return the TON balance', async () => {
+            const client = { client: { getBalance: vi.fn(async () => 3n) }, api: { accounts: { getAccountJettonBalance: vi.fn() } } };
+
+            expect(await getTonBalance(client as any, owner, `0:${'0'.repeat(64)}`)).toBe(3n);
+            expect(client.client.getBalance).toHaveBeenCalledWith(owner);
+        });
+
+        it('should return the jetton balance', async () => {
+            const getAccountJettonBalance = vi.fn(async (_owner: TonAddress, _jetton: TonAddress) => ({ balance: 9n }));
+            const client = { client: { getBalance: vi.fn() }, api: { accounts: { getAccountJettonBalance } } };
+
+            expect(await getTonBalance(client as any, owner, jetton)).toBe(9n);
+            expect(getAccountJettonBalance.mock.calls[0][1].equals(TonAddress.parse(jetton))).toBe(true);
+        });
+    });
+});
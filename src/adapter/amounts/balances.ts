@@ -0,0 +1,55 @@
+import { Address, erc20Abi, PublicClient } from 'viem';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Address as TonAddress } from '@ton/ton';
+import { TON } from '../../blockchain';
+import { isNativeTokenAddress } from './isNativeTokenAddress';
+
+/**
+ * Returns the native or ERC20 balance of an EVM account
+ * @param provider - Provider of the token chain
+ * @param owner - Account address
+ * @param token - Token address, NATIVE_ADDRESS for the native asset
+ * @returns Balance in base units
+ * @example
+ * ```typescript
+ * const balance = await getEvmBalance(options.evm.getProvider(8453), owner, USDC_ADDRESS);
+ * ```
+ */
+export async function getEvmBalance(provider: PublicClient, owner: Address, token: Address): Promise<bigint> {
+    if (isNativeTokenAddress(token)) {
+        return provider.getBalance({ address: owner });
+    }
+    return provider.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [owner] });
+}
+
+/**
+ * Returns the SOL or SPL token balance of a Solana account
+ * @param connection - Solana connection
+ * @param owner - Wallet public key
+ * @param mint - Token mint, NATIVE_ADDRESS for SOL (the wrapped SOL mint returns the wrapped SOL token balance)
+ * @returns Balance in base units (lamports for SOL), summed over all token accounts of the mint
+ */
+export async function getSolanaBalance(connection: Connection, owner: PublicKey, mint: string): Promise<bigint> {
+    if (isNativeTokenAddress(mint)) {
+        return BigInt(await connection.getBalance(owner));
+    }
+
+    const { value } = await connection.getParsedTokenAccountsByOwner(owner, { mint: new PublicKey(mint) });
+    return value.reduce((total, { account }) => total + BigInt(account.data.parsed.info.tokenAmount.amount), 0n);
+}
+
+/**
+ * Returns the TON or jetton balance of a TON account
+ * @param client - TON client
+ * @param owner - Wallet address
+ * @param jetton - Jetton master address, NATIVE_ADDRESS or the zero address for TON
+ * @returns Balance in base units (nanotons for TON)
+ */
+export async function getTonBalance(client: TON.types.Client, owner: TonAddress, jetton: string): Promise<bigint> {
+    if (isNativeTokenAddress(jetton)) {
+        return client.client.getBalance(owner);
+    }
+
+    const { balance } = await client.api.accounts.getAccountJettonBalance(owner, TonAddress.parse(jetton));
+    return BigInt(balance);
+}
@@ -0,0 +1,2 @@
+export * from './resolveAmount';
+export * from './balances';
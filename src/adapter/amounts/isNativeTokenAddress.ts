@@ -0,0 +1,16 @@
+import { EVM } from '../../blockchain';
+
+/**
+ * Native TON address used in token lists
+ */
+const TON_NATIVE_ADDRESS = `0:${'0'.repeat(64)}`;
+
+/**
+ * Checks whether a token address stands for the native asset of its chain
+ * @description `NATIVE_ADDRESS` on every chain family and the TON zero address. The wrapped SOL mint is an SPL token like any
+ * other: its balance is the wrapped SOL token account, not the lamports, and it needs no gas reserve. Balances and gas reserves
+ * must use the same check.
+ */
+export function isNativeTokenAddress(address: string): boolean {
+    return EVM.utils.isNativeAddress(address) || address === TON_NATIVE_ADDRESS;
+}
@@ -0,0 +1,105 @@
+import { vi } from 'vitest';
+import { Address, parseEther, parseUnits } from 'viem';
+import { Token } from '@real-wagmi/sdk';
+import { AmountResolutionError, DEFAULT_GAS_RESERVES, resolveAmount } from './resolveAmount';
+import { FunctionErrorCode, UserToken } from '../types';
+import { Chain, EVM, Solana, WalletType } from '../../blockchain';
+
+describe('resolveAmount', () => {
+    const usdc: UserToken = { chain: Chain.BASE, name: 'USD Coin', symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 };
+    const eth: UserToken = { chain: Chain.BASE, name: 'Ether', symbol: 'ETH', address: EVM.constants.NATIVE_ADDRESS, decimals: 18 };
+    const sol: UserToken = { chain: Chain.SOLANA, name: 'Solana', symbol: 'SOL', address: EVM.constants.NATIVE_ADDRESS, decimals: 9 };
+    const ton: UserToken = { chain: Chain.TON, name: 'Toncoin', symbol: 'TON', address: `0:${'0'.repeat(64)}`, decimals: 9 };
+
+    const balanceOf = (balance: bigint) => vi.fn(async () => balance);
+
+    async function expectError(promise: Promise<bigint>, message: RegExp, errorCode = FunctionErrorCode.INVALID_ARGS) {
+        const error = await promise.catch(error => error);
+        expect(error).toBeInstanceOf(AmountResolutionError);
+        expect(error.message).toMatch(message);
+        expect(error.errorCode).toBe(errorCode);
+    }
+
+    describe('decimal amounts', () => {
+        it('should parse decimal amounts without fetching the balance', async () => {
+            const getBalance = balanceOf(0n);
+
+            expect(await resolveAmount('1.5', { token: usdc, getBalance })).toBe(1_500_000n);
+            expect(await resolveAmount('.25', { token: usdc, getBalance })).toBe(250_000n);
+            expect(await resolveAmount('1_000', { token: usdc, getBalance })).toBe(1_000_000_000n);
+            expect(await resolveAmount('0.000000000000000001', { token: eth, getBalance })).toBe(1n);
+            expect(getBalance).not.toHaveBeenCalled();
+        });
+
+        it('should accept a trailing token symbol', async () => {
+            expect(await resolveAmount(' 2.5 usdc ', { token: usdc, getBalance: balanceOf(0n) })).toBe(2_500_000n);
+            expect(await resolveAmount('2.5USDC', { token: usdc, getBalance: balanceOf(0n) })).toBe(2_500_000n);
+        });
+
+        it('should support @real-wagmi/sdk tokens', async () => {
+            const token = new Token(8453, usdc.address as Address, 6, 'USDC');
+            expect(await resolveAmount('3', { token, getBalance: balanceOf(0n) })).toBe(3_000_000n);
+        });
+
+        it('should reject more decimals than the token supports', async () => {
+            await expectError(resolveAmount('1.1234567', { token: usdc, getBalance: balanceOf(0n) }), /Amount 1.1234567 has more decimals than USDC supports \(6\)/);
+        });
+
+        it('should reject malformed and non-positive amounts', async () => {
+            for (const amount of ['abc', '-1', '1e6', '1,5', '', '1.2.3']) {
+                await expectError(resolveAmount(amount, { token: usdc, getBalance: balanceOf(0n) }), /Invalid amount/);
+            }
+            await expectError(resolveAmount('0.0', { token: usdc, getBalance: balanceOf(0n) }), /greater than 0/);
+        });
+    });
+
+    describe('max amounts', () => {
+        it('should return the whole token balance', async () => {
+            for (const amount of ['all', 'MAX', 'max USDC', '100%']) {
+                expect(await resolveAmount(amount, { token: usdc, getBalance: balanceOf(7_000_000n) })).toBe(7_000_000n);
+            }
+        });
+
+        it('should keep the gas reserve of native assets', async () => {
+            expect(await resolveAmount('max', { token: eth, getBalance: balanceOf(parseEther('1')) })).toBe(parseEther('1') - DEFAULT_GAS_RESERVES[WalletType.EVM]);
+            expect(await resolveAmount('max', { token: sol, getBalance: balanceOf(1_000_000_000n) })).toBe(990_000_000n);
+            expect(await resolveAmount('max', { token: ton, getBalance: balanceOf(1_000_000_000n) })).toBe(900_000_000n);
+            expect(await resolveAmount('all', { token: eth, getBalance: balanceOf(parseEther('1')), gasReserve: parseEther('0.1') })).toBe(parseEther('0.9'));
+        });
+
+        it('should not keep a gas reserve for wrapped SOL', async () => {
+            const wsol = { ...sol, symbol: 'WSOL', address: Solana.constants.SPL_TOKENS.wsol.mint };
+            expect(await resolveAmount('max', { token: wsol, getBalance: balanceOf(1_000_000_000n) })).toBe(1_000_000_000n);
+        });
+
+        it('should reject empty balances', async () => {
+            await expectError(resolveAmount('max', { token: usdc, getBalance: balanceOf(0n) }), /USDC balance is 0/, FunctionErrorCode.INSUFFICIENT_BALANCE);
+            await expectError(
+                resolveAmount('max', { token: eth, getBalance: balanceOf(parseEther('0.001')) }),
+                /too low to keep the fee reserve/,
+                FunctionErrorCode.INSUFFICIENT_BALANCE,
+            );
+        });
+    });
+
+    describe('percentages', () => {
+        it('should return a share of the balance', async () => {
+            expect(await resolveAmount('50%', { token: usdc, getBalance: balanceOf(7_000_001n) })).toBe(3_500_000n);
+            expect(await resolveAmount('12.5 %', { token: usdc, getBalance: balanceOf(parseUnits('8', 6)) })).toBe(1_000_000n);
+        });
+
+        it('should only cap native shares at the gas reserve', async () => {
+            expect(await resolveAmount('50%', { token: eth, getBalance: balanceOf(parseEther('1')) })).toBe(parseEther('0.5'));
+            expect(await resolveAmount('100%', { token: eth, getBalance: balanceOf(parseEther('1')) })).toBe(parseEther('0.998'));
+        });
+
+        it('should reject percentages outside (0, 100]', async () => {
+            await expectError(resolveAmount('150%', { token: usdc, getBalance: balanceOf(1n) }), /Invalid percentage "150%"/);
+            await expectError(resolveAmount('0%', { token: usdc, getBalance: balanceOf(1n) }), /Invalid percentage "0%"/);
+        });
+
+        it('should reject shares rounding down to 0', async () => {
+            await expectError(resolveAmount('10%', { token: usdc, getBalance: balanceOf(5n) }), /10% of the USDC balance is 0/, FunctionErrorCode.INSUFFICIENT_BALANCE);
+        });
+    });
+});
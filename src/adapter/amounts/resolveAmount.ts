@@ -0,0 +1,132 @@
+import { parseEther } from 'viem';
+import { Token } from '@real-wagmi/sdk';
+import { FunctionErrorCode, UserToken } from '../types';
+import { getWalletType, WalletType } from '../../blockchain';
+import { isNativeTokenAddress } from './isNativeTokenAddress';
+
+/**
+ * Native asset kept for fees when "max" is requested, per wallet type
+ */
+export const DEFAULT_GAS_RESERVES: Record<WalletType, bigint> = {
+    [WalletType.EVM]: parseEther('0.002'),
+    [WalletType.SOLANA]: 10_000_000n, // 0.01 SOL
+    [WalletType.TON]: 100_000_000n, // 0.1 TON
+};
+
+const KEYWORDS_ALL = ['all', 'max', 'everything'];
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Error thrown when an amount cannot be resolved
+ */
+export class AmountResolutionError extends Error {
+    /** INVALID_ARGS or INSUFFICIENT_BALANCE */
+    public readonly errorCode: FunctionErrorCode;
+
+    constructor(message: string, errorCode: FunctionErrorCode = FunctionErrorCode.INVALID_ARGS) {
+        super(message);
+        this.name = 'AmountResolutionError';
+        this.errorCode = errorCode;
+    }
+}
+
+/**
+ * Token an amount is given in
+ */
+export type AmountToken = UserToken | Token;
+
+/**
+ * Parameters of amount resolution
+ * @interface ResolveAmountParams
+ */
+export interface ResolveAmountParams {
+    /** Token the amount is given in */
+    readonly token: AmountToken;
+    /** Returns the owner's balance of the token in base units (see `getEvmBalance`, `getSolanaBalance`, `getTonBalance`) */
+    readonly getBalance: () => Promise<bigint>;
+    /** Native asset kept for fees when the whole native balance is requested (default: DEFAULT_GAS_RESERVES) */
+    readonly gasReserve?: bigint;
+}
+
+function getTokenWalletType(token: AmountToken): WalletType {
+    return 'chain' in token ? getWalletType(token.chain) : WalletType.EVM;
+}
+
+/**
+ * Parses a decimal string to base units without rounding
+ */
+function parseDecimal(value: string, decimals: number, symbol: string): bigint {
+    const [integer, fraction = ''] = value.split('.');
+    if (fraction.length > decimals) {
+        throw new AmountResolutionError(`Amount ${value} has more decimals than ${symbol} supports (${decimals})`);
+    }
+    return BigInt(`${integer || '0'}${fraction.padEnd(decimals, '0')}`);
+}
+
+/**
+ * Resolves a human-readable amount to base units
+ * @param amount - Amount as sent by the model: a decimal ("1.5", "1.5 USDC"), "all"/"max" or a percentage of the balance ("50%")
+ * @param params - Token, balance provider and gas reserve
+ * @returns Amount in base units
+ * @throws {AmountResolutionError} When the amount is malformed, not positive, has more decimals than the token
+ * (`INVALID_ARGS`) or the balance is too low for "max" or a percentage (`INSUFFICIENT_BALANCE`)
+ * @description The balance is only fetched for "all"/"max" and percentages. When these are requested for a native asset,
+ * the gas reserve is kept so the transaction fee can still be paid.
+ * @example
+ * ```typescript
+ * const provider = options.evm.getProvider(chainId);
+ * const owner = await options.evm.getAddress();
+ *
+ * const amount = await resolveAmount(args.amount, {
+ *   token: usdc,
+ *   getBalance: () => getEvmBalance(provider, owner, usdc.address)
+ * });
+ * ```
+ */
+export async function resolveAmount(amount: string, params: ResolveAmountParams): Promise<bigint> {
+    const { token, getBalance } = params;
+    const symbol = token.symbol ?? 'token';
+    const value = amount
+        .trim()
+        .replace(new RegExp(`\\s*${escapeRegExp(symbol)}$`, 'i'), '')
+        .replace(/_/g, '')
+        .toLowerCase();
+
+    const isAll = KEYWORDS_ALL.includes(value);
+    const percent = value.match(/^(\d+(?:\.\d+)?)\s*%$/);
+
+    if (!isAll && !percent) {
+        if (!/^(\d+\.?\d*|\.\d+)$/.test(value)) {
+            throw new AmountResolutionError(`Invalid amount "${amount}", expected a number, "max" or a percentage such as "50%"`);
+        }
+        const result = parseDecimal(value, token.decimals, symbol);
+        if (result === 0n) throw new AmountResolutionError('Amount must be greater than 0');
+        return result;
+    }
+
+    const native = isNativeTokenAddress(token.address);
+    const reserve = native ? params.gasReserve ?? DEFAULT_GAS_RESERVES[getTokenWalletType(token)] : 0n;
+    const available = (await getBalance()) - reserve;
+
+    if (available <= 0n) {
+        throw new AmountResolutionError(native ? `${symbol} balance is too low to keep the fee reserve` : `${symbol} balance is 0`, FunctionErrorCode.INSUFFICIENT_BALANCE);
+    }
+    if (isAll) return available;
+
+    const share = parseDecimal(percent![1], 18, '%');
+    const hundred = parseDecimal('100', 18, '%');
+    if (share === 0n || share > hundred) {
+        throw new AmountResolutionError(`Invalid percentage "${amount}", expected more than 0% and at most 100%`);
+    }
+
+    // The reserve only matters when it would be spent, so a share of the full balance is capped at the available balance
+    const result = ((available + reserve) * share) / hundred;
+    const capped = result > available ? available : result;
+    if (capped === 0n) {
+        throw new AmountResolutionError(`${percent![1]}% of the ${symbol} balance is 0`, FunctionErrorCode.INSUFFICIENT_BALANCE);
+    }
+    return capped;
+}
@@ -0,0 +1,51 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonlAuditSink } from './JsonlAuditSink';
+import { AuditCallEntry } from './types';
+
+describe('JsonlAuditSink', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'audit-'));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    const entry = (callId: string): AuditCallEntry => ({
+        type: 'call',
+        callId,
+        timestamp: '2024-01-01T00:00:00.000Z',
+        userId: '42',
+        adapter: 'test',
+        functionName: 'supply',
+        args: { amount: 5n },
+    });
+
+    it('should append entries as JSON lines in write order', async () => {
+        const path = join(directory, 'audit.jsonl');
+        const sink = new JsonlAuditSink(path);
+
+        await Promise.all(['a', 'b', 'c'].map(callId => sink.write(entry(callId))));
+
+        const lines = readFileSync(path, 'utf8')
+            .trim()
+            .split('\n')
+            .map(line => JSON.parse(line));
+        expect(lines.map(({ callId }) => callId)).toEqual(['a', 'b', 'c']);
+        expect(lines[0].args).toEqual({ amount: '5' });
+    });
+
+    it('should reject failed writes and keep writing later entries', async () => {
+        const failing = new JsonlAuditSink(join(directory, 'missing', 'audit.jsonl'));
+        await expect(failing.write(entry('a'))).rejects.toThrow();
+
+        const path = join(directory, 'audit.jsonl');
+        const sink = new JsonlAuditSink(path);
+        await expect(sink.write(entry('b'))).resolves.toBeUndefined();
+        expect(readFileSync(path, 'utf8')).toContain('"callId":"b"');
+    });
+});
@@ -0,0 +1,32 @@
+import { stringify } from '../../utils';
+import { AuditEntry, AuditSink } from './types';
+
+/**
+ * Audit sink appending one JSON object per line to a file (Node.js only)
+ * @description Entries are appended in the order they are written. The file is created when missing.
+ * @example
+ * ```typescript
+ * const adapter = applyMiddleware(myAdapter, [auditLog({ sink: new JsonlAuditSink('/var/log/heyanon/audit.jsonl') })]);
+ * ```
+ */
+export class JsonlAuditSink implements AuditSink {
+    /** Last pending append, later appends wait for it */
+    private queue: Promise<void> = Promise.resolve();
+
+    /**
+     * @param path - File path
+     */
+    constructor(readonly path: string) {}
+
+    write(entry: AuditEntry): Promise<void> {
+        const line = `${stringify(entry)}\n`;
+        const append = this.queue.then(async () => {
+            // Imported lazily so that the SDK entry point stays free of Node.js modules
+            const { appendFile } = await import('fs/promises');
+            await appendFile(this.path, line, 'utf8');
+        });
+
+        this.queue = append.catch(() => undefined);
+        return append;
+    }
+}
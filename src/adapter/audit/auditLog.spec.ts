@@ -0,0 +1,146 @@
+import { vi } from 'vitest';
+import { Address, Hex } from 'viem';
+import { Keypair } from '@solana/web3.js';
+import { Address as TonAddress } from '@ton/ton';
+import { auditLog } from './auditLog';
+import { AuditEntry } from './types';
+import { applyMiddleware, redactArgs } from '../middleware';
+import { AdapterExport, FunctionErrorCode, FunctionOptions } from '../types';
+import { toResult } from '../transformers';
+import { Chain, WalletType } from '../../blockchain';
+
+describe('auditLog', () => {
+    const account: Address = '0x00000000000000000000000000000000000A11cE';
+    const target: Address = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+    const solanaAccount = Keypair.generate().publicKey;
+    const tonAccount = TonAddress.parse(`0:${'1'.repeat(64)}`);
+
+    let entries: AuditEntry[];
+    const sink = { write: vi.fn(async (entry: AuditEntry) => void entries.push(entry)) };
+
+    const adapter: AdapterExport = {
+        name: 'test',
+        description: 'Test adapter',
+        chains: [Chain.BASE],
+        executableFunctions: ['supply', 'bridge', 'fail'],
+        tools: [],
+        functions: {
+            supply: async (_args, options) => {
+                const { data } = await options.evm!.sendTransactions({ chainId: 8453, account, transactions: [{ target, data: '0x095ea7b3', value: 10n }] });
+                return toResult(`Supplied, hash ${data[0].hash}`);
+            },
+            bridge: async (_args, options) => {
+                await options.solana!.sendTransactions({ account: solanaAccount, transactions: [] });
+                await options.ton!.sendTransactions({ account: tonAccount, transactions: [{ to: tonAccount, value: 1_000_000_000n }] });
+                return toResult('Bridged');
+            },
+            fail: async (_args, options) => {
+                await options.evm!.sendTransactions({ chainId: 8453, account, transactions: [] });
+                return toResult('unreachable');
+            },
+            getApy: async () => toResult('4.2%'),
+        },
+    };
+
+    const createOptions = (): FunctionOptions => ({
+        evm: {
+            getAddress: async () => account,
+            getProvider: vi.fn(),
+            sendTransactions: vi.fn(async ({ transactions }) => {
+                if (transactions.length === 0) throw new Error('nothing to send');
+                return { data: [{ message: 'Transaction sent', hash: '0xabc' as Hex }] };
+            }),
+        },
+        solana: { getConnection: vi.fn(), getPublicKey: async () => solanaAccount, sendTransactions: vi.fn(async () => ({ data: [] })) },
+        ton: { getAddress: async () => tonAccount, getClient: vi.fn(), sendTransactions: vi.fn(async () => ({ data: [{ message: 'Sent', hash: 'ff' }] })) },
+        user: { getUserId: async () => '42', getUserTokens: async () => [], addUserToken: async token => token },
+    });
+
+    beforeEach(() => {
+        entries = [];
+        sink.write.mockClear();
+    });
+
+    it('should record the call, its transactions and the result', async () => {
+        const { functions } = applyMiddleware(adapter, [redactArgs(), auditLog({ sink })]);
+        const options = createOptions();
+
+        expect(await functions.supply({ amount: '10', password: 'hunter2' }, options)).toEqual(toResult('Supplied, hash 0xabc'));
+        expect(options.evm!.sendTransactions).toHaveBeenCalledTimes(1);
+
+        const base = { callId: entries[0].callId, timestamp: expect.any(String), userId: '42', adapter: 'test', functionName: 'supply' };
+        expect(entries).toEqual([
+            { ...base, type: 'call', args: { amount: '10', password: '[REDACTED]' } },
+            {
+                ...base,
+                type: 'transactions',
+                walletType: WalletType.EVM,
+                chainId: 8453,
+                account,
+                transactions: [{ target, data: '0x095ea7b3', value: '10' }],
+                result: [{ message: 'Transaction sent', hash: '0xabc' }],
+            },
+            { ...base, type: 'result', success: true, data: 'Supplied, hash 0xabc', durationMs: expect.any(Number) },
+        ]);
+    });
+
+    it('should summarize Solana and TON transactions', async () => {
+        const { functions } = applyMiddleware(adapter, [auditLog({ sink })]);
+        await functions.bridge({}, createOptions());
+
+        expect(entries.filter(({ type }) => type === 'transactions')).toMatchObject([
+            { walletType: WalletType.SOLANA, account: solanaAccount.toBase58(), transactions: [], result: [] },
+            {
+                walletType: WalletType.TON,
+                account: tonAccount.toString(),
+                transactions: [{ to: tonAccount.toString(), value: '1000000000', hasPayload: false }],
+                result: [{ message: 'Sent', hash: 'ff' }],
+            },
+        ]);
+    });
+
+    it('should record failed sends and thrown errors', async () => {
+        const { functions } = applyMiddleware(adapter, [auditLog({ sink })]);
+
+        await expect(functions.fail({}, createOptions())).rejects.toThrow('nothing to send');
+        expect(entries.map(({ type }) => type)).toEqual(['call', 'transactions', 'result']);
+        expect(entries[1]).toMatchObject({ error: 'nothing to send' });
+        expect(entries[1]).not.toHaveProperty('result');
+        expect(entries[2]).toMatchObject({ success: false, data: 'nothing to send' });
+    });
+
+    it('should record error codes of error results', async () => {
+        const failing = { ...adapter, functions: { ...adapter.functions, supply: async () => toResult('Not enough USDC', { errorCode: FunctionErrorCode.INSUFFICIENT_BALANCE }) } };
+        const { functions } = applyMiddleware(failing, [auditLog({ sink })]);
+
+        await functions.supply({}, {});
+        expect(entries[0].userId).toBeUndefined();
+        expect(entries[1]).toMatchObject({ type: 'result', success: false, errorCode: FunctionErrorCode.INSUFFICIENT_BALANCE, data: 'ERROR: Not enough USDC' });
+    });
+
+    it('should not record read-only functions', async () => {
+        const { functions } = applyMiddleware(adapter, [auditLog({ sink })]);
+
+        expect(await functions.getApy({}, createOptions())).toEqual(toResult('4.2%'));
+        expect(sink.write).not.toHaveBeenCalled();
+    });
+
+    it('should not run the function when the call entry cannot be written', async () => {
+        const broken = { write: vi.fn(async () => Promise.reject(new Error('disk full'))) };
+        const { functions } = applyMiddleware(adapter, [auditLog({ sink: broken })]);
+        const options = createOptions();
+
+        await expect(functions.supply({}, options)).rejects.toThrow('disk full');
+        expect(options.evm!.sendTransactions).not.toHaveBeenCalled();
+    });
+
+    it('should report later write failures without changing the result', async () => {
+        const onError = vi.fn();
+        const flaky = { write: vi.fn(async (entry: AuditEntry) => (entry.type === 'call' ? undefined : Promise.reject(new Error('disk full')))) };
+        const { functions } = applyMiddleware(adapter, [auditLog({ sink: flaky, onError })]);
+
+        expect(await functions.supply({}, createOptions())).toEqual(toResult('Supplied, hash 0xabc'));
+        expect(onError).toHaveBeenCalledTimes(2);
+        expect(onError).toHaveBeenCalledWith(new Error('disk full'), expect.objectContaining({ type: 'transactions' }));
+    });
+});
@@ -0,0 +1,166 @@
+import { FunctionOptions } from '../types';
+import { AdapterMiddleware } from '../middleware';
+import { EVM, Solana, TON, WalletType } from '../../blockchain';
+import { JsonlAuditSink } from './JsonlAuditSink';
+import { AuditCallEntry, AuditEntry, AuditEntryBase, AuditResultEntry, AuditSink, AuditTransactionsEntry } from './types';
+
+/**
+ * File written by the default audit sink
+ */
+export const DEFAULT_AUDIT_LOG_PATH = 'audit.jsonl';
+
+/**
+ * Options of the audit log middleware
+ * @interface AuditLogOptions
+ */
+export interface AuditLogOptions {
+    /** Destination of the entries (default: `JsonlAuditSink` writing `DEFAULT_AUDIT_LOG_PATH`) */
+    readonly sink?: AuditSink;
+    /** Called when a transactions or result entry cannot be written */
+    readonly onError?: (error: unknown, entry: AuditEntry) => void;
+}
+
+/**
+ * Entry without the fields shared by all entries of a call
+ */
+type AuditEntryData<T extends AuditEntry> = Omit<T, keyof AuditEntryBase>;
+
+function createCallId(): string {
+    return `${Date.now().toString(36)}-${Math.random()
+        .toString(36)
+        .slice(2, 10)}`;
+}
+
+function toErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function summarizeEvmTransaction({ target, data, value }: EVM.types.TransactionParams) {
+    return { target, data, ...(value !== undefined && { value: value.toString() }) };
+}
+
+function summarizeSolanaTransaction(transaction: Solana.types.SendTransactionProps['transactions'][number]) {
+    const { staticAccountKeys = [], compiledInstructions = [] } = transaction.message ?? {};
+    const programs = compiledInstructions.map(({ programIdIndex }) => staticAccountKeys[programIdIndex]?.toBase58() ?? 'unknown');
+    return { instructionCount: compiledInstructions.length, programs: Array.from(new Set(programs)) };
+}
+
+function summarizeTonTransaction({ to, value, body }: TON.types.SendTransactionProps['transactions'][number]) {
+    return { to: to.toString(), value: value.toString(), hasPayload: Boolean(body) };
+}
+
+/**
+ * Wraps `sendTransactions` of every wallet so that each call is reported with its summary and result
+ */
+function withAuditedTransactions(options: FunctionOptions, report: (data: AuditEntryData<AuditTransactionsEntry>) => Promise<void>): FunctionOptions {
+    const audited = async <T extends { data: { message: string; hash: string }[] }>(
+        entry: Omit<AuditEntryData<AuditTransactionsEntry>, 'result' | 'error'>,
+        send: () => Promise<T>,
+    ): Promise<T> => {
+        try {
+            const result = await send();
+            await report({ ...entry, result: result.data.map(({ message, hash }) => ({ message, hash })) });
+            return result;
+        } catch (error) {
+            await report({ ...entry, error: toErrorMessage(error) });
+            throw error;
+        }
+    };
+
+    return {
+        ...options,
+        evm: options.evm && {
+            ...options.evm,
+            sendTransactions: props =>
+                audited(
+                    {
+                        type: 'transactions',
+                        walletType: WalletType.EVM,
+                        chainId: props.chainId,
+                        account: props.account,
+                        transactions: props.transactions.map(summarizeEvmTransaction),
+                    },
+                    () => options.evm!.sendTransactions(props),
+                ),
+        },
+        solana: options.solana && {
+            ...options.solana,
+            sendTransactions: props =>
+                audited(
+                    { type: 'transactions', walletType: WalletType.SOLANA, account: props.account.toBase58(), transactions: props.transactions.map(summarizeSolanaTransaction) },
+                    () => options.solana!.sendTransactions(props),
+                ),
+        },
+        ton: options.ton && {
+            ...options.ton,
+            sendTransactions: props =>
+                audited(
+                    { type: 'transactions', walletType: WalletType.TON, account: props.account.toString(), transactions: props.transactions.map(summarizeTonTransaction) },
+                    () => options.ton!.sendTransactions(props),
+                ),
+        },
+    };
+}
+
+/**
+ * Creates a middleware that records executable function calls and the transactions they send
+ * @param options - Middleware options
+ * @returns Middleware writing audit entries to the sink
+ * @description For every function listed in `executableFunctions`, a `call` entry with the user id and the loggable arguments is
+ * written before the function runs, a `transactions` entry after each `sendTransactions` call and a `result` entry when the function
+ * returns or throws. Entries of one call share a `callId`. When the `call` entry cannot be written, the function does not run and the
+ * error is thrown, so nothing is sent unrecorded. Later write failures are passed to `onError` and do not change the result, because
+ * the transactions may already be sent. Place the middleware after `redactArgs` to keep secrets out of the log.
+ * @example
+ * ```typescript
+ * const adapter = applyMiddleware(aaveAdapter, [redactArgs(), auditLog({ sink: new JsonlAuditSink('./audit.jsonl') })]);
+ *
+ * await adapter.functions.supply(args, options);
+ * // audit.jsonl:
+ * // {"type":"call","callId":"lq2x...","userId":"42","adapter":"aave","functionName":"supply","args":{...},...}
+ * // {"type":"transactions","callId":"lq2x...","walletType":"evm","chainId":8453,"account":"0x...","transactions":[...],"result":[{"message":"...","hash":"0x..."}],...}
+ * // {"type":"result","callId":"lq2x...","success":true,"data":"Supplied 100 USDC","durationMs":5120,...}
+ * ```
+ */
+export function auditLog(options: AuditLogOptions = {}): AdapterMiddleware {
+    const { sink = new JsonlAuditSink(DEFAULT_AUDIT_LOG_PATH), onError } = options;
+
+    return async (context, next) => {
+        if (!context.executable) return next();
+
+        const callId = createCallId();
+        const fields: Omit<AuditEntryBase, 'callId' | 'timestamp'> = {
+            userId: await context.options.user?.getUserId(),
+            adapter: context.adapter.name,
+            functionName: context.functionName,
+        };
+        const entry = <T extends AuditEntry>(data: AuditEntryData<T>) => ({ callId, timestamp: new Date().toISOString(), ...fields, ...data } as T);
+        const report = async (auditEntry: AuditEntry) => {
+            try {
+                await sink.write(auditEntry);
+            } catch (error) {
+                onError?.(error, auditEntry);
+            }
+        };
+
+        await sink.write(
+            entry<AuditCallEntry>({ type: 'call', args: context.loggableArgs }),
+        );
+        context.options = withAuditedTransactions(context.options, data => report(entry<AuditTransactionsEntry>(data)));
+
+        const start = Date.now();
+        try {
+            const result = await next();
+            const { success, errorCode, data } = result;
+            await report(
+                entry<AuditResultEntry>({ type: 'result', success, ...(errorCode !== undefined && { errorCode }), data, durationMs: Date.now() - start }),
+            );
+            return result;
+        } catch (error) {
+            await report(
+                entry<AuditResultEntry>({ type: 'result', success: false, data: toErrorMessage(error), durationMs: Date.now() - start }),
+            );
+            throw error;
+        }
+    };
+}
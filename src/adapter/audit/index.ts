@@ -0,0 +1,3 @@
+export * from './types';
+export * from './JsonlAuditSink';
+export * from './auditLog';
@@ -0,0 +1,105 @@
+import { FunctionErrorCode } from '../types';
+import { WalletType } from '../../blockchain';
+
+/**
+ * Fields shared by all audit entries of one adapter function call
+ * @interface AuditEntryBase
+ */
+export interface AuditEntryBase {
+    /** Id linking the entries of one call */
+    readonly callId: string;
+    /** Time of the entry (ISO 8601) */
+    readonly timestamp: string;
+    /** `options.user.getUserId()`, or undefined when the call has no user */
+    readonly userId?: string;
+    /** Adapter name */
+    readonly adapter: string;
+    /** Called function name */
+    readonly functionName: string;
+}
+
+/**
+ * Written before an executable function runs
+ * @interface AuditCallEntry
+ */
+export interface AuditCallEntry extends AuditEntryBase {
+    readonly type: 'call';
+    /** Loggable arguments (see `redactArgs`) */
+    readonly args: unknown;
+}
+
+/**
+ * EVM transaction as sent
+ * @interface EvmAuditTransaction
+ */
+export interface EvmAuditTransaction {
+    readonly target: string;
+    readonly data: string;
+    /** Native value in wei */
+    readonly value?: string;
+}
+
+/**
+ * Solana transaction as sent
+ * @interface SolanaAuditTransaction
+ */
+export interface SolanaAuditTransaction {
+    readonly instructionCount: number;
+    /** Called program ids */
+    readonly programs: string[];
+}
+
+/**
+ * TON message as sent
+ * @interface TonAuditTransaction
+ */
+export interface TonAuditTransaction {
+    readonly to: string;
+    /** Value in nanotons */
+    readonly value: string;
+    readonly hasPayload: boolean;
+}
+
+/**
+ * Written after each `sendTransactions` call
+ * @interface AuditTransactionsEntry
+ */
+export interface AuditTransactionsEntry extends AuditEntryBase {
+    readonly type: 'transactions';
+    readonly walletType: WalletType;
+    /** EVM chain id */
+    readonly chainId?: number;
+    /** Sending account */
+    readonly account: string;
+    /** Summary of the `SendTransactionProps` transactions */
+    readonly transactions: (EvmAuditTransaction | SolanaAuditTransaction | TonAuditTransaction)[];
+    /** Returned messages and hashes, when sending succeeded */
+    readonly result?: { readonly message: string; readonly hash: string }[];
+    /** Error message, when sending threw */
+    readonly error?: string;
+}
+
+/**
+ * Written after an executable function returned or threw
+ * @interface AuditResultEntry
+ */
+export interface AuditResultEntry extends AuditEntryBase {
+    readonly type: 'result';
+    readonly success: boolean;
+    readonly errorCode?: FunctionErrorCode;
+    /** Returned data, or the error message when the function threw */
+    readonly data: string;
+    /** Call duration in milliseconds */
+    readonly durationMs: number;
+}
+
+export type AuditEntry = AuditCallEntry | AuditTransactionsEntry | AuditResultEntry;
+
+/**
+ * Destination of audit entries, e.g. a file, a database or a log pipeline
+ * @interface AuditSink
+ */
+export interface AuditSink {
+    /** Appends the entry, resolves when it is stored */
+    write(entry: AuditEntry): Promise<void>;
+}
@@ -0,0 +1,44 @@
+import { MemoryResultCacheStore } from './MemoryResultCacheStore';
+import { ResultCacheEntry } from './types';
+import { toResult } from '../transformers';
+
+describe('MemoryResultCacheStore', () => {
+    const entry = (data: string): ResultCacheEntry => ({ result: toResult(data), cachedAt: 0, expiresAt: 1_000 });
+
+    it('should store and delete entries', async () => {
+        const store = new MemoryResultCacheStore();
+
+        await store.set('a', entry('a'));
+        expect(await store.get('a')).toEqual(entry('a'));
+
+        await store.delete('a');
+        expect(await store.get('a')).toBeUndefined();
+        expect(store.size).toBe(0);
+    });
+
+    it('should evict the least recently used entries', async () => {
+        const store = new MemoryResultCacheStore(2);
+
+        await store.set('a', entry('a'));
+        await store.set('b', entry('b'));
+        await store.get('a');
+        await store.set('c', entry('c'));
+
+        expect(await store.get('b')).toBeUndefined();
+        expect(await store.get('a')).toEqual(entry('a'));
+        expect(await store.get('c')).toEqual(entry('c'));
+        expect(store.size).toBe(2);
+    });
+
+    it('should clear all entries', async () => {
+        const store = new MemoryResultCacheStore();
+        await store.set('a', entry('a'));
+
+        store.clear();
+        expect(store.size).toBe(0);
+    });
+
+    it('should reject invalid sizes', () => {
+        expect(() => new MemoryResultCacheStore(0)).toThrow('maxEntries must be a positive integer, got 0');
+    });
+});
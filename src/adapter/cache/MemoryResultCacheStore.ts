@@ -0,0 +1,55 @@
+import { ResultCacheEntry, ResultCacheStore } from './types';
+
+/**
+ * In-memory result store evicting the least recently used entries
+ * @example
+ * ```typescript
+ * const store = new MemoryResultCacheStore(1_000);
+ * const adapter = applyMiddleware(myAdapter, [cacheResults({ store })]);
+ * ```
+ */
+export class MemoryResultCacheStore implements ResultCacheStore {
+    /** Entries in the order of use, the least recently used first */
+    private readonly entries: Map<string, ResultCacheEntry> = new Map();
+
+    /**
+     * @param maxEntries - Number of entries kept before the least recently used ones are evicted (default: 500)
+     */
+    constructor(private readonly maxEntries: number = 500) {
+        if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+            throw new Error(`maxEntries must be a positive integer, got ${maxEntries}`);
+        }
+    }
+
+    /** Number of stored entries */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    async get(key: string): Promise<ResultCacheEntry | undefined> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    async set(key: string, entry: ResultCacheEntry): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    /** Removes all entries */
+    clear(): void {
+        this.entries.clear();
+    }
+}
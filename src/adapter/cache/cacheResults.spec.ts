@@ -0,0 +1,128 @@
+import { vi } from 'vitest';
+import { Address } from 'viem';
+import { cacheResults } from './cacheResults';
+import { MemoryResultCacheStore } from './MemoryResultCacheStore';
+import { applyMiddleware } from '../middleware';
+import { AdapterExport, FunctionOptions } from '../types';
+import { toResult } from '../transformers';
+import { Chain } from '../../blockchain';
+
+describe('cacheResults', () => {
+    const getApy = vi.fn();
+    const supply = vi.fn();
+    const adapter: AdapterExport = {
+        name: 'test',
+        description: 'Test adapter',
+        chains: [Chain.BASE, Chain.ARBITRUM],
+        executableFunctions: ['supply'],
+        tools: [],
+        functions: { getApy, getQuote: getApy, supply },
+    };
+
+    const userOptions = (userId: string): FunctionOptions => ({
+        user: { getUserId: async () => userId, getUserTokens: async () => [], addUserToken: async token => token },
+    });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1_700_000_000_000);
+        getApy.mockReset().mockImplementation(async ({ chainName }) => toResult(`${chainName}: 4.2%`));
+        supply.mockReset().mockResolvedValue(toResult('Supplied'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should return cached results marked as cache hits', async () => {
+        const { functions } = applyMiddleware(adapter, [cacheResults()]);
+
+        expect(await functions.getApy({ chainName: 'base', asset: 'USDC' }, {})).toEqual(toResult('base: 4.2%'));
+        vi.advanceTimersByTime(1_000);
+        expect(await functions.getApy({ asset: 'USDC', chainName: 'base' }, {})).toEqual({
+            ...toResult('base: 4.2%'),
+            metadata: { cacheHit: true, cachedAt: 1_700_000_000_000 },
+        });
+        expect(getApy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should key results by function, arguments, chain and user', async () => {
+        const { functions } = applyMiddleware(adapter, [cacheResults()]);
+
+        await functions.getApy({ chainName: 'base', asset: 'USDC' }, userOptions('alice'));
+        await functions.getApy({ chainName: 'arbitrum', asset: 'USDC' }, userOptions('alice'));
+        await functions.getApy({ chainName: 'base', asset: 'WETH' }, userOptions('alice'));
+        await functions.getApy({ chainName: 'base', asset: 'USDC' }, userOptions('bob'));
+        await functions.getQuote({ chainName: 'base', asset: 'USDC' }, userOptions('alice'));
+        expect(getApy).toHaveBeenCalledTimes(5);
+
+        expect((await functions.getApy({ chainName: 'base', asset: 'USDC' }, userOptions('bob'))).metadata).toMatchObject({ cacheHit: true });
+        expect(getApy).toHaveBeenCalledTimes(5);
+    });
+
+    it('should key results by connected wallet', async () => {
+        const { functions } = applyMiddleware(adapter, [cacheResults()]);
+        const walletOptions = (address: Address): FunctionOptions => ({ evm: { getAddress: async () => address } as FunctionOptions['evm'] });
+
+        await functions.getApy({ chainName: 'base' }, walletOptions('0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045'));
+        await functions.getApy({ chainName: 'base' }, walletOptions('0x742d35CC6634C0532925a3b8d4C2CA1C1DFF0be8'));
+        await functions.getApy({ chainName: 'base' }, {});
+        expect(getApy).toHaveBeenCalledTimes(3);
+
+        expect((await functions.getApy({ chainName: 'base' }, walletOptions('0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045'))).metadata).toMatchObject({ cacheHit: true });
+    });
+
+    it('should expire results after the function TTL', async () => {
+        const { functions } = applyMiddleware(adapter, [cacheResults({ ttlMs: 10_000, functionTtls: { getQuote: 1_000 } })]);
+
+        await functions.getApy({ chainName: 'base' }, {});
+        await functions.getQuote({ chainName: 'base' }, {});
+        vi.advanceTimersByTime(1_000);
+
+        expect((await functions.getApy({ chainName: 'base' }, {})).metadata).toMatchObject({ cacheHit: true });
+        expect((await functions.getQuote({ chainName: 'base' }, {})).metadata).toBeUndefined();
+        expect(getApy).toHaveBeenCalledTimes(3);
+
+        vi.advanceTimersByTime(9_000);
+        expect((await functions.getApy({ chainName: 'base' }, {})).metadata).toBeUndefined();
+    });
+
+    it('should not cache functions with a TTL of 0', async () => {
+        const { functions } = applyMiddleware(adapter, [cacheResults({ functionTtls: { getApy: 0 } })]);
+
+        await functions.getApy({ chainName: 'base' }, {});
+        await functions.getApy({ chainName: 'base' }, {});
+        expect(getApy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should never cache executable functions', async () => {
+        const store = new MemoryResultCacheStore();
+        const { functions } = applyMiddleware(adapter, [cacheResults({ store })]);
+
+        await functions.supply({ chainName: 'base' }, {});
+        await functions.supply({ chainName: 'base' }, {});
+        expect(supply).toHaveBeenCalledTimes(2);
+        expect(store.size).toBe(0);
+    });
+
+    it('should not cache error results', async () => {
+        getApy.mockResolvedValue(toResult('RPC down', true));
+        const { functions } = applyMiddleware(adapter, [cacheResults()]);
+
+        await functions.getApy({ chainName: 'base' }, {});
+        await functions.getApy({ chainName: 'base' }, {});
+        expect(getApy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the given store', async () => {
+        const store = { get: vi.fn(async () => undefined), set: vi.fn(async () => {}), delete: vi.fn(async () => {}) };
+        const { functions } = applyMiddleware(adapter, [cacheResults({ store, ttlMs: 5_000 })]);
+
+        await functions.getApy({ chainName: 'base' }, {});
+        expect(store.set).toHaveBeenCalledWith('["test","getApy","anonymous","","base",{"chainName":"base"}]', {
+            result: toResult('base: 4.2%'),
+            cachedAt: 1_700_000_000_000,
+            expiresAt: 1_700_000_005_000,
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import { FunctionOptions } from '../types';
+import { AdapterMiddleware, AdapterMiddlewareContext } from '../middleware';
+import { getWalletKey } from '../middleware/getWalletKey';
+import { stringify } from '../../utils';
+import { MemoryResultCacheStore } from './MemoryResultCacheStore';
+import { ResultCacheStore } from './types';
+
+/**
+ * Options of the result cache middleware
+ * @interface CacheResultsOptions
+ */
+export interface CacheResultsOptions {
+    /** How long results are reused, in milliseconds (default: 15000) */
+    readonly ttlMs?: number;
+    /** TTLs of specific functions overriding `ttlMs`, 0 disables caching of the function */
+    readonly functionTtls?: Record<string, number>;
+    /** Result storage (default: a `MemoryResultCacheStore` per middleware) */
+    readonly store?: ResultCacheStore;
+}
+
+const ANONYMOUS_USER = 'anonymous';
+
+/**
+ * Sorts object keys recursively so that argument order does not change the key
+ */
+function normalizeArgs(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(normalizeArgs);
+    if (typeof value !== 'object' || value === null) return value;
+
+    return Object.fromEntries(
+        Object.keys(value)
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map(key => [key, normalizeArgs((value as Record<string, unknown>)[key])]),
+    );
+}
+
+function getChain(args: unknown): unknown {
+    if (typeof args !== 'object' || args === null) return undefined;
+    const { chainName, chain, chainId } = args as Record<string, unknown>;
+    return chainName ?? chain ?? chainId;
+}
+
+async function getCacheKey({ adapter, functionName, args }: AdapterMiddlewareContext, options: FunctionOptions): Promise<string> {
+    const [userId, walletKey] = await Promise.all([options.user?.getUserId(), getWalletKey(options)]);
+    return stringify([adapter.name, functionName, userId ?? ANONYMOUS_USER, walletKey, getChain(args) ?? null, normalizeArgs(args) ?? null]);
+}
+
+/**
+ * Creates a middleware that reuses results of read-only functions
+ * @param options - Middleware options
+ * @returns Middleware returning cached results marked with `metadata.cacheHit`
+ * @description Results are keyed by adapter name, function name, user id (`options.user.getUserId()`), connected wallet
+ * addresses (`evm`, `solana` and `ton`), chain (the `chainName`, `chain` or `chainId` argument) and the arguments with sorted keys,
+ * so wallet-dependent reads are never shared between wallets. Only successful results of functions not listed in
+ * `executableFunctions` are cached, executable functions always run.
+ * @example
+ * ```typescript
+ * const adapter = applyMiddleware(aaveAdapter, [
+ *   cacheResults({ ttlMs: 10_000, functionTtls: { getQuote: 3_000, getPositions: 0 } })
+ * ]);
+ *
+ * await adapter.functions.getApy(args, options); // { success: true, data: '4.2%' }
+ * await adapter.functions.getApy(args, options); // { success: true, data: '4.2%', metadata: { cacheHit: true, cachedAt: 1700000000000 } }
+ * ```
+ */
+export function cacheResults(options: CacheResultsOptions = {}): AdapterMiddleware {
+    const { ttlMs = 15_000, functionTtls = {}, store = new MemoryResultCacheStore() } = options;
+
+    return async (context, next) => {
+        const ttl = functionTtls[context.functionName] ?? ttlMs;
+        if (context.executable || ttl <= 0) return next();
+
+        const key = await getCacheKey(context, context.options);
+        const entry = await store.get(key);
+        if (entry) {
+            if (entry.expiresAt > Date.now()) {
+                return { ...entry.result, metadata: { ...entry.result.metadata, cacheHit: true, cachedAt: entry.cachedAt } };
+            }
+            await store.delete(key);
+        }
+
+        const result = await next();
+        if (result.success) {
+            const cachedAt = Date.now();
+            await store.set(key, { result, cachedAt, expiresAt: cachedAt + ttl });
+        }
+        return result;
+    };
+}
@@ -0,0 +1,28 @@
+import { FunctionReturn } from '../types';
+
+/**
+ * Cached result of a read-only function
+ * @interface ResultCacheEntry
+ */
+export interface ResultCacheEntry {
+    /** Result as returned by the function */
+    readonly result: FunctionReturn;
+    /** Time the result was produced, in milliseconds since epoch */
+    readonly cachedAt: number;
+    /** Time the entry expires, in milliseconds since epoch */
+    readonly expiresAt: number;
+}
+
+/**
+ * Storage of cached results, e.g. in memory or Redis
+ * @interface ResultCacheStore
+ * @description Stores may drop entries at any time. Expired entries returned by `get` are ignored and deleted by the cache.
+ */
+export interface ResultCacheStore {
+    /** Returns the entry stored under the key */
+    get(key: string): Promise<ResultCacheEntry | undefined>;
+    /** Stores the entry, it may be dropped once `entry.expiresAt` has passed */
+    set(key: string, entry: ResultCacheEntry): Promise<void>;
+    /** Removes the entry */
+    delete(key: string): Promise<void>;
+}
@@ -0,0 +1,215 @@
+import { vi } from 'vitest';
+import { Address } from 'viem';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { Address as TonAddress } from '@ton/ton';
+import { withConfirmation } from './withConfirmation';
+import { AdapterExport, FunctionErrorCode, FunctionOptions } from '../types';
+import { toResult } from '../transformers';
+import { Chain, WalletType } from '../../blockchain';
+
+describe('withConfirmation', () => {
+    const account: Address = '0x00000000000000000000000000000000000A11cE';
+    const target: Address = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+    const transactions = [
+        { target, data: '0x095ea7b30000000000000000000000000000000000000000000000000000000000000001' as const },
+        { target: account, data: '0x' as const, value: 1500000000000000000n },
+    ];
+
+    const adapter: AdapterExport = {
+        name: 'aave',
+        description: 'Aave lending',
+        chains: [Chain.BASE],
+        executableFunctions: ['supply', 'supplyCatching'],
+        tools: [],
+        functions: {
+            supply: async (_args, options) => {
+                const { data } = await options.evm!.sendTransactions({ chainId: 8453, account, transactions });
+                return toResult(`Sent ${data.length} transactions`);
+            },
+            supplyCatching: async (_args, options) => {
+                try {
+                    await options.evm!.sendTransactions({ chainId: 8453, account, transactions });
+                    return toResult('Sent');
+                } catch (_error) {
+                    return toResult('Something went wrong', true);
+                }
+            },
+            getPosition: async (_args, options) => {
+                await options.evm!.sendTransactions({ chainId: 8453, account, transactions: [] });
+                return toResult('Position: 0');
+            },
+        },
+    };
+
+    function createOptions(confirm?: FunctionOptions['confirm']) {
+        const sendTransactions = vi.fn(async ({ transactions }) => ({ data: transactions.map(() => ({ message: 'ok', hash: '0x01' as const })) }));
+        const options: FunctionOptions = {
+            evm: { getAddress: async () => account, getProvider: vi.fn(), sendTransactions },
+            confirm,
+        };
+        return { options, sendTransactions };
+    }
+
+    it('should send after confirmation with a readable summary', async () => {
+        const confirm = vi.fn(async () => true);
+        const { options, sendTransactions } = createOptions(confirm);
+
+        const result = await withConfirmation(adapter).functions.supply({}, options);
+
+        expect(result).toEqual({ success: true, data: 'Sent 2 transactions' });
+        expect(sendTransactions).toHaveBeenCalledTimes(1);
+        expect(confirm).toHaveBeenCalledWith({
+            functionName: 'supply',
+            action: 'send',
+            walletType: WalletType.EVM,
+            chainId: 8453,
+            transactionCount: 2,
+            summary: [
+                `aave/supply wants to send 2 transactions on base (chain 8453) from ${account}:`,
+                `1. Call ${target} (selector 0x095ea7b3, 36 bytes)`,
+                `2. Send to ${account} (value 1.5 native)`,
+            ].join('\n'),
+        });
+    });
+
+    it('should return USER_REJECTED when the user declines', async () => {
+        const { options, sendTransactions } = createOptions(async () => false);
+
+        const result = await withConfirmation(adapter).functions.supply({}, options);
+
+        expect(result).toEqual({ success: false, data: 'ERROR: User rejected the transactions of supply', errorCode: FunctionErrorCode.USER_REJECTED });
+        expect(sendTransactions).not.toHaveBeenCalled();
+    });
+
+    it('should keep the transactions sent before a rejection', async () => {
+        const confirm = vi
+            .fn()
+            .mockResolvedValueOnce(true)
+            .mockResolvedValueOnce(false);
+        const { options, sendTransactions } = createOptions(confirm);
+        const twoBatches = withConfirmation({
+            ...adapter,
+            functions: {
+                supply: async (_args, options) => {
+                    await options.evm!.sendTransactions({ chainId: 8453, account, transactions: [transactions[0]] });
+                    await options.evm!.sendTransactions({ chainId: 8453, account, transactions: [transactions[1]] });
+                    return toResult('Sent');
+                },
+            },
+        });
+
+        const result = await twoBatches.functions.supply({}, options);
+
+        expect(result).toEqual({
+            success: false,
+            data: 'ERROR: User rejected the transactions of supply, 1 transaction already sent: 0x01',
+            errorCode: FunctionErrorCode.USER_REJECTED,
+            transactions: [{ chain: Chain.BASE, hash: '0x01' }],
+        });
+        expect(sendTransactions).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ask before signing and deploying', async () => {
+        const signMessages = vi.fn(async () => ['0x02' as const]);
+        const signTypedDatas = vi.fn(async () => ['0x03' as const]);
+        const deployContracts = vi.fn(async () => [target]);
+        const confirm = vi.fn(async () => false);
+        const { options } = createOptions(confirm);
+        const signing = withConfirmation({
+            ...adapter,
+            executableFunctions: ['permit', 'sign', 'deploy'],
+            functions: {
+                permit: async (_args, options) => {
+                    await options.evm!.signTypedDatas!({
+                        account,
+                        datas: [{ domain: { name: 'USD Coin', chainId: 8453, verifyingContract: target }, types: { Permit: [] }, primaryType: 'Permit', message: {} }],
+                    });
+                    return toResult('Signed');
+                },
+                sign: async (_args, options) => toResult(`Signed ${await options.evm!.signMessages!({ account, messages: ['0x1234'] })}`),
+                deploy: async (_args, options) =>
+                    toResult(`Deployed ${await options.evm!.deployContracts!({ chainId: 8453, account, contracts: [{ abi: [], bytecode: '0x6080' }] })}`),
+            },
+        });
+        const signingOptions = { ...options, evm: { ...options.evm!, signMessages, signTypedDatas, deployContracts } };
+
+        for (const name of ['permit', 'sign', 'deploy']) {
+            expect((await signing.functions[name]({}, signingOptions)).errorCode).toBe(FunctionErrorCode.USER_REJECTED);
+        }
+        expect(signTypedDatas).not.toHaveBeenCalled();
+        expect(signMessages).not.toHaveBeenCalled();
+        expect(deployContracts).not.toHaveBeenCalled();
+        expect(confirm.mock.calls.map(([request]: any[]) => [request.action, request.chainId, request.summary])).toEqual([
+            ['sign', 8453, `aave/permit wants to sign 1 typed data message with ${account}:\n1. Sign Permit (domain USD Coin, contract ${target})`],
+            ['sign', undefined, `aave/sign wants to sign 1 message with ${account}:\n1. Sign 2 bytes message 0x1234`],
+            ['deploy', 8453, `aave/deploy wants to deploy 1 contract on base (chain 8453) from ${account}:\n1. Deploy 2 bytes of bytecode with 0 constructor arguments`],
+        ]);
+    });
+
+    it('should return USER_REJECTED when the adapter catches the rejection', async () => {
+        const { options } = createOptions(async () => false);
+        const result = await withConfirmation(adapter).functions.supplyCatching({}, options);
+        expect(result.errorCode).toBe(FunctionErrorCode.USER_REJECTED);
+    });
+
+    it('should skip the prompt for read-only functions', async () => {
+        const confirm = vi.fn(async () => false);
+        const wrapped = withConfirmation(adapter);
+
+        expect(wrapped.functions.getPosition).toBe(adapter.functions.getPosition);
+        expect((await wrapped.functions.getPosition({}, createOptions(confirm).options)).success).toBe(true);
+        expect(confirm).not.toHaveBeenCalled();
+    });
+
+    it('should refuse wallet operations without confirm', async () => {
+        const { options, sendTransactions } = createOptions();
+
+        expect(await withConfirmation(adapter).functions.supply({}, options)).toEqual({
+            success: false,
+            data: 'ERROR: Transactions of supply were refused, no confirm option to ask the user',
+            errorCode: FunctionErrorCode.USER_REJECTED,
+        });
+        expect(sendTransactions).not.toHaveBeenCalled();
+
+        expect((await withConfirmation(adapter, { allowWithoutConfirm: true }).functions.supply({}, options)).success).toBe(true);
+        expect(sendTransactions).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow errors that are not rejections', async () => {
+        const failing = withConfirmation({ ...adapter, functions: { supply: async () => Promise.reject(new Error('RPC down')) } });
+        await expect(failing.functions.supply({}, createOptions(async () => true).options)).rejects.toThrow('RPC down');
+    });
+
+    it('should summarize Solana and TON transactions', async () => {
+        const confirm = vi.fn(async () => true);
+        const program = new PublicKey(new Uint8Array(32).fill(2));
+        const solanaTransaction = ({
+            message: { staticAccountKeys: [PublicKey.default, program], compiledInstructions: [{ programIdIndex: 1 }, { programIdIndex: 1 }] },
+        } as unknown) as VersionedTransaction;
+        const tonAccount = TonAddress.parse(`0:${'01'.repeat(32)}`);
+        const tonRecipient = TonAddress.parse(`0:${'02'.repeat(32)}`);
+        const options: FunctionOptions = {
+            solana: { getConnection: vi.fn(), getPublicKey: async () => PublicKey.default, sendTransactions: async () => ({ data: [] }) },
+            ton: { getAddress: async () => tonAccount, getClient: vi.fn(), sendTransactions: async () => ({ data: [] }) },
+            confirm,
+        };
+        const multichain = withConfirmation({
+            ...adapter,
+            executableFunctions: ['bridge'],
+            functions: {
+                bridge: async (_args, options) => {
+                    await options.solana!.sendTransactions({ account: PublicKey.default, transactions: [solanaTransaction] });
+                    await options.ton!.sendTransactions({ account: tonAccount, transactions: [{ to: tonRecipient, value: 2500000000n }] });
+                    return toResult('Bridged');
+                },
+            },
+        });
+
+        await multichain.functions.bridge({}, options);
+
+        expect(confirm.mock.calls.map(([request]: any[]) => request.summary)).toEqual([
+            `aave/bridge wants to send 1 transaction on Solana from ${PublicKey.default.toBase58()}:\n1. 2 instructions calling ${program.toBase58()}`,
+            `aave/bridge wants to send 1 transaction on TON from ${tonAccount.toString()}:\n1. Send 2.5 TON to ${tonRecipient.toString()}`,
+        ]);
+    });
+});
@@ -0,0 +1,283 @@
+import { formatEther } from 'viem';
+import { fromNano } from '@ton/core';
+import { AdapterExport, ConfirmationRequest, FunctionErrorCode, FunctionOptions, FunctionReturn, TransactionReference } from '../types';
+import { Chain, EVM, Solana, TON, WalletType } from '../../blockchain';
+import { toResult } from '../transformers';
+import { callWithRefusal } from '../functions/callWithRefusal';
+
+class UserRejectedError extends Error {
+    constructor() {
+        super('User rejected the transactions');
+        this.name = 'UserRejectedError';
+    }
+}
+
+function pluralize(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function describeEvmChain(chainId: number): string {
+    try {
+        return `${EVM.utils.getChainName(chainId)} (chain ${chainId})`;
+    } catch (_error) {
+        return `chain ${chainId}`;
+    }
+}
+
+function describeEvmTransaction({ target, data, value }: EVM.types.TransactionParams): string {
+    const parts = [data === '0x' ? `Send to ${target}` : `Call ${target}`];
+    if (value) parts.push(`value ${formatEther(value)} native`);
+    if (data !== '0x') parts.push(`selector ${data.slice(0, 10)}, ${(data.length - 2) / 2} bytes`);
+    return parts.length > 1 ? `${parts[0]} (${parts.slice(1).join(', ')})` : parts[0];
+}
+
+function describeSolanaTransaction(transaction: Solana.types.SendTransactionProps['transactions'][number]): string {
+    const { staticAccountKeys = [], compiledInstructions = [] } = transaction.message ?? {};
+    const programs = Array.from(new Set(compiledInstructions.map(({ programIdIndex }) => staticAccountKeys[programIdIndex]?.toBase58() ?? 'unknown program')));
+    return `${pluralize(compiledInstructions.length, 'instruction')}${programs.length > 0 ? ` calling ${programs.join(', ')}` : ''}`;
+}
+
+function describeTonTransaction({ to, value, body }: TON.types.SendTransactionProps['transactions'][number]): string {
+    return `Send ${fromNano(value)} TON to ${to.toString()}${body ? ' with payload' : ''}`;
+}
+
+function describeTypedData({ primaryType, domain }: EVM.types.SignTypedDatasProps['datas'][number]): string {
+    const parts = [domain?.name && `domain ${domain.name}`, domain?.verifyingContract && `contract ${domain.verifyingContract}`].filter(Boolean);
+    return `Sign ${String(primaryType)}${parts.length > 0 ? ` (${parts.join(', ')})` : ''}`;
+}
+
+function describeSolanaSignTransaction({ transaction }: Solana.types.SignTransaction): string {
+    if ('version' in transaction) return describeSolanaTransaction(transaction);
+    const programs = Array.from(new Set(transaction.instructions.map(({ programId }) => programId.toBase58())));
+    return `${pluralize(transaction.instructions.length, 'instruction')}${programs.length > 0 ? ` calling ${programs.join(', ')}` : ''}`;
+}
+
+function toSummary(title: string, lines: string[]): string {
+    return [`${title}:`, ...lines.map((line, index) => `${index + 1}. ${line}`)].join('\n');
+}
+
+function getEvmChain(chainId: number): Chain | undefined {
+    try {
+        return EVM.utils.getChainName(chainId) as Chain;
+    } catch (_error) {
+        return undefined;
+    }
+}
+
+/**
+ * Options of the confirmation wrapper
+ * @interface WithConfirmationOptions
+ */
+export interface WithConfirmationOptions {
+    /** Run executable functions without asking when `options.confirm` is missing, instead of refusing their wallet operations (default: false) */
+    readonly allowWithoutConfirm?: boolean;
+}
+
+/**
+ * What happened to the wallet during one gated call
+ */
+interface ConfirmationState {
+    /** Transactions sent before the rejection, the chain is unknown for EVM chain ids missing from `ChainIds` */
+    readonly sent: (Omit<TransactionReference, 'chain'> & { chain?: Chain })[];
+    /** Contracts deployed before the rejection */
+    readonly deployed: string[];
+}
+
+function withConfirmedTransactions(
+    options: FunctionOptions,
+    adapter: AdapterExport,
+    functionName: string,
+    state: ConfirmationState,
+    onRejected: (state: ConfirmationState) => void,
+    allowWithoutConfirm: boolean,
+): FunctionOptions {
+    const { confirm, evm, solana, ton } = options;
+    if (!confirm && allowWithoutConfirm) return options;
+
+    const title = (action: string, count: number, word: string, location: string) => `${adapter.name}/${functionName} wants to ${action} ${pluralize(count, word)} ${location}`;
+    const request = async (props: Omit<ConfirmationRequest, 'functionName'>) => {
+        if (!confirm || !(await confirm({ functionName, ...props }))) {
+            onRejected(state);
+            throw new UserRejectedError();
+        }
+    };
+    const recordSent = (chain: Chain | undefined, { data }: { data: { hash: string }[] }) => {
+        state.sent.push(...data.map(({ hash }) => ({ chain, hash })));
+    };
+
+    return {
+        ...options,
+        evm: evm && {
+            ...evm,
+            sendTransactions: async props => {
+                const { chainId, account, transactions } = props;
+                await request({
+                    action: 'send',
+                    walletType: WalletType.EVM,
+                    chainId,
+                    transactionCount: transactions.length,
+                    summary: toSummary(
+                        title('send', transactions.length, 'transaction', `on ${describeEvmChain(chainId)} from ${account}`),
+                        transactions.map(describeEvmTransaction),
+                    ),
+                });
+                const result = await evm.sendTransactions(props);
+                recordSent(getEvmChain(chainId), result);
+                return result;
+            },
+            deployContracts:
+                evm.deployContracts &&
+                (async props => {
+                    const { chainId, account, contracts } = props;
+                    await request({
+                        action: 'deploy',
+                        walletType: WalletType.EVM,
+                        chainId,
+                        transactionCount: contracts.length,
+                        summary: toSummary(
+                            title('deploy', contracts.length, 'contract', `on ${describeEvmChain(chainId)} from ${account}`),
+                            contracts.map(
+                                ({ bytecode, args = [] }) => `Deploy ${(bytecode.length - 2) / 2} bytes of bytecode with ${pluralize(args.length, 'constructor argument')}`,
+                            ),
+                        ),
+                    });
+                    const addresses = await evm.deployContracts!(props);
+                    state.deployed.push(...addresses);
+                    return addresses;
+                }),
+            signMessages:
+                evm.signMessages &&
+                (async props => {
+                    const { account, messages } = props;
+                    await request({
+                        action: 'sign',
+                        walletType: WalletType.EVM,
+                        transactionCount: messages.length,
+                        summary: toSummary(
+                            title('sign', messages.length, 'message', `with ${account}`),
+                            messages.map(message => `Sign ${(message.length - 2) / 2} bytes message ${message.slice(0, 18)}${message.length > 18 ? '...' : ''}`),
+                        ),
+                    });
+                    return evm.signMessages!(props);
+                }),
+            signTypedDatas:
+                evm.signTypedDatas &&
+                (async props => {
+                    const { account, datas } = props;
+                    const chainIds = Array.from(new Set(datas.map(({ domain }) => domain?.chainId).filter(chainId => chainId !== undefined)));
+                    await request({
+                        action: 'sign',
+                        walletType: WalletType.EVM,
+                        ...(chainIds.length === 1 && { chainId: Number(chainIds[0]) }),
+                        transactionCount: datas.length,
+                        summary: toSummary(title('sign', datas.length, 'typed data message', `with ${account}`), datas.map(describeTypedData)),
+                    });
+                    return evm.signTypedDatas!(props);
+                }),
+        },
+        solana: solana && {
+            ...solana,
+            sendTransactions: async props => {
+                const { account, transactions } = props;
+                await request({
+                    action: 'send',
+                    walletType: WalletType.SOLANA,
+                    transactionCount: transactions.length,
+                    summary: toSummary(title('send', transactions.length, 'transaction', `on Solana from ${account.toBase58()}`), transactions.map(describeSolanaTransaction)),
+                });
+                const result = await solana.sendTransactions(props);
+                recordSent(Chain.SOLANA, result);
+                return result;
+            },
+            signTransactions:
+                solana.signTransactions &&
+                (async props => {
+                    const { account, transactions } = props;
+                    await request({
+                        action: 'sign',
+                        walletType: WalletType.SOLANA,
+                        transactionCount: transactions.length,
+                        summary: toSummary(
+                            title('sign', transactions.length, 'transaction', `on Solana with ${account.toBase58()}`),
+                            transactions.map(describeSolanaSignTransaction),
+                        ),
+                    });
+                    return solana.signTransactions!(props);
+                }),
+        },
+        ton: ton && {
+            ...ton,
+            sendTransactions: async props => {
+                const { account, transactions } = props;
+                await request({
+                    action: 'send',
+                    walletType: WalletType.TON,
+                    transactionCount: transactions.length,
+                    summary: toSummary(title('send', transactions.length, 'transaction', `on TON from ${account.toString()}`), transactions.map(describeTonTransaction)),
+                });
+                const result = await ton.sendTransactions(props);
+                recordSent(Chain.TON, result);
+                return result;
+            },
+        },
+    };
+}
+
+function toRejectedResult(reason: string, { sent, deployed }: ConfirmationState): FunctionReturn {
+    const done = [
+        sent.length > 0 && `${pluralize(sent.length, 'transaction')} already sent: ${sent.map(({ hash }) => hash).join(', ')}`,
+        deployed.length > 0 && `${pluralize(deployed.length, 'contract')} already deployed: ${deployed.join(', ')}`,
+    ].filter(Boolean);
+    const message = `${reason}${done.length > 0 ? `, ${done.join('; ')}` : ''}`;
+
+    const transactions = sent.filter((reference): reference is TransactionReference => reference.chain !== undefined);
+
+    return toResult(message, { errorCode: FunctionErrorCode.USER_REJECTED, ...(transactions.length > 0 && { transactions }) });
+}
+
+/**
+ * Wraps an adapter so that its executable functions ask the user before sending transactions
+ * @param adapter - Adapter to wrap
+ * @param wrapperOptions - Wrapper options
+ * @returns Adapter with gated executable functions
+ * @description Before each wallet operation of a function listed in `executableFunctions` (`sendTransactions` on every chain
+ * family, EVM `deployContracts`, `signMessages` and `signTypedDatas`, Solana `signTransactions`), `options.confirm` is called
+ * with a human-readable summary. When it resolves to false, the operation is not performed and the function returns
+ * a `USER_REJECTED` result, even if the adapter catches the rejection itself. Transactions sent before the rejection are kept
+ * in `transactions` and listed in `data` with deployed contracts. Calls without `options.confirm` cannot ask the user, their
+ * wallet operations are refused the same way unless `allowWithoutConfirm` is set. Read-only functions are not affected.
+ * @example
+ * ```typescript
+ * const adapter = withConfirmation(aaveAdapter);
+ *
+ * const result = await adapter.functions.supply(args, {
+ *   ...options,
+ *   confirm: async ({ summary }) => askUser(summary)
+ * });
+ *
+ * if (result.errorCode === FunctionErrorCode.USER_REJECTED) {
+ *   // Only result.transactions were sent, if any
+ * }
+ * ```
+ */
+export function withConfirmation(adapter: AdapterExport, wrapperOptions: WithConfirmationOptions = {}): AdapterExport {
+    const { allowWithoutConfirm = false } = wrapperOptions;
+
+    const functions = Object.fromEntries(
+        Object.entries(adapter.functions).map(([name, fn]) => {
+            if (!adapter.executableFunctions.includes(name)) return [name, fn];
+
+            const gated = async (args: any, options: FunctionOptions): Promise<FunctionReturn> => {
+                const state: ConfirmationState = { sent: [], deployed: [] };
+                const reason = options.confirm ? `User rejected the transactions of ${name}` : `Transactions of ${name} were refused, no confirm option to ask the user`;
+                return callWithRefusal<ConfirmationState>(
+                    refuse => fn(args, withConfirmedTransactions(options, adapter, name, state, refuse, allowWithoutConfirm)),
+                    rejected => toRejectedResult(reason, rejected),
+                );
+            };
+            return [name, gated];
+        }),
+    );
+
+    return { ...adapter, functions };
+}
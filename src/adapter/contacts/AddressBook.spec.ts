@@ -0,0 +1,127 @@
+import { Address as TonAddress } from '@ton/ton';
+import { AddressBook, AddressBookError } from './AddressBook';
+import { MemoryAddressBookStore } from './MemoryAddressBookStore';
+import { FunctionErrorCode } from '../types';
+import { Chain, EVM, WalletType } from '../../blockchain';
+
+describe('AddressBook', () => {
+    const evmAddress = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+    const solanaAddress = '2pvUb7A4xeQwUd9k1CdrH75CUjgHStXvT9qXztUXCZ9n';
+    const tonAddress = 'EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs';
+
+    const bookFor = (userId: string, store = new MemoryAddressBookStore()) => new AddressBook({ getUserId: async () => userId, addressBook: store });
+
+    const expectError = async (promise: Promise<unknown>, message: string, errorCode = FunctionErrorCode.INVALID_ARGS) => {
+        const error = await promise.catch(error => error);
+        expect(error).toBeInstanceOf(AddressBookError);
+        expect(error).toMatchObject({ message, errorCode });
+    };
+
+    describe('save', () => {
+        it('should save normalized addresses', async () => {
+            const book = bookFor('user-1');
+            const contact = await book.save(' Alice ', { [WalletType.EVM]: evmAddress.toLowerCase(), [WalletType.TON]: tonAddress }, 'Savings');
+
+            expect(contact).toEqual({
+                name: 'Alice',
+                addresses: { [WalletType.EVM]: evmAddress, [WalletType.TON]: TonAddress.parse(tonAddress).toRawString() },
+                note: 'Savings',
+                updatedAt: expect.any(String),
+            });
+            expect(await book.list()).toEqual([contact]);
+        });
+
+        it('should merge addresses into the contact with the same name', async () => {
+            const book = bookFor('user-1');
+            await book.save('Alice', { [WalletType.EVM]: evmAddress }, 'Savings');
+            await book.save('ALICE', { [WalletType.SOLANA]: solanaAddress });
+
+            expect(await book.list()).toEqual([
+                { name: 'Alice', addresses: { [WalletType.EVM]: evmAddress, [WalletType.SOLANA]: solanaAddress }, note: 'Savings', updatedAt: expect.any(String) },
+            ]);
+        });
+
+        it('should refuse invalid addresses and names', async () => {
+            const book = bookFor('user-1');
+
+            await expectError(book.save('Alice', { [WalletType.EVM]: solanaAddress }), `${solanaAddress} is not a valid EVM address`);
+            await expectError(book.save('Alice', { [WalletType.EVM]: `${evmAddress.slice(0, -1)}6` }), `${evmAddress.slice(0, -1)}6 is not a valid EVM address`);
+            await expectError(book.save('Alice', { [WalletType.EVM]: EVM.constants.NATIVE_ADDRESS }), `${EVM.constants.NATIVE_ADDRESS} is not a valid EVM address`);
+            await expectError(book.save('Alice', {}), 'Contact Alice needs at least one address');
+            await expectError(book.save('  ', { [WalletType.EVM]: evmAddress }), 'Contact name is empty');
+            await expectError(book.save(evmAddress, { [WalletType.EVM]: evmAddress }), `Contact name cannot be an address: ${evmAddress}`);
+            expect(await book.list()).toEqual([]);
+        });
+
+        it('should keep address books of users apart', async () => {
+            const store = new MemoryAddressBookStore();
+            await bookFor('user-1', store).save('Alice', { [WalletType.EVM]: evmAddress });
+
+            expect(await bookFor('user-2', store).list()).toEqual([]);
+            expect(await store.get('user-1')).toHaveLength(1);
+        });
+
+        it('should require a store', async () => {
+            await expectError(new AddressBook().save('Alice', { [WalletType.EVM]: evmAddress }), 'Address book is not available', FunctionErrorCode.UNKNOWN);
+        });
+    });
+
+    describe('remove', () => {
+        it('should remove contacts by name', async () => {
+            const book = bookFor('user-1');
+            await book.save('Alice', { [WalletType.EVM]: evmAddress });
+
+            expect(await book.remove('alice')).toBe(true);
+            expect(await book.remove('alice')).toBe(false);
+            expect(await book.list()).toEqual([]);
+        });
+    });
+
+    describe('resolveRecipient', () => {
+        it('should resolve contacts on the chain family', async () => {
+            const book = bookFor('user-1');
+            const alice = await book.save('Alice', { [WalletType.EVM]: evmAddress, [WalletType.SOLANA]: solanaAddress });
+
+            expect(await book.resolveRecipient('alice', Chain.ARBITRUM)).toEqual({ address: evmAddress, walletType: WalletType.EVM, contact: alice });
+            expect(await book.resolveRecipient('Alice', Chain.SOLANA)).toEqual({ address: solanaAddress, walletType: WalletType.SOLANA, contact: alice });
+        });
+
+        it('should resolve plain addresses with their contact', async () => {
+            const book = bookFor('user-1');
+            const alice = await book.save('Alice', { [WalletType.EVM]: evmAddress });
+
+            expect(await book.resolveRecipient(evmAddress.toLowerCase(), Chain.BASE)).toEqual({ address: evmAddress, walletType: WalletType.EVM, contact: alice });
+            expect(await new AddressBook().resolveRecipient(tonAddress, Chain.TON)).toEqual({ address: TonAddress.parse(tonAddress).toRawString(), walletType: WalletType.TON });
+        });
+
+        it('should refuse addresses of other chain families', async () => {
+            await expectError(
+                bookFor('user-1').resolveRecipient(solanaAddress, Chain.ARBITRUM),
+                `Address ${solanaAddress} belongs to Solana wallets and cannot receive on arbitrum`,
+            );
+        });
+
+        it('should refuse the native token placeholder', async () => {
+            await expectError(
+                bookFor('user-1').resolveRecipient(EVM.constants.NATIVE_ADDRESS, Chain.ETHEREUM),
+                `${EVM.constants.NATIVE_ADDRESS} is the native token placeholder, not a recipient`,
+            );
+        });
+
+        it('should refuse unknown names and contacts without an address for the chain', async () => {
+            const book = bookFor('user-1');
+            await book.save('Alice', { [WalletType.SOLANA]: solanaAddress });
+
+            await expectError(book.resolveRecipient('bob', Chain.ARBITRUM), 'bob is not a saved contact nor a valid EVM address');
+            await expectError(book.resolveRecipient('ali', Chain.ARBITRUM), 'ali is not a saved contact nor a valid EVM address');
+            await expectError(book.resolveRecipient('alice', Chain.ARBITRUM), 'Contact Alice has no EVM address for arbitrum, saved: Solana');
+        });
+
+        it('should check saved addresses again', async () => {
+            const store = new MemoryAddressBookStore();
+            await store.set('user-1', [{ name: 'Mallory', addresses: { [WalletType.EVM]: 'not-an-address' }, updatedAt: '2025-01-15T10:30:00.000Z' }]);
+
+            await expectError(bookFor('user-1', store).resolveRecipient('mallory', Chain.BASE), 'Saved EVM address of contact Mallory is not valid: not-an-address');
+        });
+    });
+});
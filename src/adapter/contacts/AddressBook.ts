@@ -0,0 +1,192 @@
+import { AddressBookContact, AddressBookStore, FunctionErrorCode, UserFunctionOptions } from '../types';
+import { Chain, getWalletType, WalletType } from '../../blockchain';
+import { isAddress } from '../../utils';
+import { toRecipientAddress, WALLET_TYPE_LABELS } from './toRecipientAddress';
+
+const MAX_NAME_LENGTH = 64;
+
+/**
+ * Error thrown when a contact cannot be saved or a recipient cannot be resolved
+ */
+export class AddressBookError extends Error {
+    /** INVALID_ARGS, or UNKNOWN when the host has no address book store */
+    public readonly errorCode: FunctionErrorCode;
+
+    constructor(message: string, errorCode: FunctionErrorCode = FunctionErrorCode.INVALID_ARGS) {
+        super(message);
+        this.name = 'AddressBookError';
+        this.errorCode = errorCode;
+    }
+}
+
+/**
+ * Recipient address resolved from an address or a contact name
+ * @interface RecipientResolution
+ */
+export interface RecipientResolution {
+    /** Normalized address to send to */
+    readonly address: string;
+    readonly walletType: WalletType;
+    /** Contact the address was resolved from, or the contact saved with this address */
+    readonly contact?: AddressBookContact;
+}
+
+function toNameKey(name: string): string {
+    return name
+        .normalize('NFKC')
+        .trim()
+        .toLowerCase();
+}
+
+function isWalletType(value: string): value is WalletType {
+    return (Object.values(WalletType) as string[]).includes(value);
+}
+
+/**
+ * Named contacts of a user with addresses on several chain families
+ * @description Contacts are persisted through `user.addressBook` under `user.getUserId()`. Addresses are validated with
+ * `isAddress` and stored in the form returned by `normalizeAddress`. Names are unique regardless of case, are matched exactly
+ * (never partially) and cannot be addresses themselves, so a contact can never shadow an address.
+ * @example
+ * ```typescript
+ * const book = new AddressBook(options.user);
+ * await book.save('Alice', { [WalletType.EVM]: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045' });
+ *
+ * // "send 10 USDC to alice on arbitrum"
+ * try {
+ *   const { address, contact } = await book.resolveRecipient(args.recipient, Chain.ARBITRUM);
+ *   await options.notify(`Sending 10 USDC to ${contact ? `${contact.name} (${address})` : address}`);
+ * } catch (error) {
+ *   if (error instanceof AddressBookError) return toResult(error.message, { errorCode: error.errorCode });
+ *   throw error;
+ * }
+ * ```
+ */
+export class AddressBook {
+    /**
+     * @param user - User options with the id and the address book store, only plain addresses are resolved when the store is missing
+     */
+    constructor(private readonly user?: Pick<UserFunctionOptions, 'getUserId' | 'addressBook'>) {}
+
+    /**
+     * Returns all contacts of the user
+     */
+    async list(): Promise<AddressBookContact[]> {
+        const { addressBook, getUserId } = this.user ?? {};
+        if (!addressBook || !getUserId) return [];
+        return (await addressBook.get(await getUserId())) ?? [];
+    }
+
+    /**
+     * Looks up a contact by name, regardless of case
+     * @param name - Contact name
+     */
+    async find(name: string): Promise<AddressBookContact | undefined> {
+        const key = toNameKey(name);
+        return (await this.list()).find(contact => toNameKey(contact.name) === key);
+    }
+
+    /**
+     * Saves a contact, or adds addresses to the contact with the same name
+     * @param name - Contact name
+     * @param addresses - Addresses by wallet type, they replace the saved addresses of the same wallet types
+     * @param note - Free-form note, the saved note is kept when omitted
+     * @returns Saved contact with normalized addresses
+     * @throws {AddressBookError} When the name or an address is invalid, or the host has no address book store
+     */
+    async save(name: string, addresses: Partial<Record<WalletType, string>>, note?: string): Promise<AddressBookContact> {
+        const { store, userId } = await this.getStore();
+        const trimmed = name.normalize('NFKC').trim();
+
+        if (!trimmed) throw new AddressBookError('Contact name is empty');
+        if (trimmed.length > MAX_NAME_LENGTH) throw new AddressBookError(`Contact name is longer than ${MAX_NAME_LENGTH} characters`);
+        if (isAddress(trimmed).valid) throw new AddressBookError(`Contact name cannot be an address: ${trimmed}`);
+
+        const normalized: Partial<Record<WalletType, string>> = {};
+        for (const [walletType, address] of Object.entries(addresses)) {
+            if (address === undefined) continue;
+            if (!isWalletType(walletType)) throw new AddressBookError(`Unknown wallet type ${walletType}`);
+
+            const value = toRecipientAddress(address, walletType);
+            if (!value) throw new AddressBookError(`${address} is not a valid ${WALLET_TYPE_LABELS[walletType]} address`);
+            normalized[walletType] = value;
+        }
+        if (Object.keys(normalized).length === 0) throw new AddressBookError(`Contact ${trimmed} needs at least one address`);
+
+        const contacts = (await store.get(userId)) ?? [];
+        const index = contacts.findIndex(contact => toNameKey(contact.name) === toNameKey(trimmed));
+        const existing = index === -1 ? undefined : contacts[index];
+        const savedNote = note ?? existing?.note;
+
+        const contact: AddressBookContact = {
+            name: existing?.name ?? trimmed,
+            addresses: { ...existing?.addresses, ...normalized },
+            ...(savedNote !== undefined && { note: savedNote }),
+            updatedAt: new Date().toISOString(),
+        };
+        await store.set(userId, index === -1 ? [...contacts, contact] : contacts.map((saved, i) => (i === index ? contact : saved)));
+        return contact;
+    }
+
+    /**
+     * Removes a contact
+     * @param name - Contact name, regardless of case
+     * @returns False when there was no such contact
+     * @throws {AddressBookError} When the host has no address book store
+     */
+    async remove(name: string): Promise<boolean> {
+        const { store, userId } = await this.getStore();
+        const contacts = (await store.get(userId)) ?? [];
+        const remaining = contacts.filter(contact => toNameKey(contact.name) !== toNameKey(name));
+
+        if (remaining.length === contacts.length) return false;
+        await store.set(userId, remaining);
+        return true;
+    }
+
+    /**
+     * Resolves the recipient of a transfer on a chain
+     * @param recipient - Address or contact name, as given by the user
+     * @param chain - Chain the transfer is sent on
+     * @returns Normalized address of the chain's wallet type, with the matching contact
+     * @throws {AddressBookError} When the recipient is an address of another chain family, an unknown name, or a contact without
+     * an address for the chain
+     */
+    async resolveRecipient(recipient: string, chain: Chain): Promise<RecipientResolution> {
+        const value = recipient.trim();
+        const walletType = getWalletType(chain);
+        const label = WALLET_TYPE_LABELS[walletType];
+
+        if (!value) throw new AddressBookError('Recipient is empty');
+
+        const { valid, type } = isAddress(value);
+        if (valid) {
+            if (type !== walletType) throw new AddressBookError(`Address ${value} belongs to ${WALLET_TYPE_LABELS[type!]} wallets and cannot receive on ${chain}`);
+
+            const address = toRecipientAddress(value, walletType);
+            if (!address) throw new AddressBookError(`${value} is the native token placeholder, not a recipient`);
+
+            const contact = (await this.list()).find(({ addresses }) => addresses[walletType] === address);
+            return { address, walletType, ...(contact && { contact }) };
+        }
+
+        const contact = await this.find(value);
+        if (!contact) throw new AddressBookError(`${value} is not a saved contact nor a valid ${label} address`);
+
+        const saved = contact.addresses[walletType];
+        if (saved === undefined) {
+            const available = Object.keys(contact.addresses).map(type => WALLET_TYPE_LABELS[type as WalletType] ?? type);
+            throw new AddressBookError(`Contact ${contact.name} has no ${label} address for ${chain}, saved: ${available.join(', ') || 'none'}`);
+        }
+
+        // Stores are external, addresses are checked again before anything is sent to them
+        const address = toRecipientAddress(saved, walletType);
+        if (!address) throw new AddressBookError(`Saved ${label} address of contact ${contact.name} is not valid: ${saved}`);
+        return { address, walletType, contact };
+    }
+
+    private async getStore(): Promise<{ store: AddressBookStore; userId: string }> {
+        if (!this.user?.addressBook) throw new AddressBookError('Address book is not available', FunctionErrorCode.UNKNOWN);
+        return { store: this.user.addressBook, userId: await this.user.getUserId() };
+    }
+}
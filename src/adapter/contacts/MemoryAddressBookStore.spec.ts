@@ -0,0 +1,29 @@
+import { MemoryAddressBookStore } from './MemoryAddressBookStore';
+import { AddressBookContact } from '../types';
+import { WalletType } from '../../blockchain';
+
+describe('MemoryAddressBookStore', () => {
+    const alice: AddressBookContact = { name: 'Alice', addresses: { [WalletType.EVM]: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045' }, updatedAt: '2025-01-15T10:30:00.000Z' };
+
+    it('should keep contacts per user', async () => {
+        const store = new MemoryAddressBookStore();
+
+        await store.set('user-1', [alice]);
+        expect(await store.get('user-1')).toEqual([alice]);
+        expect(await store.get('user-2')).toBeUndefined();
+
+        store.clear();
+        expect(await store.get('user-1')).toBeUndefined();
+    });
+
+    it('should not share arrays with callers', async () => {
+        const store = new MemoryAddressBookStore();
+        const contacts = [alice];
+
+        await store.set('user-1', contacts);
+        contacts.pop();
+        (await store.get('user-1'))!.pop();
+
+        expect(await store.get('user-1')).toEqual([alice]);
+    });
+});
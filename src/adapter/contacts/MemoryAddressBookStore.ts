@@ -0,0 +1,27 @@
+import { AddressBookContact, AddressBookStore } from '../types';
+
+/**
+ * In-memory address book store, contacts are lost when the process exits
+ * @example
+ * ```typescript
+ * const addressBook = new MemoryAddressBookStore();
+ * const options: FunctionOptions = { ...hostOptions, user: { ...hostOptions.user, addressBook } };
+ * ```
+ */
+export class MemoryAddressBookStore implements AddressBookStore {
+    private readonly contacts: Map<string, AddressBookContact[]> = new Map();
+
+    async get(userId: string): Promise<AddressBookContact[] | undefined> {
+        const contacts = this.contacts.get(userId);
+        return contacts && [...contacts];
+    }
+
+    async set(userId: string, contacts: AddressBookContact[]): Promise<void> {
+        this.contacts.set(userId, [...contacts]);
+    }
+
+    /** Removes the contacts of all users */
+    clear(): void {
+        this.contacts.clear();
+    }
+}
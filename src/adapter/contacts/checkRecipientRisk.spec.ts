@@ -0,0 +1,96 @@
+import { Address as TonAddress } from '@ton/ton';
+import { checkRecipientRisk, formatRecipientRisk } from './checkRecipientRisk';
+import { AddressBook, AddressBookError } from './AddressBook';
+import { MemoryAddressBookStore } from './MemoryAddressBookStore';
+import { Chain, EVM, WalletType } from '../../blockchain';
+
+describe('checkRecipientRisk', () => {
+    const evmAddress = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+    const evmLookAlike = '0xd8D0000000000000000000000000000000000045';
+    const solanaAddress = '2pvUb7A4xeQwUd9k1CdrH75CUjgHStXvT9qXztUXCZ9n';
+    const solanaLookAlike = '2pvUb7A4xeQwUd9k1CdrzzzzUjgHStXvT9qXztUXCZ9n';
+    const tonAddress = 'EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs';
+    const tonLookAlike = 'EQCxE6mUtQJKFnGfAAAAyOt1lZbDiiX1kCixRv7Nw2Id_sDs';
+    const raw = (address: string) => TonAddress.parse(address).toRawString();
+
+    let addressBook: AddressBook;
+
+    beforeEach(async () => {
+        addressBook = new AddressBook({ getUserId: async () => 'user-1', addressBook: new MemoryAddressBookStore() });
+        await addressBook.save('Alice', { [WalletType.EVM]: evmAddress, [WalletType.SOLANA]: solanaAddress, [WalletType.TON]: tonAddress });
+    });
+
+    it('should rate saved and previously used addresses low', async () => {
+        const check = await checkRecipientRisk(evmAddress.toLowerCase(), Chain.BASE, { addressBook });
+        expect(check).toMatchObject({ address: evmAddress, chain: Chain.BASE, level: 'low', warnings: [], known: { source: 'contact', contact: { name: 'Alice' } } });
+
+        const used = '0x742d35CC6634C0532925a3b8d4C2CA1C1DFF0be8';
+        expect(await checkRecipientRisk(used, Chain.BASE, { history: [used.toLowerCase()] })).toMatchObject({ level: 'low', known: { address: used, source: 'history' } });
+    });
+
+    it('should rate new addresses medium', async () => {
+        const check = await checkRecipientRisk('0x742d35CC6634C0532925a3b8d4C2CA1C1DFF0be8', Chain.BASE, { addressBook });
+        expect(check).toEqual({
+            address: '0x742d35CC6634C0532925a3b8d4C2CA1C1DFF0be8',
+            chain: Chain.BASE,
+            level: 'medium',
+            warnings: [{ reason: 'new-address', message: '0x742d35CC6634C0532925a3b8d4C2CA1C1DFF0be8 is not in the address book and was never used before' }],
+        });
+    });
+
+    it('should flag look-alikes of saved addresses on every chain family', async () => {
+        for (const { recipient, chain } of [
+            { recipient: evmLookAlike, chain: Chain.ARBITRUM },
+            { recipient: solanaLookAlike, chain: Chain.SOLANA },
+            { recipient: tonLookAlike, chain: Chain.TON },
+        ]) {
+            const check = await checkRecipientRisk(recipient, chain, { addressBook });
+            expect(check.level).toBe('high');
+            expect(check.warnings).toEqual([expect.objectContaining({ reason: 'look-alike', similarTo: expect.objectContaining({ source: 'contact' }) })]);
+        }
+    });
+
+    it('should flag look-alikes even when they are in the history', async () => {
+        const check = await checkRecipientRisk(evmLookAlike, Chain.ETHEREUM, { history: [evmAddress, evmLookAlike] });
+
+        expect(check).toMatchObject({ level: 'high', known: { address: evmLookAlike, source: 'history' } });
+        expect(check.warnings).toEqual([
+            {
+                reason: 'look-alike',
+                message: `${evmLookAlike} looks like ${evmAddress} from the transaction history: same start and end, different middle. This may be address poisoning`,
+                similarTo: { address: evmAddress, source: 'history' },
+            },
+        ]);
+    });
+
+    it('should compare TON addresses in any notation', async () => {
+        expect((await checkRecipientRisk(raw(tonAddress), Chain.TON, { addressBook })).level).toBe('low');
+        expect((await checkRecipientRisk(raw(tonLookAlike), Chain.TON, { addressBook })).level).toBe('high');
+    });
+
+    it('should flag burn addresses', async () => {
+        for (const { recipient, chain } of [
+            { recipient: EVM.constants.DEAD_ADDRESS, chain: Chain.BASE },
+            { recipient: '0x0000000000000000000000000000000000000000', chain: Chain.BASE },
+            { recipient: '1nc1nerator11111111111111111111111111111111', chain: Chain.SOLANA },
+            { recipient: `0:${'0'.repeat(64)}`, chain: Chain.TON },
+            { recipient: EVM.constants.NATIVE_ADDRESS, chain: Chain.BASE },
+        ]) {
+            const check = await checkRecipientRisk(recipient, chain, { history: [recipient] });
+            expect(check.level).toBe('high');
+            expect(check.warnings.map(({ reason }) => reason)).toEqual(['burn-address']);
+        }
+    });
+
+    it('should refuse addresses of other chain families', async () => {
+        await expect(checkRecipientRisk(solanaAddress, Chain.BASE)).rejects.toThrow(AddressBookError);
+        await expect(checkRecipientRisk(evmAddress, Chain.SOLANA)).rejects.toThrow(`${evmAddress} is not a valid address on solana`);
+    });
+});
+
+describe('formatRecipientRisk', () => {
+    it('should list the warnings under the risk level', async () => {
+        const check = await checkRecipientRisk('0x742d35CC6634C0532925a3b8d4C2CA1C1DFF0be8', Chain.BASE);
+        expect(formatRecipientRisk(check)).toBe('Recipient risk: medium\n- 0x742d35CC6634C0532925a3b8d4C2CA1C1DFF0be8 is not in the address book and was never used before');
+    });
+});
@@ -0,0 +1,200 @@
+import { zeroAddress } from 'viem';
+import { Address as TonAddress } from '@ton/ton';
+import { AddressBookContact } from '../types';
+import { Chain, EVM, getWalletType, WalletType } from '../../blockchain';
+import { AddressBook, AddressBookError } from './AddressBook';
+import { toRecipientAddress } from './toRecipientAddress';
+
+/**
+ * Risk of sending to a recipient: `low` for saved or previously used addresses, `medium` for new addresses and `high` for
+ * look-alikes of known addresses and burn addresses
+ */
+export type RecipientRiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Reason of a recipient warning
+ */
+export type RecipientWarningReason = 'look-alike' | 'burn-address' | 'new-address';
+
+/**
+ * Address the user has saved or used before
+ * @interface KnownRecipient
+ */
+export interface KnownRecipient {
+    /** Normalized address */
+    readonly address: string;
+    readonly source: 'contact' | 'history';
+    /** Contact the address is saved under */
+    readonly contact?: AddressBookContact;
+}
+
+/**
+ * Finding of a recipient check
+ * @interface RecipientWarning
+ */
+export interface RecipientWarning {
+    readonly reason: RecipientWarningReason;
+    /** Human-readable warning for the confirmation message */
+    readonly message: string;
+    /** Known address the recipient looks like (look-alike only) */
+    readonly similarTo?: KnownRecipient;
+}
+
+/**
+ * Outcome of a recipient check
+ * @interface RecipientRiskCheck
+ */
+export interface RecipientRiskCheck {
+    /** Normalized recipient address */
+    readonly address: string;
+    readonly chain: Chain;
+    readonly level: RecipientRiskLevel;
+    /** Findings, most severe first */
+    readonly warnings: RecipientWarning[];
+    /** Saved or used address equal to the recipient */
+    readonly known?: KnownRecipient;
+}
+
+/**
+ * Sources of known addresses
+ * @interface CheckRecipientRiskParams
+ */
+export interface CheckRecipientRiskParams {
+    /** Address book of the user */
+    readonly addressBook?: AddressBook;
+    /** Addresses the user has sent to or received from, in any notation, addresses of other chain families are ignored */
+    readonly history?: string[];
+}
+
+/**
+ * Number of leading and trailing characters that must be equal for an address to look like another one.
+ * Wallets and explorers shorten addresses to their first and last characters, poisoning addresses are generated to match them.
+ */
+const LOOK_ALIKE_PREFIX_LENGTH = 3;
+const LOOK_ALIKE_SUFFIX_LENGTH = 3;
+
+/**
+ * Addresses funds cannot be recovered from
+ */
+const BURN_ADDRESSES: Record<WalletType, string[]> = {
+    [WalletType.EVM]: [zeroAddress, EVM.constants.DEAD_ADDRESS],
+    [WalletType.SOLANA]: ['11111111111111111111111111111111', '1nc1nerator11111111111111111111111111111111'],
+    [WalletType.TON]: [`0:${'0'.repeat(64)}`],
+};
+
+/**
+ * Returns the notations users compare by eye, without the parts equal for all addresses (`0x`, the TON flags)
+ */
+function getDisplayForms(address: string, walletType: WalletType): string[] {
+    switch (walletType) {
+        case WalletType.EVM:
+            return [address.slice(2).toLowerCase()];
+        case WalletType.TON: {
+            const parsed = TonAddress.parse(address);
+            return [parsed.toString({ bounceable: true }), parsed.toString({ bounceable: false })].map(form => form.slice(2));
+        }
+        default:
+            return [address];
+    }
+}
+
+function looksAlike(address: string, known: string, walletType: WalletType): boolean {
+    const forms = getDisplayForms(address, walletType);
+    const knownForms = getDisplayForms(known, walletType);
+
+    return forms.some(
+        (form, index) =>
+            form !== knownForms[index] &&
+            form.slice(0, LOOK_ALIKE_PREFIX_LENGTH) === knownForms[index].slice(0, LOOK_ALIKE_PREFIX_LENGTH) &&
+            form.slice(-LOOK_ALIKE_SUFFIX_LENGTH) === knownForms[index].slice(-LOOK_ALIKE_SUFFIX_LENGTH),
+    );
+}
+
+function describeKnown({ address, contact }: KnownRecipient): string {
+    return contact ? `the address ${address} of contact ${contact.name}` : `${address} from the transaction history`;
+}
+
+async function getKnownRecipients(walletType: WalletType, { addressBook, history = [] }: CheckRecipientRiskParams): Promise<KnownRecipient[]> {
+    const known = new Map<string, KnownRecipient>();
+
+    for (const contact of addressBook ? await addressBook.list() : []) {
+        const address = contact.addresses[walletType] && toRecipientAddress(contact.addresses[walletType]!, walletType);
+        if (address && !known.has(address)) known.set(address, { address, source: 'contact', contact });
+    }
+    for (const entry of history) {
+        const address = toRecipientAddress(entry, walletType);
+        if (address && !known.has(address)) known.set(address, { address, source: 'history' });
+    }
+    return [...known.values()];
+}
+
+/**
+ * Checks a recipient for address poisoning before anything is sent to it
+ * @param recipient - Recipient address in any notation
+ * @param chain - Chain the transfer is sent on
+ * @param params - Address book and transaction history to compare with
+ * @returns Risk level and warnings, see `formatRecipientRisk` for a confirmation message
+ * @throws {AddressBookError} When the recipient is not an address of the chain's wallet type
+ * @description Poisoning scams send dust from an address whose start and end match an address the user has used, hoping the
+ * user copies it from the history. A recipient that differs from a saved or used address only in the middle is `high` risk,
+ * even when it appears in the history itself. Burn addresses (zero address, `DEAD_ADDRESS`, the Solana incinerator, the TON
+ * zero address) and the `NATIVE_ADDRESS` placeholder are `high` risk as well. Addresses that were never used are `medium` risk.
+ * @example
+ * ```typescript
+ * const { address } = await addressBook.resolveRecipient(args.recipient, chain);
+ * const check = await checkRecipientRisk(address, chain, { addressBook, history: await getRecentCounterparties() });
+ *
+ * if (check.level === 'high') {
+ *   const confirmed = await options.confirm?.({ ...request, summary: `${summary}\n${formatRecipientRisk(check)}` });
+ *   if (!confirmed) return toResult('Transfer cancelled', { errorCode: FunctionErrorCode.USER_REJECTED });
+ * }
+ * ```
+ */
+export async function checkRecipientRisk(recipient: string, chain: Chain, params: CheckRecipientRiskParams = {}): Promise<RecipientRiskCheck> {
+    const walletType = getWalletType(chain);
+    const value = recipient.trim();
+
+    if (walletType === WalletType.EVM && EVM.utils.isNativeAddress(value)) {
+        const message = `${value} is the native token placeholder, funds sent to it cannot be recovered`;
+        return { address: value, chain, level: 'high', warnings: [{ reason: 'burn-address', message }] };
+    }
+
+    const address = toRecipientAddress(value, walletType);
+    if (!address) throw new AddressBookError(`${recipient} is not a valid address on ${chain}`);
+    if (BURN_ADDRESSES[walletType].some(burn => toRecipientAddress(burn, walletType) === address)) {
+        const message = `${address} is a burn address, funds sent to it cannot be recovered`;
+        return { address, chain, level: 'high', warnings: [{ reason: 'burn-address', message }] };
+    }
+
+    const knownRecipients = await getKnownRecipients(walletType, params);
+    const known = knownRecipients.find(candidate => candidate.address === address);
+
+    const warnings: RecipientWarning[] = knownRecipients
+        .filter(candidate => candidate.address !== address && looksAlike(address, candidate.address, walletType))
+        .map(similarTo => ({
+            reason: 'look-alike',
+            message: `${address} looks like ${describeKnown(similarTo)}: same start and end, different middle. This may be address poisoning`,
+            similarTo,
+        }));
+
+    if (warnings.length > 0) return { address, chain, level: 'high', warnings, ...(known && { known }) };
+    if (known) return { address, chain, level: 'low', warnings, known };
+
+    const message = `${address} is not in the address book and was never used before`;
+    return { address, chain, level: 'medium', warnings: [{ reason: 'new-address', message }] };
+}
+
+/**
+ * Formats a recipient check for a confirmation message
+ * @param check - Result of `checkRecipientRisk`
+ * @returns Risk level followed by one line per warning
+ * @example
+ * ```typescript
+ * formatRecipientRisk(check);
+ * // Recipient risk: high
+ * // - 0xd8D0000000000000000000000000000000000045 looks like the address 0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045 of contact Alice: same start and end, different middle. This may be address poisoning
+ * ```
+ */
+export function formatRecipientRisk({ level, warnings }: RecipientRiskCheck): string {
+    return [`Recipient risk: ${level}`, ...warnings.map(({ message }) => `- ${message}`)].join('\n');
+}
@@ -0,0 +1,3 @@
+export * from './AddressBook';
+export * from './checkRecipientRisk';
+export * from './MemoryAddressBookStore';
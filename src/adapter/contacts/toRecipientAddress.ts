@@ -0,0 +1,29 @@
+import { Chain, EVM, WalletType } from '../../blockchain';
+import { isAddress, normalizeAddress } from '../../utils';
+
+export const WALLET_TYPE_LABELS: Record<WalletType, string> = {
+    [WalletType.EVM]: 'EVM',
+    [WalletType.SOLANA]: 'Solana',
+    [WalletType.TON]: 'TON',
+};
+
+/**
+ * `normalizeAddress` takes a chain, but its result only depends on the wallet type of the chain
+ */
+const NORMALIZATION_CHAINS: Record<WalletType, Chain> = {
+    [WalletType.EVM]: Chain.ETHEREUM,
+    [WalletType.SOLANA]: Chain.SOLANA,
+    [WalletType.TON]: Chain.TON,
+};
+
+/**
+ * Returns the normalized address, or undefined when it is not an address of the wallet type
+ */
+export function toRecipientAddress(address: string, walletType: WalletType): string | undefined {
+    const value = address.trim();
+    const { valid, type } = isAddress(value);
+    if (!valid || type !== walletType) return undefined;
+    // normalizeAddress turns the native token placeholder into the wrapped token, which is never a valid recipient
+    if (EVM.utils.isNativeAddress(value)) return undefined;
+    return normalizeAddress(NORMALIZATION_CHAINS[walletType], value);
+}
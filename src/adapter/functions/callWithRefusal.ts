@@ -0,0 +1,27 @@
+import { FunctionReturn } from '../types';
+
+/**
+ * Calls an adapter function whose wallet operations may be refused by a wrapper
+ * @param call - Calls the function, passing `refuse` to the wrapped function options
+ * @param toRefusedResult - Builds the result of a call with the first refusal
+ * @returns Result of the function, or of `toRefusedResult` once an operation was refused
+ * @description The refused operation throws into the adapter, which may catch the error and return its own result or throw
+ * another error. Both are replaced with the refused result, so callers always see why the call stopped.
+ */
+export async function callWithRefusal<T>(
+    call: (refuse: (refusal: T) => void) => Promise<FunctionReturn>,
+    toRefusedResult: (refusal: T) => FunctionReturn,
+): Promise<FunctionReturn> {
+    let refused: { refusal: T } | undefined;
+    const refuse = (refusal: T) => {
+        refused = refused ?? { refusal };
+    };
+
+    try {
+        const result = await call(refuse);
+        return refused ? toRefusedResult(refused.refusal) : result;
+    } catch (error) {
+        if (refused) return toRefusedResult(refused.refusal);
+        throw error;
+    }
+}
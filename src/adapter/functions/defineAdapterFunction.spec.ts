@@ -0,0 +1,72 @@
+import { defineAdapterFunction, toAdapterFunctions } from './defineAdapterFunction';
+import { toResult } from '../transformers';
+import { FunctionErrorCode, FunctionOptions } from '../types';
+
+describe('defineAdapterFunction', () => {
+    const options = {} as FunctionOptions;
+    const swap = defineAdapterFunction(
+        {
+            type: 'function',
+            function: {
+                name: 'swap',
+                description: 'Swap tokens',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        chainName: { type: 'string', enum: ['ethereum', 'base'] },
+                        amount: { type: 'string' },
+                        slippage: { type: 'number' },
+                    },
+                    required: ['chainName', 'amount'],
+                    additionalProperties: false,
+                },
+            },
+        } as const,
+        async ({ chainName, amount, slippage }) => {
+            const chain: 'ethereum' | 'base' = chainName;
+            const value: string = amount;
+            const tolerance: number | undefined = slippage;
+            return toResult(`${value} on ${chain} with ${tolerance ?? 0.5}%`);
+        },
+    );
+
+    it('should call the handler with valid arguments', async () => {
+        const result = await swap.execute({ chainName: 'base', amount: '1' }, options);
+        expect(result).toEqual({ success: true, data: '1 on base with 0.5%' });
+    });
+
+    it('should list every violation without calling the handler', async () => {
+        const result = await swap.execute({ chainName: 'polygon', slippage: '1' }, options);
+        expect(result.success).toBe(false);
+        expect(result.errorCode).toBe(FunctionErrorCode.INVALID_ARGS);
+        expect(result.data).toBe(
+            'ERROR: Invalid arguments for swap:\n- /amount: Required property is missing\n- /chainName: Expected one of "ethereum", "base", received "polygon"\n- /slippage: Expected number, received string',
+        );
+    });
+
+    it('should reject non-object arguments', async () => {
+        const result = await swap.execute(undefined, options);
+        expect(result.data).toBe('ERROR: Invalid arguments for swap:\n- /: Expected object, received undefined');
+    });
+
+    it('should expose the tool and name', () => {
+        expect(swap.name).toBe('swap');
+        expect(swap.tool.function.name).toBe('swap');
+    });
+});
+
+describe('toAdapterFunctions', () => {
+    const define = (name: string) =>
+        defineAdapterFunction({ type: 'function', function: { name, parameters: { type: 'object', properties: {} } } } as const, async () => toResult(name));
+
+    it('should build functions and tools from definitions', async () => {
+        const { functions, tools } = toAdapterFunctions([define('a'), define('b')]);
+        expect(Object.keys(functions)).toEqual(['a', 'b']);
+        expect(tools.map(tool => tool.type === 'function' && tool.function.name)).toEqual(['a', 'b']);
+        expect(await functions.b({}, {})).toEqual({ success: true, data: 'b' });
+    });
+
+    it('should throw on duplicate names', () => {
+        expect(() => toAdapterFunctions([define('a'), define('a')])).toThrow('Adapter function a is defined more than once');
+    });
+});
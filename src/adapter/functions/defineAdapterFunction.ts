@@ -0,0 +1,128 @@
+import { OpenAI } from 'openai';
+import { AdapterExport, FunctionErrorCode, FunctionOptions, FunctionReturn } from '../types';
+import { FromSchema, JsonSchema, validateBySchema } from '../schema';
+import { toResult } from '../transformers';
+
+/**
+ * OpenAI function tool whose parameters are a JSON Schema
+ * @interface AdapterFunctionTool
+ */
+export interface AdapterFunctionTool {
+    /** Tool type, always 'function' */
+    readonly type: 'function';
+    /** Function definition sent to the model */
+    readonly function: {
+        /** Function name, also used as the key in `AdapterExport.functions` */
+        readonly name: string;
+        /** Description for the model */
+        readonly description?: string;
+        /** JSON Schema of the function arguments */
+        readonly parameters: JsonSchema;
+        /** Whether to enable strict schema adherence */
+        readonly strict?: boolean | null;
+    };
+}
+
+/**
+ * Adapter function implementation with arguments typed from its tool schema
+ */
+export type AdapterFunctionHandler<T extends AdapterFunctionTool> = (args: FromSchema<T['function']['parameters']>, options: FunctionOptions) => Promise<FunctionReturn>;
+
+/**
+ * Adapter function paired with its tool definition
+ * @interface AdapterFunctionDefinition
+ */
+export interface AdapterFunctionDefinition<T extends AdapterFunctionTool = AdapterFunctionTool> {
+    /** Function name */
+    readonly name: T['function']['name'];
+    /** Tool definition for the model */
+    readonly tool: OpenAI.Chat.Completions.ChatCompletionFunctionTool;
+    /** Checks the arguments against the tool schema and calls the handler */
+    readonly execute: (args: unknown, options: FunctionOptions) => Promise<FunctionReturn>;
+    /** Original implementation without argument checks */
+    readonly handler: AdapterFunctionHandler<T>;
+}
+
+/**
+ * Pairs an adapter function with its OpenAI tool definition and checks incoming arguments
+ * @param tool - Tool definition, declared `as const` so that argument types can be inferred
+ * @param handler - Function implementation receiving typed arguments
+ * @returns Definition whose `execute` rejects arguments that do not match `tool.function.parameters`
+ * @example
+ * ```typescript
+ * const swap = defineAdapterFunction(
+ *   {
+ *     type: 'function',
+ *     function: {
+ *       name: 'swap',
+ *       description: 'Swap tokens',
+ *       parameters: {
+ *         type: 'object',
+ *         properties: {
+ *           chainName: { type: 'string', enum: ['ethereum', 'base'] },
+ *           amount: { type: 'string' }
+ *         },
+ *         required: ['chainName', 'amount'],
+ *         additionalProperties: false
+ *       }
+ *     }
+ *   } as const,
+ *   async ({ chainName, amount }, options) => {
+ *     // chainName: 'ethereum' | 'base', amount: string
+ *     return toResult(`Swapped ${amount} on ${chainName}`);
+ *   }
+ * );
+ *
+ * await swap.execute({ chainName: 'polygon' }, options);
+ * // { success: false, errorCode: 'INVALID_ARGS', data: 'ERROR: Invalid arguments for swap:\n- /amount: Required property is missing\n- /chainName: ...' }
+ * ```
+ */
+export function defineAdapterFunction<T extends AdapterFunctionTool>(tool: T, handler: AdapterFunctionHandler<T>): AdapterFunctionDefinition<T> {
+    const { name, parameters } = tool.function;
+
+    return {
+        name,
+        tool,
+        handler,
+        execute: async (args, options) => {
+            const issues = validateBySchema(parameters, args);
+            if (issues.length > 0) {
+                const details = issues.map(issue => `- ${issue.path || '/'}: ${issue.message}`).join('\n');
+                return toResult(`Invalid arguments for ${name}:\n${details}`, { errorCode: FunctionErrorCode.INVALID_ARGS });
+            }
+            return handler(args as FromSchema<T['function']['parameters']>, options);
+        },
+    };
+}
+
+/**
+ * Builds the `functions` and `tools` parts of an adapter export from function definitions
+ * @param definitions - Definitions created by `defineAdapterFunction`
+ * @returns Object to spread into an `AdapterExport`
+ * @throws {Error} When two definitions share the same name
+ * @example
+ * ```typescript
+ * const adapter: AdapterExport = {
+ *   name: 'dex',
+ *   description: 'Swap tokens',
+ *   chains: [Chain.ETHEREUM, Chain.BASE],
+ *   executableFunctions: ['swap'],
+ *   ...toAdapterFunctions([swap, getQuote])
+ * };
+ * ```
+ */
+export function toAdapterFunctions<T extends AdapterFunctionTool[]>(definitions: { [K in keyof T]: AdapterFunctionDefinition<T[K]> }): Pick<AdapterExport, 'functions' | 'tools'> {
+    const functions: AdapterExport['functions'] = {};
+
+    for (const definition of definitions) {
+        if (functions[definition.name]) {
+            throw new Error(`Adapter function ${definition.name} is defined more than once`);
+        }
+        functions[definition.name] = definition.execute;
+    }
+
+    return {
+        functions,
+        tools: definitions.map(definition => definition.tool),
+    };
+}
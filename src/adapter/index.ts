@@ -1,2 +1,20 @@
 export * from './types';
 export * from './transformers';
+export * from './schema';
+export * from './tools';
+export * from './validation';
+export * from './functions';
+export * from './registry';
+export * from './agent';
+export * from './mcp';
+export * from './simulation';
+export * from './confirmation';
+export * from './middleware';
+export * from './scope';
+export * from './manifest';
+export * from './amounts';
+export * from './cache';
+export * from './audit';
+export * from './progress';
+export * from './tokens';
+export * from './contacts';
@@ -0,0 +1,10 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { SDK_VERSION } from './constants';
+
+describe('SDK_VERSION', () => {
+    it('should match the package version', () => {
+        const { version } = JSON.parse(readFileSync(resolve(__dirname, '../../../package.json'), 'utf8'));
+        expect(SDK_VERSION).toBe(version);
+    });
+});
@@ -0,0 +1,7 @@
+// Replaced with the package.json version by tsup and vitest
+declare const __SDK_VERSION__: string;
+
+/**
+ * Version of this SDK, read from package.json at build time
+ */
+export const SDK_VERSION: string = __SDK_VERSION__;
@@ -0,0 +1,48 @@
+import { createAdapterManifest } from './createAdapterManifest';
+import { SDK_VERSION } from './constants';
+import { AdapterExport } from '../types';
+import { Chain } from '../../blockchain';
+
+describe('createAdapterManifest', () => {
+    const adapter: AdapterExport = {
+        name: 'bridge',
+        description: 'Bridges tokens',
+        chains: [Chain.BASE, Chain.SOLANA],
+        executableFunctions: ['bridge'],
+        tools: [
+            { type: 'function', function: { name: 'bridge', parameters: { type: 'object', properties: {} } } },
+            { type: 'function', function: { name: 'getQuote', parameters: { type: 'object', properties: {} } } },
+        ],
+        functions: {
+            bridge: async () => ({ success: true, data: '' }),
+            getQuote: async () => ({ success: true, data: '' }),
+        },
+    };
+
+    it('should describe the adapter', () => {
+        expect(createAdapterManifest(adapter)).toEqual({
+            manifestVersion: 1,
+            name: 'bridge',
+            description: 'Bridges tokens',
+            sdk: `^${SDK_VERSION}`,
+            chains: [Chain.BASE, Chain.SOLANA],
+            capabilities: ['evm', 'solana'],
+            tools: [
+                { name: 'bridge', executable: true },
+                { name: 'getQuote', executable: false },
+            ],
+        });
+    });
+
+    it('should add listed capabilities in canonical order and the SDK range', () => {
+        const manifest = createAdapterManifest({ ...adapter, chains: [Chain.TON] }, { capabilities: ['notify', 'confirm', 'notify', 'evm.signTypedDatas'], sdk: '^2.0.0' });
+
+        expect(manifest.capabilities).toEqual(['evm.signTypedDatas', 'ton', 'notify', 'confirm']);
+        expect(manifest.sdk).toBe('^2.0.0');
+    });
+
+    it('should be serializable', () => {
+        const manifest = createAdapterManifest(adapter);
+        expect(JSON.parse(JSON.stringify(manifest))).toEqual(manifest);
+    });
+});
@@ -0,0 +1,50 @@
+import { AdapterExport } from '../types';
+import { Chain, EVM } from '../../blockchain';
+import { getToolName } from '../tools';
+import { SDK_VERSION } from './constants';
+import { ADAPTER_MANIFEST_VERSION, AdapterManifest, FUNCTION_CAPABILITIES, FunctionCapability } from './types';
+
+/**
+ * Options for generating an adapter manifest
+ * @interface CreateAdapterManifestOptions
+ */
+export interface CreateAdapterManifestOptions {
+    /** Function options the adapter requires besides the wallets of its chains */
+    readonly capabilities?: FunctionCapability[];
+    /** Supported SDK range (default: `^SDK_VERSION`) */
+    readonly sdk?: string;
+}
+
+/**
+ * Generates the manifest of an adapter
+ * @param adapter - Adapter to describe
+ * @param options - Required capabilities and SDK range
+ * @returns JSON-serializable manifest
+ * @description The wallet capabilities (`evm`, `solana`, `ton`) are derived from `adapter.chains`, other capabilities have to be listed.
+ * @example
+ * ```typescript
+ * const manifest = createAdapterManifest(adapter, { capabilities: ['evm.signTypedDatas', 'notify'], sdk: '^2.4.0' });
+ * await fs.writeFile('manifest.json', JSON.stringify(manifest, null, 2));
+ * ```
+ */
+export function createAdapterManifest(adapter: AdapterExport, options: CreateAdapterManifestOptions = {}): AdapterManifest {
+    const { capabilities = [], sdk = `^${SDK_VERSION}` } = options;
+    const required = new Set<FunctionCapability>(capabilities);
+
+    if (adapter.chains.some(chain => EVM.utils.isEvmChain(chain))) required.add('evm');
+    if (adapter.chains.includes(Chain.SOLANA)) required.add('solana');
+    if (adapter.chains.includes(Chain.TON)) required.add('ton');
+
+    return {
+        manifestVersion: ADAPTER_MANIFEST_VERSION,
+        name: adapter.name,
+        description: adapter.description,
+        sdk,
+        chains: [...adapter.chains],
+        capabilities: FUNCTION_CAPABILITIES.filter(capability => required.has(capability)),
+        tools: adapter.tools.map(tool => {
+            const name = getToolName(tool);
+            return { name, executable: adapter.executableFunctions.includes(name) };
+        }),
+    };
+}
@@ -0,0 +1,19 @@
+import { vi } from 'vitest';
+import { getFunctionCapabilities } from './getFunctionCapabilities';
+
+describe('getFunctionCapabilities', () => {
+    it('should list present option members', () => {
+        const capabilities = getFunctionCapabilities({
+            evm: { getAddress: vi.fn(), getProvider: vi.fn(), sendTransactions: vi.fn(), signTypedDatas: vi.fn() },
+            user: { getUserId: vi.fn(), getUserTokens: vi.fn(), addUserToken: vi.fn() },
+            notify: vi.fn(),
+            confirm: vi.fn(),
+        });
+
+        expect(capabilities).toEqual(['evm', 'evm.signTypedDatas', 'user', 'notify', 'confirm']);
+    });
+
+    it('should return nothing for empty options', () => {
+        expect(getFunctionCapabilities({})).toEqual([]);
+    });
+});
@@ -0,0 +1,20 @@
+import { FunctionOptions } from '../types';
+import { FUNCTION_CAPABILITIES, FunctionCapability } from './types';
+
+/**
+ * Lists the capabilities provided by host function options
+ * @param options - Function options of the host
+ * @returns Capabilities whose members are present
+ * @example
+ * ```typescript
+ * getFunctionCapabilities({ evm: evmOptions, notify }); // ['evm', 'evm.signMessages', 'notify'] when evmOptions has signMessages
+ * ```
+ */
+export function getFunctionCapabilities(options: FunctionOptions): FunctionCapability[] {
+    return FUNCTION_CAPABILITIES.filter(capability => {
+        const [family, member] = capability.split('.');
+        const value = (options as Record<string, unknown>)[family];
+        if (member === undefined) return value !== undefined;
+        return typeof value === 'object' && value !== null && (value as Record<string, unknown>)[member] !== undefined;
+    });
+}
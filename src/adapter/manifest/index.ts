@@ -0,0 +1,6 @@
+export * from './types';
+export * from './constants';
+export * from './createAdapterManifest';
+export * from './getFunctionCapabilities';
+export * from './parseAdapterManifest';
+export * from './loadAdapter';
@@ -0,0 +1,77 @@
+import { vi } from 'vitest';
+import { AdapterCompatibilityError, checkAdapterCompatibility, loadAdapter } from './loadAdapter';
+import { createAdapterManifest } from './createAdapterManifest';
+import { AdapterExport, FunctionOptions } from '../types';
+import { AdapterValidationError } from '../validation';
+import { Chain } from '../../blockchain';
+
+describe('loadAdapter', () => {
+    const adapter: AdapterExport = {
+        name: 'permit-swap',
+        description: 'Swaps with permits',
+        chains: [Chain.BASE],
+        executableFunctions: ['swap'],
+        tools: [{ type: 'function', function: { name: 'swap', parameters: { type: 'object', properties: {} } } }],
+        functions: { swap: async () => ({ success: true, data: '' }) },
+    };
+    const manifest = createAdapterManifest(adapter, { capabilities: ['evm.signTypedDatas'], sdk: '^2.4.0' });
+    const evm = { getAddress: vi.fn(), getProvider: vi.fn(), sendTransactions: vi.fn() };
+    const options: FunctionOptions = { evm: { ...evm, signTypedDatas: vi.fn() } };
+
+    describe('checkAdapterCompatibility', () => {
+        it('should accept hosts providing everything', () => {
+            expect(checkAdapterCompatibility(manifest, { capabilities: options })).toEqual({ compatible: true, sdkCompatible: true, missingCapabilities: [] });
+        });
+
+        it('should report missing capabilities and SDK mismatch', () => {
+            expect(checkAdapterCompatibility(manifest, { capabilities: ['evm'], sdkVersion: '3.0.0' })).toEqual({
+                compatible: false,
+                sdkCompatible: false,
+                missingCapabilities: ['evm.signTypedDatas'],
+            });
+        });
+    });
+
+    it('should return compatible adapters', () => {
+        expect(loadAdapter(adapter, manifest, { capabilities: options })).toBe(adapter);
+    });
+
+    it('should refuse adapters the host cannot run', () => {
+        const load = () => loadAdapter(adapter, manifest, { capabilities: { evm }, sdkVersion: '2.3.0' });
+
+        expect(load).toThrow(AdapterCompatibilityError);
+        expect(load).toThrow(
+            'Adapter "permit-swap" cannot be loaded:\n  - Requires SDK ^2.4.0, host has 2.3.0\n  - Requires function options the host does not provide: evm.signTypedDatas',
+        );
+        try {
+            load();
+        } catch (error) {
+            expect((error as AdapterCompatibilityError).missingCapabilities).toEqual(['evm.signTypedDatas']);
+        }
+    });
+
+    it('should refuse manifests that do not describe the adapter', () => {
+        const other = {
+            ...manifest,
+            name: 'other',
+            tools: [
+                { name: 'swap', executable: false },
+                { name: 'bridge', executable: true },
+            ],
+        };
+
+        expect(() => loadAdapter(adapter, other, { capabilities: options })).toThrow(
+            [
+                'Adapter "permit-swap" cannot be loaded:',
+                '  - Manifest is for adapter "other"',
+                '  - Manifest marks tool "swap" as not executable',
+                '  - Manifest tool "bridge" is not exported by the adapter',
+            ].join('\n'),
+        );
+    });
+
+    it('should refuse invalid adapters and manifests', () => {
+        expect(() => loadAdapter({ ...adapter, executableFunctions: ['missing'] }, manifest, { capabilities: options })).toThrow(AdapterValidationError);
+        expect(() => loadAdapter(adapter, { ...manifest, sdk: '' }, { capabilities: options })).toThrow('Invalid adapter manifest');
+    });
+});
@@ -0,0 +1,113 @@
+import { AdapterExport, FunctionOptions } from '../types';
+import { satisfiesVersion } from '../../utils';
+import { getToolName } from '../tools';
+import { assertValidAdapter } from '../validation';
+import { SDK_VERSION } from './constants';
+import { getFunctionCapabilities } from './getFunctionCapabilities';
+import { parseAdapterManifest } from './parseAdapterManifest';
+import { AdapterManifest, FunctionCapability } from './types';
+
+/**
+ * What the host running the adapter provides
+ * @interface AdapterHost
+ */
+export interface AdapterHost {
+    /** Provided capabilities, or the function options to derive them from */
+    readonly capabilities: FunctionCapability[] | FunctionOptions;
+    /** SDK version of the host (default: SDK_VERSION) */
+    readonly sdkVersion?: string;
+}
+
+/**
+ * Result of the compatibility check
+ * @interface AdapterCompatibility
+ */
+export interface AdapterCompatibility {
+    /** True when the SDK version matches and no capability is missing */
+    readonly compatible: boolean;
+    /** Whether the host SDK version is within the manifest `sdk` range */
+    readonly sdkCompatible: boolean;
+    /** Required capabilities the host does not provide */
+    readonly missingCapabilities: FunctionCapability[];
+}
+
+/**
+ * Error thrown when an adapter cannot be loaded by the host
+ */
+export class AdapterCompatibilityError extends Error {
+    /** Required capabilities the host does not provide */
+    public readonly missingCapabilities: FunctionCapability[];
+
+    constructor(adapterName: string, problems: string[], missingCapabilities: FunctionCapability[] = []) {
+        super(`Adapter "${adapterName}" cannot be loaded:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+        this.name = 'AdapterCompatibilityError';
+        this.missingCapabilities = missingCapabilities;
+    }
+}
+
+/**
+ * Checks whether a host can run an adapter
+ * @param manifest - Adapter manifest
+ * @param host - Capabilities and SDK version of the host
+ * @returns Compatibility details
+ * @example
+ * ```typescript
+ * const { compatible, missingCapabilities } = checkAdapterCompatibility(manifest, { capabilities: options });
+ * ```
+ */
+export function checkAdapterCompatibility(manifest: AdapterManifest, host: AdapterHost): AdapterCompatibility {
+    const provided = Array.isArray(host.capabilities) ? host.capabilities : getFunctionCapabilities(host.capabilities);
+    const missingCapabilities = manifest.capabilities.filter(capability => !provided.includes(capability));
+    const sdkCompatible = satisfiesVersion(host.sdkVersion ?? SDK_VERSION, manifest.sdk);
+
+    return { compatible: sdkCompatible && missingCapabilities.length === 0, sdkCompatible, missingCapabilities };
+}
+
+/**
+ * Checks an adapter against its manifest and the host before using it
+ * @param adapter - Adapter export of the package
+ * @param manifest - Manifest shipped with the package (validated with ADAPTER_MANIFEST_SCHEMA)
+ * @param host - Capabilities and SDK version of the host
+ * @returns The adapter
+ * @throws {AdapterValidationError} When the adapter is invalid
+ * @throws {AdapterCompatibilityError} When the manifest does not describe the adapter, the SDK version is out of range
+ * or required capabilities are missing
+ * @example
+ * ```typescript
+ * import adapter from '@heyanon/adapter-aave';
+ * import manifest from '@heyanon/adapter-aave/manifest.json';
+ *
+ * registry.register(loadAdapter(adapter, manifest, { capabilities: options }));
+ * ```
+ */
+export function loadAdapter(adapter: AdapterExport, manifest: AdapterManifest, host: AdapterHost): AdapterExport {
+    parseAdapterManifest(manifest);
+    assertValidAdapter(adapter);
+
+    const problems: string[] = [];
+    const toolNames = adapter.tools.map(getToolName);
+
+    if (manifest.name !== adapter.name) {
+        problems.push(`Manifest is for adapter "${manifest.name}"`);
+    }
+    for (const tool of manifest.tools) {
+        if (!toolNames.includes(tool.name)) {
+            problems.push(`Manifest tool "${tool.name}" is not exported by the adapter`);
+        } else if (tool.executable !== adapter.executableFunctions.includes(tool.name)) {
+            problems.push(`Manifest marks tool "${tool.name}" as ${tool.executable ? '' : 'not '}executable`);
+        }
+    }
+
+    const { sdkCompatible, missingCapabilities } = checkAdapterCompatibility(manifest, host);
+    if (!sdkCompatible) {
+        problems.push(`Requires SDK ${manifest.sdk}, host has ${host.sdkVersion ?? SDK_VERSION}`);
+    }
+    if (missingCapabilities.length > 0) {
+        problems.push(`Requires function options the host does not provide: ${missingCapabilities.join(', ')}`);
+    }
+
+    if (problems.length > 0) {
+        throw new AdapterCompatibilityError(adapter.name, problems, missingCapabilities);
+    }
+    return adapter;
+}
@@ -0,0 +1,24 @@
+import { parseAdapterManifest } from './parseAdapterManifest';
+
+describe('parseAdapterManifest', () => {
+    const manifest = {
+        manifestVersion: 1,
+        name: 'aave',
+        description: 'Aave lending',
+        sdk: '^2.4.0',
+        chains: ['base'],
+        capabilities: ['evm'],
+        tools: [{ name: 'supply', executable: true }],
+    };
+
+    it('should accept valid manifests', () => {
+        expect(parseAdapterManifest(manifest)).toBe(manifest);
+    });
+
+    it('should list problems of invalid manifests', () => {
+        expect(() => parseAdapterManifest({ ...manifest, manifestVersion: 2, chains: ['mars'], capabilities: ['evm.teleport'], tools: [{ name: 'supply' }] })).toThrow(
+            'Invalid adapter manifest:\n- /manifestVersion: Expected 1\n- /chains/0: Expected one of',
+        );
+        expect(() => parseAdapterManifest(null)).toThrow('Invalid adapter manifest:\n- /: Expected object, received null');
+    });
+});
@@ -0,0 +1,47 @@
+import { allChains } from '../../blockchain';
+import { JsonSchema, validateBySchema } from '../schema';
+import { ADAPTER_MANIFEST_VERSION, AdapterManifest, FUNCTION_CAPABILITIES } from './types';
+
+/**
+ * JSON schema of the adapter manifest
+ */
+export const ADAPTER_MANIFEST_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        manifestVersion: { type: 'integer', const: ADAPTER_MANIFEST_VERSION },
+        name: { type: 'string', minLength: 1 },
+        description: { type: 'string' },
+        sdk: { type: 'string', minLength: 1 },
+        chains: { type: 'array', items: { type: 'string', enum: allChains } },
+        capabilities: { type: 'array', items: { type: 'string', enum: [...FUNCTION_CAPABILITIES] } },
+        tools: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { name: { type: 'string', minLength: 1 }, executable: { type: 'boolean' } },
+                required: ['name', 'executable'],
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ['manifestVersion', 'name', 'description', 'sdk', 'chains', 'capabilities', 'tools'],
+    additionalProperties: false,
+};
+
+/**
+ * Checks that a value (e.g. a parsed manifest.json) is an adapter manifest
+ * @param value - Value to check
+ * @returns The value typed as a manifest
+ * @throws {Error} When the value does not match ADAPTER_MANIFEST_SCHEMA
+ * @example
+ * ```typescript
+ * const manifest = parseAdapterManifest(JSON.parse(await fs.readFile('manifest.json', 'utf8')));
+ * ```
+ */
+export function parseAdapterManifest(value: unknown): AdapterManifest {
+    const issues = validateBySchema(ADAPTER_MANIFEST_SCHEMA, value);
+    if (issues.length > 0) {
+        throw new Error(`Invalid adapter manifest:\n${issues.map(issue => `- ${issue.path || '/'}: ${issue.message}`).join('\n')}`);
+    }
+    return value as AdapterManifest;
+}
@@ -0,0 +1,73 @@
+import { Chain } from '../../blockchain';
+
+/**
+ * Current manifest format version
+ */
+export const ADAPTER_MANIFEST_VERSION = 1;
+
+/**
+ * `FunctionOptions` members an adapter can require from the host
+ */
+export const FUNCTION_CAPABILITIES = [
+    'evm',
+    'evm.deployContracts',
+    'evm.signMessages',
+    'evm.signTypedDatas',
+    'solana',
+    'solana.signTransactions',
+    'ton',
+    'user',
+    'user.getUserPassword',
+    'user.addressBook',
+    'notify',
+    'notifyProgress',
+    'getRecipient',
+    'getCcxtExchange',
+    'confirm',
+] as const;
+
+export type FunctionCapability = typeof FUNCTION_CAPABILITIES[number];
+
+/**
+ * Tool listed in an adapter manifest
+ * @interface AdapterManifestTool
+ */
+export interface AdapterManifestTool {
+    /** Tool (function) name */
+    readonly name: string;
+    /** Whether the function is listed in `executableFunctions` */
+    readonly executable: boolean;
+}
+
+/**
+ * Serializable description of an adapter package
+ * @interface AdapterManifest
+ * @example
+ * ```json
+ * {
+ *   "manifestVersion": 1,
+ *   "name": "aave",
+ *   "description": "Aave lending protocol",
+ *   "sdk": "^2.4.0",
+ *   "chains": ["ethereum", "base"],
+ *   "capabilities": ["evm", "evm.signTypedDatas", "notify"],
+ *   "tools": [{ "name": "supply", "executable": true }, { "name": "getPosition", "executable": false }]
+ * }
+ * ```
+ */
+export interface AdapterManifest {
+    /** Manifest format version (ADAPTER_MANIFEST_VERSION) */
+    readonly manifestVersion: number;
+    /** Adapter name */
+    readonly name: string;
+    /** Adapter description */
+    readonly description: string;
+    /** Semver range of `@heyanon/sdk` versions the adapter works with */
+    readonly sdk: string;
+    /** Supported chains */
+    readonly chains: Chain[];
+    /** Function options the adapter requires */
+    readonly capabilities: FunctionCapability[];
+    /** Adapter tools */
+    readonly tools: AdapterManifestTool[];
+}
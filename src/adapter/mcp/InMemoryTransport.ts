@@ -0,0 +1,63 @@
+import { JsonRpcMessage, McpTransport } from './types';
+
+/**
+ * In-process MCP transport, used to test servers without spawning processes
+ * @description Messages are passed as structured clones on a microtask, so both sides behave as if they were connected over a pipe
+ * @example
+ * ```typescript
+ * const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+ * await server.connect(serverTransport);
+ *
+ * const responses: unknown[] = [];
+ * await clientTransport.start(message => responses.push(message));
+ * await clientTransport.send({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+ * ```
+ */
+export class InMemoryTransport implements McpTransport {
+    private peer?: InMemoryTransport;
+    private onMessage?: (message: unknown) => void;
+    private pending: unknown[] = [];
+    private closed = false;
+
+    /**
+     * Creates two transports connected to each other
+     * @returns Client and server side transports
+     */
+    static createLinkedPair(): InMemoryTransport[] {
+        const client = new InMemoryTransport();
+        const server = new InMemoryTransport();
+        client.peer = server;
+        server.peer = client;
+        return [client, server];
+    }
+
+    async start(onMessage: (message: unknown) => void): Promise<void> {
+        this.onMessage = onMessage;
+        const pending = this.pending;
+        this.pending = [];
+        pending.forEach(message => onMessage(message));
+    }
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        if (this.closed || !this.peer || this.peer.closed) {
+            throw new Error('Transport is closed');
+        }
+        const peer = this.peer;
+        const copy = JSON.parse(JSON.stringify(message));
+        queueMicrotask(() => peer.receive(copy));
+    }
+
+    async close(): Promise<void> {
+        this.closed = true;
+        this.onMessage = undefined;
+    }
+
+    private receive(message: unknown): void {
+        if (this.closed) return;
+        if (this.onMessage) {
+            this.onMessage(message);
+        } else {
+            this.pending.push(message);
+        }
+    }
+}
@@ -0,0 +1,144 @@
+import { vi } from 'vitest';
+import { McpAdapterServer } from './McpAdapterServer';
+import { InMemoryTransport } from './InMemoryTransport';
+import { JsonRpcResponse } from './types';
+import { AdapterExport, FunctionOptions } from '../types';
+import { Chain } from '../../blockchain';
+import { toResult } from '../transformers';
+
+async function createClient(server: McpAdapterServer) {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const waiting = new Map<number, (response: JsonRpcResponse) => void>();
+    await server.connect(serverTransport);
+    await clientTransport.start(message => {
+        const response = message as JsonRpcResponse;
+        waiting.get(response.id as number)?.(response);
+    });
+
+    let nextId = 1;
+    return {
+        transport: clientTransport,
+        request: (method: string, params?: Record<string, unknown>) =>
+            new Promise<JsonRpcResponse>(resolve => {
+                const id = nextId++;
+                waiting.set(id, resolve);
+                void clientTransport.send({ jsonrpc: '2.0', id, method, params });
+            }),
+    };
+}
+
+describe('McpAdapterServer', () => {
+    const functionOptions = ({ notify: vi.fn() } as unknown) as FunctionOptions;
+    const getFunctionOptions = vi.fn(async () => functionOptions);
+    const adapter: AdapterExport = {
+        name: 'aave',
+        description: 'Lend and borrow on Aave',
+        chains: [Chain.BASE],
+        functions: {
+            getPositions: vi.fn(async () => toResult('No positions')),
+            supply: vi.fn(async ({ amount }: any) => (amount === '0' ? toResult('Amount must be positive', true) : toResult(`Supplied ${amount}`))),
+        },
+        executableFunctions: ['supply'],
+        tools: [
+            { type: 'function', function: { name: 'getPositions', description: 'Get positions' } },
+            { type: 'function', function: { name: 'supply', parameters: { type: 'object', properties: { amount: { type: 'string' } } } } },
+        ],
+    };
+
+    it('should answer initialize', async () => {
+        const client = await createClient(new McpAdapterServer({ adapter, getFunctionOptions, version: '2.0.0' }));
+        const response = await client.request('initialize', { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1' } });
+        expect(response.result).toEqual({
+            protocolVersion: '2025-03-26',
+            capabilities: { tools: { listChanged: false } },
+            serverInfo: { name: 'aave', version: '2.0.0' },
+            instructions: 'Lend and borrow on Aave',
+        });
+
+        const fallback = await client.request('initialize', { protocolVersion: '1999-01-01' });
+        expect((fallback.result as any).protocolVersion).toBe('2025-06-18');
+    });
+
+    it('should list tools with annotations', async () => {
+        const client = await createClient(new McpAdapterServer({ adapter, getFunctionOptions }));
+        const response = await client.request('tools/list');
+        expect(response.result).toEqual({
+            tools: [
+                {
+                    name: 'getPositions',
+                    description: 'Get positions',
+                    inputSchema: { type: 'object', properties: {} },
+                    annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: true },
+                },
+                {
+                    name: 'supply',
+                    inputSchema: { type: 'object', properties: { amount: { type: 'string' } } },
+                    annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+                },
+            ],
+        });
+    });
+
+    it('should call adapter functions with host function options', async () => {
+        const client = await createClient(new McpAdapterServer({ adapter, getFunctionOptions }));
+        const response = await client.request('tools/call', { name: 'supply', arguments: { amount: '10' } });
+        expect(response.result).toEqual({ content: [{ type: 'text', text: 'Supplied 10' }], isError: false });
+        expect(getFunctionOptions).toHaveBeenCalledWith({ toolName: 'supply', args: { amount: '10' } });
+        expect(adapter.functions.supply).toHaveBeenCalledWith({ amount: '10' }, functionOptions);
+    });
+
+    it('should report failed and throwing functions as tool errors', async () => {
+        const client = await createClient(new McpAdapterServer({ adapter, getFunctionOptions }));
+        const failed = await client.request('tools/call', { name: 'supply', arguments: { amount: '0' } });
+        expect(failed.result).toEqual({ content: [{ type: 'text', text: 'ERROR: Amount must be positive' }], isError: true });
+
+        vi.mocked(adapter.functions.getPositions).mockRejectedValueOnce(new Error('RPC down'));
+        const thrown = await client.request('tools/call', { name: 'getPositions' });
+        expect(thrown.result).toEqual({ content: [{ type: 'text', text: 'RPC down' }], isError: true });
+    });
+
+    it('should return JSON-RPC errors for unknown tools and methods', async () => {
+        const client = await createClient(new McpAdapterServer({ adapter, getFunctionOptions }));
+        expect((await client.request('tools/call', { name: 'borrow' })).error).toEqual({ code: -32602, message: 'Unknown tool: borrow' });
+        expect((await client.request('resources/list')).error).toEqual({ code: -32601, message: 'Method not found: resources/list' });
+        expect((await client.request('ping')).result).toEqual({});
+    });
+
+    it('should refuse arguments that are not objects', async () => {
+        const client = await createClient(new McpAdapterServer({ adapter, getFunctionOptions }));
+        for (const args of [null, ['10'], '10']) {
+            const response = await client.request('tools/call', { name: 'supply', arguments: args });
+            expect(response.error).toEqual({ code: -32602, message: 'Invalid arguments for tool supply: expected an object' });
+        }
+    });
+
+    it('should report responses that cannot be sent to onError', async () => {
+        const onError = vi.fn();
+        const server = new McpAdapterServer({ adapter, getFunctionOptions, onError });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await server.connect(serverTransport);
+        await clientTransport.start(() => undefined);
+
+        let release!: () => void;
+        vi.mocked(adapter.functions.getPositions).mockImplementationOnce(() => new Promise(resolve => (release = () => resolve(toResult('No positions')))));
+        await clientTransport.send({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'getPositions' } });
+        await vi.waitFor(() => expect(release).toBeDefined());
+
+        await server.close();
+        release();
+        await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(new Error('Transport is closed')));
+    });
+
+    it('should ignore notifications and reject invalid messages', async () => {
+        const server = new McpAdapterServer({ adapter, getFunctionOptions });
+        expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeUndefined();
+        expect(await server.handleMessage({ method: 'ping', id: 1 })).toEqual({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid request' } });
+    });
+
+    it('should stop serving after close', async () => {
+        const server = new McpAdapterServer({ adapter, getFunctionOptions });
+        const client = await createClient(server);
+        await server.close();
+        await expect(client.transport.send({ jsonrpc: '2.0', id: 1, method: 'ping' })).rejects.toThrow('Transport is closed');
+    });
+});
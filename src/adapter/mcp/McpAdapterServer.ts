@@ -0,0 +1,188 @@
+import { AdapterExport, FunctionOptions, FunctionReturn } from '../types';
+import { McpTool, toMcpTools } from '../tools';
+import { JsonRpcErrorCode, JsonRpcId, JsonRpcRequest, JsonRpcResponse, McpTransport } from './types';
+
+/**
+ * MCP protocol versions the server can speak, newest first
+ */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * Tool call the function options are created for
+ * @interface McpToolCallContext
+ */
+export interface McpToolCallContext {
+    /** Called tool (adapter function) name */
+    readonly toolName: string;
+    /** Arguments sent by the client */
+    readonly args: unknown;
+}
+
+/**
+ * Options of the MCP adapter server
+ * @interface McpAdapterServerOptions
+ */
+export interface McpAdapterServerOptions {
+    /** Adapter to expose */
+    readonly adapter: AdapterExport;
+    /** Host-provided factory of function options for each tool call */
+    readonly getFunctionOptions: (context: McpToolCallContext) => FunctionOptions | Promise<FunctionOptions>;
+    /** Server name reported to clients (default: adapter name) */
+    readonly name?: string;
+    /** Server version reported to clients (default: '1.0.0') */
+    readonly version?: string;
+    /** Called when a response cannot be sent, e.g. the transport was closed (default: the error is dropped) */
+    readonly onError?: (error: unknown) => void;
+}
+
+/**
+ * Result of an MCP `tools/call` request
+ * @interface McpCallToolResult
+ */
+export interface McpCallToolResult {
+    readonly content: { readonly type: 'text'; readonly text: string }[];
+    readonly isError: boolean;
+}
+
+class McpRequestError extends Error {
+    public readonly code: JsonRpcErrorCode;
+
+    constructor(code: JsonRpcErrorCode, message: string) {
+        super(message);
+        this.name = 'McpRequestError';
+        this.code = code;
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Model Context Protocol server exposing an adapter as MCP tools
+ * @description Serves `tools/list` from `adapter.tools` and handles `tools/call` by invoking `adapter.functions`.
+ * Executable functions are annotated as destructive, all other functions as read-only.
+ * @example
+ * ```typescript
+ * const server = new McpAdapterServer({
+ *   adapter,
+ *   getFunctionOptions: async ({ toolName }) => createHostFunctionOptions(toolName)
+ * });
+ * await server.connect(new StdioTransport());
+ * ```
+ */
+export class McpAdapterServer {
+    private readonly options: McpAdapterServerOptions;
+    private readonly tools: McpTool[];
+    private transport?: McpTransport;
+
+    constructor(options: McpAdapterServerOptions) {
+        const { adapter } = options;
+        this.options = options;
+        this.tools = toMcpTools(adapter.tools).tools.map(tool => {
+            const executable = adapter.executableFunctions.includes(tool.name);
+            return { ...tool, annotations: { readOnlyHint: !executable, destructiveHint: executable, openWorldHint: true } };
+        });
+    }
+
+    /**
+     * Starts serving requests received over a transport
+     * @param transport - Transport connected to the MCP client
+     */
+    async connect(transport: McpTransport): Promise<void> {
+        this.transport = transport;
+        await transport.start(message => {
+            void this.handleMessage(message)
+                .then(response => (response ? transport.send(response) : undefined))
+                .catch(error => this.options.onError?.(error));
+        });
+    }
+
+    /**
+     * Stops serving requests
+     */
+    async close(): Promise<void> {
+        await this.transport?.close();
+        this.transport = undefined;
+    }
+
+    /**
+     * Handles a single incoming JSON-RPC message
+     * @param message - Parsed message
+     * @returns Response to send back, or undefined for notifications and responses
+     */
+    async handleMessage(message: unknown): Promise<JsonRpcResponse | undefined> {
+        if (!isRecord(message) || message.jsonrpc !== '2.0') {
+            return this.toError(null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid request');
+        }
+        if (typeof message.method !== 'string') {
+            // Responses to server-initiated requests are not used
+            return undefined;
+        }
+
+        const request = (message as unknown) as JsonRpcRequest;
+        const id = request.id;
+
+        try {
+            const result = await this.handleRequest(request);
+            return id === undefined ? undefined : { jsonrpc: '2.0', id, result };
+        } catch (error) {
+            if (id === undefined) return undefined;
+            if (error instanceof McpRequestError) {
+                return this.toError(id, error.code, error.message);
+            }
+            return this.toError(id, JsonRpcErrorCode.INTERNAL_ERROR, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    private async handleRequest(request: JsonRpcRequest): Promise<unknown> {
+        const params = request.params ?? {};
+
+        switch (request.method) {
+            case 'initialize': {
+                const requested = params.protocolVersion;
+                return {
+                    protocolVersion: typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0],
+                    capabilities: { tools: { listChanged: false } },
+                    serverInfo: { name: this.options.name ?? this.options.adapter.name, version: this.options.version ?? '1.0.0' },
+                    instructions: this.options.adapter.description,
+                };
+            }
+            case 'ping':
+                return {};
+            case 'tools/list':
+                return { tools: this.tools };
+            case 'tools/call':
+                return this.callTool(params);
+            default:
+                if (request.method.startsWith('notifications/')) return undefined;
+                throw new McpRequestError(JsonRpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+        }
+    }
+
+    private async callTool(params: Record<string, unknown>): Promise<McpCallToolResult> {
+        const { name, arguments: args = {} } = params;
+        const { adapter, getFunctionOptions } = this.options;
+
+        if (typeof name !== 'string' || !this.tools.some(tool => tool.name === name) || !Object.prototype.hasOwnProperty.call(adapter.functions, name)) {
+            throw new McpRequestError(JsonRpcErrorCode.INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+        }
+        if (!isRecord(args)) {
+            throw new McpRequestError(JsonRpcErrorCode.INVALID_PARAMS, `Invalid arguments for tool ${name}: expected an object`);
+        }
+
+        let result: FunctionReturn;
+        try {
+            const options = await getFunctionOptions({ toolName: name, args });
+            result = await adapter.functions[name](args, options);
+        } catch (error) {
+            return { content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }], isError: true };
+        }
+
+        return { content: [{ type: 'text', text: result.data }], isError: !result.success };
+    }
+
+    private toError(id: JsonRpcId | null, code: JsonRpcErrorCode, message: string): JsonRpcResponse {
+        return { jsonrpc: '2.0', id, error: { code, message } };
+    }
+}
@@ -0,0 +1,36 @@
+import { PassThrough } from 'stream';
+import { StdioTransport } from './StdioTransport';
+
+describe('StdioTransport', () => {
+    it('should read newline-delimited messages across chunks', async () => {
+        const input = new PassThrough();
+        const output = new PassThrough();
+        const transport = new StdioTransport(input, output);
+        const messages: unknown[] = [];
+        await transport.start(message => messages.push(message));
+
+        input.write('{"jsonrpc":"2.0","id":1,');
+        input.write('"method":"ping"}\n\n{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(messages).toEqual([
+            { jsonrpc: '2.0', id: 1, method: 'ping' },
+            { jsonrpc: '2.0', method: 'notifications/initialized' },
+        ]);
+        await transport.close();
+    });
+
+    it('should write messages as lines and answer parse errors', async () => {
+        const input = new PassThrough();
+        const output = new PassThrough();
+        const transport = new StdioTransport(input, output);
+        await transport.start(() => undefined);
+
+        await transport.send({ jsonrpc: '2.0', id: 1, result: {} });
+        input.write('not json\n');
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(output.read().toString()).toBe('{"jsonrpc":"2.0","id":1,"result":{}}\n{"jsonrpc":"2.0","id":null,"error":{"code":-32700,"message":"Parse error"}}\n');
+        await transport.close();
+    });
+});
@@ -0,0 +1,63 @@
+import { JsonRpcErrorCode, JsonRpcMessage, McpTransport } from './types';
+
+/**
+ * MCP transport over the process standard input and output
+ * @description Messages are newline-delimited JSON. Lines that are not valid JSON are answered with a parse error.
+ * @example
+ * ```typescript
+ * // bin/mcp.ts
+ * const server = new McpAdapterServer({ adapter, getFunctionOptions });
+ * await server.connect(new StdioTransport());
+ * ```
+ */
+export class StdioTransport implements McpTransport {
+    private buffer = '';
+    private readonly input: NodeJS.ReadableStream;
+    private readonly output: NodeJS.WritableStream;
+    private onData?: (chunk: Buffer | string) => void;
+
+    /**
+     * @param input - Stream to read messages from (default: process.stdin)
+     * @param output - Stream to write messages to (default: process.stdout)
+     */
+    constructor(input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout) {
+        this.input = input;
+        this.output = output;
+    }
+
+    async start(onMessage: (message: unknown) => void): Promise<void> {
+        this.onData = chunk => {
+            this.buffer += chunk.toString();
+            let index: number;
+            while ((index = this.buffer.indexOf('\n')) >= 0) {
+                const line = this.buffer.slice(0, index).trim();
+                this.buffer = this.buffer.slice(index + 1);
+                if (!line) continue;
+
+                let message: unknown;
+                try {
+                    message = JSON.parse(line);
+                } catch (_error) {
+                    // A failed write of the parse error leaves nobody to report it to
+                    this.send({ jsonrpc: '2.0', id: null, error: { code: JsonRpcErrorCode.PARSE_ERROR, message: 'Parse error' } }).catch(() => undefined);
+                    continue;
+                }
+                onMessage(message);
+            }
+        };
+        this.input.on('data', this.onData);
+    }
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        await new Promise<void>((resolve, reject) => {
+            this.output.write(`${JSON.stringify(message)}\n`, error => (error ? reject(error) : resolve()));
+        });
+    }
+
+    async close(): Promise<void> {
+        if (this.onData) {
+            this.input.removeListener('data', this.onData);
+            this.onData = undefined;
+        }
+    }
+}
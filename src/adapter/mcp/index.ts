@@ -0,0 +1,4 @@
+export * from './types';
+export * from './InMemoryTransport';
+export * from './StdioTransport';
+export * from './McpAdapterServer';
@@ -0,0 +1,66 @@
+/**
+ * JSON-RPC 2.0 request identifier
+ */
+export type JsonRpcId = string | number;
+
+/**
+ * JSON-RPC 2.0 request (with id) or notification (without id)
+ * @interface JsonRpcRequest
+ */
+export interface JsonRpcRequest {
+    readonly jsonrpc: '2.0';
+    readonly id?: JsonRpcId;
+    readonly method: string;
+    readonly params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC 2.0 error object
+ * @interface JsonRpcError
+ */
+export interface JsonRpcError {
+    readonly code: number;
+    readonly message: string;
+    readonly data?: unknown;
+}
+
+/**
+ * JSON-RPC 2.0 response
+ * @interface JsonRpcResponse
+ */
+export interface JsonRpcResponse {
+    readonly jsonrpc: '2.0';
+    readonly id: JsonRpcId | null;
+    readonly result?: unknown;
+    readonly error?: JsonRpcError;
+}
+
+/**
+ * Any JSON-RPC 2.0 message
+ */
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse;
+
+/**
+ * Standard JSON-RPC 2.0 error codes
+ * @enum JsonRpcErrorCode
+ */
+export enum JsonRpcErrorCode {
+    PARSE_ERROR = -32700,
+    INVALID_REQUEST = -32600,
+    METHOD_NOT_FOUND = -32601,
+    INVALID_PARAMS = -32602,
+    INTERNAL_ERROR = -32603,
+}
+
+/**
+ * Channel that carries JSON-RPC messages between an MCP client and server
+ * @interface McpTransport
+ */
+export interface McpTransport {
+    /** Starts delivering incoming messages to the handler */
+    start(onMessage: (message: unknown) => void): Promise<void>;
+    /** Sends a message to the other side */
+    send(message: JsonRpcMessage): Promise<void>;
+    /** Stops the transport */
+    close(): Promise<void>;
+}
@@ -0,0 +1,76 @@
+import { vi } from 'vitest';
+import { applyMiddleware } from './applyMiddleware';
+import { AdapterMiddleware } from './types';
+import { AdapterExport, FunctionOptions } from '../types';
+import { toResult } from '../transformers';
+import { Chain } from '../../blockchain';
+
+describe('applyMiddleware', () => {
+    const adapter: AdapterExport = {
+        name: 'test',
+        description: 'Test adapter',
+        chains: [Chain.ETHEREUM],
+        executableFunctions: ['send'],
+        tools: [],
+        functions: {
+            send: vi.fn(async ({ amount }) => toResult(`Sent ${amount}`)),
+            read: async () => toResult('Balance: 1'),
+        },
+    };
+    const options: FunctionOptions = {};
+
+    it('should keep the adapter shape', () => {
+        const wrapped = applyMiddleware(adapter, []);
+        expect({ ...wrapped, functions: undefined }).toEqual({ ...adapter, functions: undefined });
+        expect(Object.keys(wrapped.functions)).toEqual(['send', 'read']);
+    });
+
+    it('should run middlewares in order around the function', async () => {
+        const order: string[] = [];
+        const track = (name: string): AdapterMiddleware => async (_context, next) => {
+            order.push(`${name}:before`);
+            const result = await next();
+            order.push(`${name}:after`);
+            return result;
+        };
+
+        const result = await applyMiddleware(adapter, [track('outer'), track('inner')]).functions.send({ amount: 1 }, options);
+
+        expect(result).toEqual({ success: true, data: 'Sent 1' });
+        expect(order).toEqual(['outer:before', 'inner:before', 'inner:after', 'outer:after']);
+    });
+
+    it('should pass the call context and let middlewares replace args, options and results', async () => {
+        const replacedOptions: FunctionOptions = { notify: async () => {} };
+        const seen = vi.fn();
+        const wrapped = applyMiddleware(adapter, [
+            async (context, next) => {
+                seen({ functionName: context.functionName, executable: context.executable, args: context.args, options: context.options });
+                context.args = { amount: 2 };
+                context.options = replacedOptions;
+                const result = await next();
+                return { ...result, data: `${result.data}!` };
+            },
+        ]);
+
+        expect(await wrapped.functions.send({ amount: 1 }, options)).toEqual({ success: true, data: 'Sent 2!' });
+        expect(adapter.functions.send).toHaveBeenLastCalledWith({ amount: 2 }, replacedOptions);
+        expect(seen).toHaveBeenCalledWith({ functionName: 'send', executable: true, args: { amount: 1 }, options });
+
+        await wrapped.functions.read({}, options);
+        expect(seen).toHaveBeenLastCalledWith(expect.objectContaining({ functionName: 'read', executable: false }));
+    });
+
+    it('should allow short-circuiting and reject repeated next calls', async () => {
+        const blocked = applyMiddleware(adapter, [async () => toResult('Blocked', true)]);
+        expect(await blocked.functions.read({}, options)).toEqual({ success: false, data: 'ERROR: Blocked' });
+
+        const twice = applyMiddleware(adapter, [
+            async (_context, next) => {
+                await next();
+                return next();
+            },
+        ]);
+        await expect(twice.functions.read({}, options)).rejects.toThrow('next() called multiple times in middleware 0 of read');
+    });
+});
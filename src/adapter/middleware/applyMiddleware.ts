@@ -0,0 +1,57 @@
+import { AdapterExport, FunctionOptions, FunctionReturn } from '../types';
+import { AdapterMiddleware, AdapterMiddlewareContext } from './types';
+
+/**
+ * Wraps every adapter function with a middleware chain
+ * @param adapter - Adapter to wrap
+ * @param middlewares - Middlewares, the first one is the outermost
+ * @returns Adapter with the same tools and metadata and wrapped functions
+ * @example
+ * ```typescript
+ * const adapter = applyMiddleware(aaveAdapter, [
+ *   captureErrors(),
+ *   redactArgs(['password']),
+ *   timing(({ functionName, args, durationMs }) => logger.info(functionName, args, durationMs)),
+ *   async (context, next) => {
+ *     context.options = withDryRun(context.options);
+ *     return next();
+ *   }
+ * ]);
+ * ```
+ */
+export function applyMiddleware(adapter: AdapterExport, middlewares: AdapterMiddleware[]): AdapterExport {
+    const functions = Object.fromEntries(
+        Object.entries(adapter.functions).map(([functionName, fn]) => {
+            const wrapped = async (args: any, options: FunctionOptions): Promise<FunctionReturn> => {
+                const context: AdapterMiddlewareContext = {
+                    adapter,
+                    functionName,
+                    executable: adapter.executableFunctions.includes(functionName),
+                    args,
+                    options,
+                    loggableArgs: args,
+                };
+
+                const run = async (index: number): Promise<FunctionReturn> => {
+                    if (index === middlewares.length) {
+                        return fn(context.args, context.options);
+                    }
+
+                    let called = false;
+                    return middlewares[index](context, () => {
+                        if (called) {
+                            return Promise.reject(new Error(`next() called multiple times in middleware ${index} of ${functionName}`));
+                        }
+                        called = true;
+                        return run(index + 1);
+                    });
+                };
+
+                return run(0);
+            };
+            return [functionName, wrapped];
+        }),
+    );
+
+    return { ...adapter, functions };
+}
@@ -0,0 +1,40 @@
+import { vi } from 'vitest';
+import { captureErrors } from './captureErrors';
+import { applyMiddleware } from './applyMiddleware';
+import { AdapterExport, FunctionErrorCode } from '../types';
+import { ErrorReason, toResult } from '../transformers';
+import { Chain } from '../../blockchain';
+
+describe('captureErrors', () => {
+    const adapter: AdapterExport = {
+        name: 'test',
+        description: 'Test adapter',
+        chains: [Chain.ETHEREUM],
+        executableFunctions: [],
+        tools: [],
+        functions: {
+            fail: async () => Promise.reject(new Error('RPC down')),
+            failWithString: async () => Promise.reject('timeout'),
+            succeed: async () => toResult('ok'),
+        },
+    };
+
+    it('should turn thrown errors into error results', async () => {
+        const onError = vi.fn();
+        const { functions } = applyMiddleware(adapter, [captureErrors({ onError })]);
+
+        expect(await functions.fail({}, {})).toEqual({
+            success: false,
+            data: 'ERROR: RPC down',
+            errorCode: FunctionErrorCode.UNKNOWN,
+            payload: { reason: ErrorReason.UNKNOWN, detail: 'RPC down' },
+        });
+        expect(await functions.failWithString({}, {})).toMatchObject({ success: false, data: 'ERROR: timeout', errorCode: FunctionErrorCode.UNKNOWN });
+        expect(onError).toHaveBeenCalledWith(new Error('RPC down'), expect.objectContaining({ functionName: 'fail' }));
+    });
+
+    it('should return results unchanged', async () => {
+        const { functions } = applyMiddleware(adapter, [captureErrors()]);
+        expect(await functions.succeed({}, {})).toEqual({ success: true, data: 'ok' });
+    });
+});
@@ -0,0 +1,31 @@
+import { errorToResult } from '../transformers';
+import { AdapterMiddleware, AdapterMiddlewareContext } from './types';
+
+/**
+ * Options of the error capture middleware
+ * @interface CaptureErrorsOptions
+ */
+export interface CaptureErrorsOptions {
+    /** Called with every captured error, e.g. for reporting */
+    readonly onError?: (error: unknown, context: AdapterMiddlewareContext) => void;
+}
+
+/**
+ * Creates a middleware that turns thrown errors into error results
+ * @param options - Middleware options
+ * @returns Middleware returning `errorToResult(error)` instead of throwing
+ * @example
+ * ```typescript
+ * const adapter = applyMiddleware(myAdapter, [captureErrors({ onError: error => sentry.captureException(error) })]);
+ * ```
+ */
+export function captureErrors(options: CaptureErrorsOptions = {}): AdapterMiddleware {
+    return async (context, next) => {
+        try {
+            return await next();
+        } catch (error) {
+            options.onError?.(error, context);
+            return errorToResult(error);
+        }
+    };
+}
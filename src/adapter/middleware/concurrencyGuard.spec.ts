@@ -0,0 +1,195 @@
+import { vi } from 'vitest';
+import { Address } from 'viem';
+import { concurrencyGuard } from './concurrencyGuard';
+import { applyMiddleware } from './applyMiddleware';
+import { AdapterExport, FunctionErrorCode, FunctionOptions, FunctionReturn } from '../types';
+import { toResult } from '../transformers';
+import { Chain } from '../../blockchain';
+
+describe('concurrencyGuard', () => {
+    const alice: Address = '0x00000000000000000000000000000000000A11cE';
+    const bob: Address = '0x0000000000000000000000000000000000000B0b';
+
+    function deferred() {
+        let resolve!: (result: FunctionReturn) => void;
+        const promise = new Promise<FunctionReturn>(done => {
+            resolve = done;
+        });
+        return { promise, resolve };
+    }
+
+    function createAdapter(swap: () => Promise<FunctionReturn>): AdapterExport {
+        return {
+            name: 'test',
+            description: 'Test adapter',
+            chains: [Chain.BASE],
+            executableFunctions: ['swap'],
+            tools: [],
+            functions: {
+                swap,
+                getPrice: async () => toResult('1.00'),
+                getPools: async () => toResult('[]'),
+            },
+        };
+    }
+
+    function createOptions(userId: string, address: Address): FunctionOptions {
+        return {
+            evm: { getAddress: async () => address, getProvider: vi.fn(), sendTransactions: vi.fn() },
+            user: { getUserId: async () => userId, getUserTokens: async () => [], addUserToken: async token => token },
+        };
+    }
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should run executable functions of the same user and wallet one at a time', async () => {
+        const first = deferred();
+        const swap = vi
+            .fn()
+            .mockReturnValueOnce(first.promise)
+            .mockResolvedValueOnce(toResult('second'));
+        const { functions } = applyMiddleware(createAdapter(swap), [concurrencyGuard()]);
+        const options = createOptions('alice', alice);
+
+        const firstCall = functions.swap({}, options);
+        const secondCall = functions.swap({}, options);
+        await vi.waitFor(() => expect(swap).toHaveBeenCalledTimes(1));
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(swap).toHaveBeenCalledTimes(1);
+
+        first.resolve(toResult('first'));
+        expect(await firstCall).toEqual(toResult('first'));
+        expect(await secondCall).toEqual(toResult('second'));
+        expect(swap).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run calls of other users and wallets in parallel', async () => {
+        const pending = deferred();
+        const swap = vi.fn(() => pending.promise);
+        const { functions } = applyMiddleware(createAdapter(swap), [concurrencyGuard()]);
+
+        const calls = [functions.swap({}, createOptions('alice', alice)), functions.swap({}, createOptions('bob', bob)), functions.swap({}, createOptions('alice', bob))];
+        await vi.waitFor(() => expect(swap).toHaveBeenCalledTimes(3));
+
+        pending.resolve(toResult('done'));
+        await Promise.all(calls);
+    });
+
+    it('should release the lock when the function throws', async () => {
+        const swap = vi
+            .fn()
+            .mockRejectedValueOnce(new Error('reverted'))
+            .mockResolvedValueOnce(toResult('ok'));
+        const { functions } = applyMiddleware(createAdapter(swap), [concurrencyGuard()]);
+        const options = createOptions('alice', alice);
+
+        const results = await Promise.allSettled([functions.swap({}, options), functions.swap({}, options)]);
+        expect(results[0]).toMatchObject({ status: 'rejected', reason: new Error('reverted') });
+        expect(results[1]).toEqual({ status: 'fulfilled', value: toResult('ok') });
+    });
+
+    it('should refuse calls waiting longer than maxWaitMs', async () => {
+        vi.useFakeTimers();
+        const pending = deferred();
+        const swap = vi.fn(() => pending.promise);
+        const { functions } = applyMiddleware(createAdapter(swap), [concurrencyGuard({ maxWaitMs: 1_000 })]);
+        const options = createOptions('alice', alice);
+
+        const firstCall = functions.swap({}, options);
+        const secondCall = functions.swap({}, options);
+        await vi.advanceTimersByTimeAsync(1_000);
+
+        expect(await secondCall).toEqual(toResult('swap is refused, another operation of this wallet is still running, retry later', { errorCode: FunctionErrorCode.THROTTLED }));
+        expect(swap).toHaveBeenCalledTimes(1);
+
+        pending.resolve(toResult('done'));
+        expect(await firstCall).toEqual(toResult('done'));
+    });
+
+    it('should refuse calls beyond maxQueued', async () => {
+        const pending = deferred();
+        const swap = vi.fn(() => pending.promise);
+        const { functions } = applyMiddleware(createAdapter(swap), [concurrencyGuard({ maxQueued: 1 })]);
+        const options = createOptions('alice', alice);
+
+        const calls = [functions.swap({}, options), functions.swap({}, options)];
+        await vi.waitFor(() => expect(swap).toHaveBeenCalledTimes(1));
+
+        expect(await functions.swap({}, options)).toEqual(
+            toResult('swap is refused, too many operations of this wallet are waiting, retry later', { errorCode: FunctionErrorCode.THROTTLED }),
+        );
+
+        pending.resolve(toResult('done'));
+        await Promise.all(calls);
+        expect(swap).toHaveBeenCalledTimes(2);
+    });
+
+    it('should rate limit read functions per user and function', async () => {
+        vi.useFakeTimers();
+        const { functions } = applyMiddleware(createAdapter(vi.fn()), [
+            concurrencyGuard({ readRateLimit: { limit: 2, windowMs: 10_000 }, functionRateLimits: { getPools: { limit: 1, windowMs: 10_000 } } }),
+        ]);
+        const options = createOptions('alice', alice);
+
+        expect(await functions.getPrice({}, options)).toEqual(toResult('1.00'));
+        vi.advanceTimersByTime(4_000);
+        expect(await functions.getPrice({}, options)).toEqual(toResult('1.00'));
+        expect(await functions.getPrice({}, options)).toEqual(
+            toResult('Rate limit of getPrice exceeded (2 calls per 10s), retry in 6s', { errorCode: FunctionErrorCode.THROTTLED }),
+        );
+
+        expect(await functions.getPrice({}, createOptions('bob', bob))).toEqual(toResult('1.00'));
+        expect(await functions.getPools({}, options)).toEqual(toResult('[]'));
+        expect(await functions.getPools({}, options)).toMatchObject({ success: false, errorCode: FunctionErrorCode.THROTTLED });
+
+        vi.advanceTimersByTime(6_000);
+        expect(await functions.getPrice({}, options)).toEqual(toResult('1.00'));
+    });
+
+    it('should rate limit read functions of each adapter sharing the guard separately', async () => {
+        const guard = concurrencyGuard({ readRateLimit: { limit: 1, windowMs: 10_000 } });
+        const first = applyMiddleware(createAdapter(vi.fn()), [guard]);
+        const second = applyMiddleware({ ...createAdapter(vi.fn()), name: 'other' }, [guard]);
+        const options = createOptions('alice', alice);
+
+        expect(await first.functions.getPrice({}, options)).toEqual(toResult('1.00'));
+        expect(await second.functions.getPrice({}, options)).toEqual(toResult('1.00'));
+        expect(await first.functions.getPrice({}, options)).toMatchObject({ errorCode: FunctionErrorCode.THROTTLED });
+    });
+
+    it('should not rate limit executable functions', async () => {
+        const swap = vi.fn(async () => toResult('swapped'));
+        const { functions } = applyMiddleware(createAdapter(swap), [
+            concurrencyGuard({ readRateLimit: { limit: 1, windowMs: 10_000 }, functionRateLimits: { swap: { limit: 1, windowMs: 10_000 } } }),
+        ]);
+        const options = createOptions('alice', alice);
+
+        expect(await functions.swap({}, options)).toEqual(toResult('swapped'));
+        expect(await functions.swap({}, options)).toEqual(toResult('swapped'));
+    });
+
+    it('should keep active windows when expired ones are dropped', async () => {
+        vi.useFakeTimers();
+        const { functions } = applyMiddleware(createAdapter(vi.fn()), [concurrencyGuard({ readRateLimit: { limit: 1, windowMs: 10_000 } })]);
+
+        await functions.getPrice({}, createOptions('bob', bob));
+        vi.advanceTimersByTime(10_000);
+        await functions.getPrice({}, createOptions('alice', alice));
+        vi.advanceTimersByTime(5_000);
+
+        expect(await functions.getPrice({}, createOptions('bob', bob))).toEqual(toResult('1.00'));
+        vi.advanceTimersByTime(5_000);
+        expect(await functions.getPrice({}, createOptions('carol', alice))).toEqual(toResult('1.00'));
+        expect(await functions.getPrice({}, createOptions('bob', bob))).toMatchObject({ errorCode: FunctionErrorCode.THROTTLED });
+    });
+
+    it('should not limit read functions without a rate limit', async () => {
+        const { functions } = applyMiddleware(createAdapter(vi.fn()), [concurrencyGuard()]);
+
+        for (let i = 0; i < 20; i++) {
+            expect(await functions.getPrice({}, {})).toEqual(toResult('1.00'));
+        }
+    });
+});
@@ -0,0 +1,161 @@
+import { FunctionErrorCode, FunctionOptions, FunctionReturn } from '../types';
+import { toResult } from '../transformers';
+import { AdapterMiddleware } from './types';
+import { getWalletKey } from './getWalletKey';
+
+/**
+ * Maximum number of calls within a time window
+ * @interface RateLimit
+ */
+export interface RateLimit {
+    /** Allowed calls per window */
+    readonly limit: number;
+    /** Window length in milliseconds */
+    readonly windowMs: number;
+}
+
+/**
+ * Options of the concurrency guard middleware
+ * @interface ConcurrencyGuardOptions
+ */
+export interface ConcurrencyGuardOptions {
+    /** How long an executable call waits for the running one of the same user and wallets (default: 120000) */
+    readonly maxWaitMs?: number;
+    /** How many executable calls may wait behind the running one of the same user and wallets (default: 3) */
+    readonly maxQueued?: number;
+    /** Rate limit of read functions per user, adapter and function, no limit when omitted */
+    readonly readRateLimit?: RateLimit;
+    /** Rate limits of specific read functions by function name in every adapter, overriding `readRateLimit`, executable functions are never rate limited */
+    readonly functionRateLimits?: Record<string, RateLimit>;
+}
+
+/**
+ * Recent read calls of one user to one adapter function
+ */
+interface CallWindow {
+    times: number[];
+    windowMs: number;
+}
+
+/**
+ * Executable calls of one user and wallet set, the running one included
+ */
+interface Lane {
+    pending: number;
+    tail: Promise<void>;
+}
+
+const ANONYMOUS_USER = 'anonymous';
+
+async function getUserId(options: FunctionOptions): Promise<string> {
+    return (await options.user?.getUserId()) ?? ANONYMOUS_USER;
+}
+
+function throttled(message: string): FunctionReturn {
+    return toResult(message, { errorCode: FunctionErrorCode.THROTTLED });
+}
+
+/**
+ * Resolves to false when the promise does not settle in time
+ */
+async function waitFor(promise: Promise<void>, timeoutMs: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    try {
+        return await Promise.race([promise.then(() => true), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Creates a middleware that serializes executable functions and rate limits read functions per user
+ * @param options - Middleware options
+ * @returns Middleware returning a `THROTTLED` result instead of running refused calls
+ * @description Executable functions of the same user (`options.user.getUserId()`, calls without a user share one key) and the same
+ * wallets run one at a time, so parallel calls of an agent loop cannot reuse nonces or spend the same balance twice. A call waits for
+ * the running one for at most `maxWaitMs`, and at most `maxQueued` calls wait at once. Read functions are limited per user, adapter
+ * and function name with a sliding window, executable functions are only serialized. The guard keeps its state in memory, create one per process and apply it to every adapter sharing wallets.
+ * @example
+ * ```typescript
+ * const guard = concurrencyGuard({ maxWaitMs: 30_000, readRateLimit: { limit: 20, windowMs: 60_000 } });
+ * const adapters = [aaveAdapter, uniswapAdapter].map(adapter => applyMiddleware(adapter, [guard]));
+ *
+ * // Second parallel swap waits for the first one, or returns
+ * // { success: false, data: 'ERROR: swap is refused, another operation of this wallet is still running, retry later', errorCode: 'THROTTLED' }
+ * ```
+ */
+export function concurrencyGuard(options: ConcurrencyGuardOptions = {}): AdapterMiddleware {
+    const { maxWaitMs = 120_000, maxQueued = 3, readRateLimit, functionRateLimits = {} } = options;
+    const lanes = new Map<string, Lane>();
+    const calls = new Map<string, CallWindow>();
+    let lastSweepAt = 0;
+
+    // Users and functions that stopped calling are never checked again, their windows are dropped once expired
+    const sweep = (now: number, intervalMs: number) => {
+        if (now - lastSweepAt < intervalMs) return;
+        lastSweepAt = now;
+        calls.forEach(({ times, windowMs }, key) => {
+            if (times[times.length - 1] <= now - windowMs) calls.delete(key);
+        });
+    };
+
+    const runExclusive = async (key: string, functionName: string, next: () => Promise<FunctionReturn>): Promise<FunctionReturn> => {
+        const lane = lanes.get(key) ?? { pending: 0, tail: Promise.resolve() };
+        if (lane.pending > maxQueued) {
+            return throttled(`${functionName} is refused, too many operations of this wallet are waiting, retry later`);
+        }
+
+        let release!: () => void;
+        const current = new Promise<void>(resolve => {
+            release = resolve;
+        });
+        const previous = lane.tail;
+        lane.pending++;
+        lane.tail = previous.then(() => current);
+        lanes.set(key, lane);
+
+        try {
+            if (!(await waitFor(previous, maxWaitMs))) {
+                return throttled(`${functionName} is refused, another operation of this wallet is still running, retry later`);
+            }
+            return await next();
+        } finally {
+            release();
+            if (--lane.pending === 0) lanes.delete(key);
+        }
+    };
+
+    const checkRateLimit = (key: string, functionName: string): FunctionReturn | undefined => {
+        const rateLimit = functionRateLimits[functionName] ?? readRateLimit;
+        if (!rateLimit) return undefined;
+
+        const now = Date.now();
+        sweep(now, rateLimit.windowMs);
+
+        const recent = (calls.get(key)?.times ?? []).filter(time => time > now - rateLimit.windowMs);
+        if (recent.length >= rateLimit.limit) {
+            calls.set(key, { times: recent, windowMs: rateLimit.windowMs });
+            const retryInSeconds = Math.ceil((recent[0] + rateLimit.windowMs - now) / 1000);
+            return throttled(`Rate limit of ${functionName} exceeded (${rateLimit.limit} calls per ${rateLimit.windowMs / 1000}s), retry in ${retryInSeconds}s`);
+        }
+
+        recent.push(now);
+        calls.set(key, { times: recent, windowMs: rateLimit.windowMs });
+        return undefined;
+    };
+
+    return async (context, next) => {
+        const userId = await getUserId(context.options);
+
+        if (context.executable) {
+            return runExclusive(`${userId}:${await getWalletKey(context.options)}`, context.functionName, next);
+        }
+
+        const refused = checkRateLimit(`${userId}:${context.adapter.name}:${context.functionName}`, context.functionName);
+        return refused ?? next();
+    };
+}
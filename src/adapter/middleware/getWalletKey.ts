@@ -0,0 +1,20 @@
+import { FunctionOptions } from '../types';
+
+/**
+ * Returns the connected wallet addresses of a call, comma-separated in EVM, Solana, TON order.
+ * Wallets that are missing or fail to return their address are skipped.
+ */
+export async function getWalletKey(options: FunctionOptions): Promise<string> {
+    const addresses = await Promise.all([
+        options.evm?.getAddress().catch(() => undefined),
+        options.solana
+            ?.getPublicKey()
+            .then(publicKey => publicKey.toBase58())
+            .catch(() => undefined),
+        options.ton
+            ?.getAddress()
+            .then(address => address.toRawString())
+            .catch(() => undefined),
+    ]);
+    return addresses.filter(Boolean).join(',');
+}
@@ -0,0 +1,6 @@
+export * from './types';
+export * from './applyMiddleware';
+export * from './captureErrors';
+export * from './timing';
+export * from './redactArgs';
+export * from './concurrencyGuard';
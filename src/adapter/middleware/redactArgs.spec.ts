@@ -0,0 +1,39 @@
+import { vi } from 'vitest';
+import { redactArgs } from './redactArgs';
+import { timing } from './timing';
+import { applyMiddleware } from './applyMiddleware';
+import { AdapterExport } from '../types';
+import { toResult } from '../transformers';
+import { Chain } from '../../blockchain';
+
+describe('redactArgs', () => {
+    const login = vi.fn(async () => toResult('ok'));
+    const adapter: AdapterExport = {
+        name: 'test',
+        description: 'Test adapter',
+        chains: [Chain.ETHEREUM],
+        executableFunctions: [],
+        tools: [],
+        functions: { login },
+    };
+    const args = { user: 'alice', password: 'hunter2', wallets: [{ address: '0x1', PrivateKey: '0xabc' }] };
+
+    it('should redact loggable args at any depth and keep the function args', async () => {
+        const onTiming = vi.fn();
+        const { functions } = applyMiddleware(adapter, [redactArgs(), timing(onTiming)]);
+
+        await functions.login(args, {});
+
+        expect(login).toHaveBeenCalledWith(args, {});
+        expect(onTiming.mock.calls[0][0].args).toEqual({ user: 'alice', password: '[REDACTED]', wallets: [{ address: '0x1', PrivateKey: '[REDACTED]' }] });
+    });
+
+    it('should accept custom keys and replacement', async () => {
+        const onTiming = vi.fn();
+        const { functions } = applyMiddleware(adapter, [redactArgs(['user'], '***'), timing(onTiming)]);
+
+        await functions.login(args, {});
+
+        expect(onTiming.mock.calls[0][0].args).toEqual({ ...args, user: '***' });
+    });
+});
@@ -0,0 +1,36 @@
+import { AdapterMiddleware } from './types';
+
+/**
+ * Argument keys redacted by default
+ */
+export const DEFAULT_REDACTED_KEYS = ['password', 'privateKey', 'secretKey', 'secret', 'mnemonic', 'seedPhrase', 'apiKey'];
+
+function redact(value: unknown, keys: string[], replacement: string): unknown {
+    if (Array.isArray(value)) {
+        return value.map(item => redact(item, keys, replacement));
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, keys.includes(key.toLowerCase()) ? replacement : redact(item, keys, replacement)]));
+    }
+    return value;
+}
+
+/**
+ * Creates a middleware that hides sensitive arguments from logging middlewares
+ * @param keys - Argument keys to redact at any depth, case-insensitive (default: DEFAULT_REDACTED_KEYS)
+ * @param replacement - Value shown instead (default: '[REDACTED]')
+ * @returns Middleware replacing `context.loggableArgs`, the function still receives the original arguments
+ * @description Must come before the logging middlewares in the chain
+ * @example
+ * ```typescript
+ * const adapter = applyMiddleware(myAdapter, [redactArgs([...DEFAULT_REDACTED_KEYS, 'recipient']), timing(logTiming)]);
+ * ```
+ */
+export function redactArgs(keys: string[] = DEFAULT_REDACTED_KEYS, replacement = '[REDACTED]'): AdapterMiddleware {
+    const normalizedKeys = keys.map(key => key.toLowerCase());
+
+    return (context, next) => {
+        context.loggableArgs = redact(context.loggableArgs, normalizedKeys, replacement);
+        return next();
+    };
+}
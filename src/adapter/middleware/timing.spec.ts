@@ -0,0 +1,49 @@
+import { vi } from 'vitest';
+import { timing } from './timing';
+import { applyMiddleware } from './applyMiddleware';
+import { AdapterExport } from '../types';
+import { toResult } from '../transformers';
+import { Chain } from '../../blockchain';
+
+describe('timing', () => {
+    const error = new Error('RPC down');
+    const adapter: AdapterExport = {
+        name: 'test',
+        description: 'Test adapter',
+        chains: [Chain.ETHEREUM],
+        executableFunctions: [],
+        tools: [],
+        functions: {
+            succeed: async () => toResult('ok'),
+            fail: async () => Promise.reject(error),
+        },
+    };
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should report duration, args and result', async () => {
+        vi.useFakeTimers();
+        const onTiming = vi.fn();
+        const { functions } = applyMiddleware(adapter, [
+            timing(onTiming),
+            async (_context, next) => {
+                vi.advanceTimersByTime(250);
+                return next();
+            },
+        ]);
+
+        await functions.succeed({ amount: '1' }, {});
+
+        expect(onTiming).toHaveBeenCalledWith({ functionName: 'succeed', args: { amount: '1' }, durationMs: 250, result: { success: true, data: 'ok' } });
+    });
+
+    it('should report and rethrow errors', async () => {
+        const onTiming = vi.fn();
+        const { functions } = applyMiddleware(adapter, [timing(onTiming)]);
+
+        await expect(functions.fail({}, {})).rejects.toBe(error);
+        expect(onTiming).toHaveBeenCalledWith(expect.objectContaining({ functionName: 'fail', error }));
+    });
+});
@@ -0,0 +1,47 @@
+import { FunctionReturn } from '../types';
+import { AdapterMiddleware } from './types';
+
+/**
+ * Timing of a finished adapter function call
+ * @interface TimingEvent
+ */
+export interface TimingEvent {
+    /** Called function name */
+    readonly functionName: string;
+    /** Loggable arguments (see `redactArgs`) */
+    readonly args: unknown;
+    /** Call duration in milliseconds */
+    readonly durationMs: number;
+    /** Result, when the function returned */
+    readonly result?: FunctionReturn;
+    /** Thrown error, when the function threw */
+    readonly error?: unknown;
+}
+
+/**
+ * Creates a middleware that measures adapter function calls
+ * @param onTiming - Called after every call, also when the function throws
+ * @returns Middleware
+ * @example
+ * ```typescript
+ * const adapter = applyMiddleware(myAdapter, [
+ *   timing(({ functionName, durationMs, result }) => console.log(`${functionName}: ${durationMs}ms, success: ${result?.success}`))
+ * ]);
+ * ```
+ */
+export function timing(onTiming: (event: TimingEvent) => void): AdapterMiddleware {
+    return async (context, next) => {
+        const start = Date.now();
+        const report = (outcome: Pick<TimingEvent, 'result' | 'error'>) =>
+            onTiming({ functionName: context.functionName, args: context.loggableArgs, durationMs: Date.now() - start, ...outcome });
+
+        try {
+            const result = await next();
+            report({ result });
+            return result;
+        } catch (error) {
+            report({ error });
+            throw error;
+        }
+    };
+}
@@ -0,0 +1,29 @@
+import { AdapterExport, FunctionOptions, FunctionReturn } from '../types';
+
+/**
+ * State of a single adapter function call passed through the middleware chain
+ * @interface AdapterMiddlewareContext
+ * @description `args` and `options` may be replaced by a middleware before calling `next`, the function receives the final values
+ */
+export interface AdapterMiddlewareContext {
+    /** Wrapped adapter (as passed to `applyMiddleware`) */
+    readonly adapter: AdapterExport;
+    /** Called function name */
+    readonly functionName: string;
+    /** Whether the function is listed in `adapter.executableFunctions` */
+    readonly executable: boolean;
+    /** Arguments passed to the function */
+    args: any;
+    /** Function options passed to the function */
+    options: FunctionOptions;
+    /** Arguments safe to log (see `redactArgs`), initially the same as `args` */
+    loggableArgs: unknown;
+}
+
+/**
+ * Adapter function middleware
+ * @param context - Call state
+ * @param next - Runs the rest of the chain and the function itself
+ * @returns Result of the call, returned as is or changed
+ */
+export type AdapterMiddleware = (context: AdapterMiddlewareContext, next: () => Promise<FunctionReturn>) => Promise<FunctionReturn>;
@@ -0,0 +1,77 @@
+import { vi } from 'vitest';
+import { formatProgressUpdate, ProgressReporter } from './ProgressReporter';
+import { MessagesReleaser } from '../../utils';
+
+describe('ProgressReporter', () => {
+    it('should send structured updates to notifyProgress', async () => {
+        const notifyProgress = vi.fn(async () => {});
+        const notify = vi.fn(async () => {});
+        const progress = new ProgressReporter({ notifyProgress, notify }, { totalSteps: 3, operationId: 'op-1' });
+
+        await progress.pending(1, 'Approving USDC');
+        await progress.success(1, 'Approved USDC', 'https://basescan.org/tx/0x01');
+        await progress.failed(2, 'Swap failed');
+
+        expect(notifyProgress.mock.calls).toEqual([
+            [{ operationId: 'op-1', step: 1, totalSteps: 3, status: 'pending', message: 'Approving USDC' }],
+            [{ operationId: 'op-1', step: 1, totalSteps: 3, status: 'success', message: 'Approved USDC', txLink: 'https://basescan.org/tx/0x01' }],
+            [{ operationId: 'op-1', step: 2, totalSteps: 3, status: 'failed', message: 'Swap failed' }],
+        ]);
+        expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to notify messages', async () => {
+        const notify = vi.fn(async () => {});
+        const progress = new ProgressReporter({ notify }, { totalSteps: 2 });
+
+        await progress.success(1, 'Approved USDC', 'https://basescan.org/tx/0x01');
+        await progress.failed(2, 'Swap failed');
+
+        expect(notify.mock.calls).toEqual([
+            ['Step 1/2 done: Approved USDC (https://basescan.org/tx/0x01)', 'regular'],
+            ['Step 2/2 failed: Swap failed', 'alert'],
+        ]);
+    });
+
+    it('should generate operation ids', () => {
+        const first = new ProgressReporter({}, { totalSteps: 1 });
+        const second = new ProgressReporter({}, { totalSteps: 1 });
+
+        expect(first.operationId).toMatch(/^[0-9a-z]+-[0-9a-z]+$/);
+        expect(first.operationId).not.toBe(second.operationId);
+    });
+
+    it('should not fail without notify callbacks', async () => {
+        await expect(new ProgressReporter({}, { totalSteps: 1 }).success(1, 'Done')).resolves.toBeUndefined();
+    });
+
+    it('should report each step of its steps executor', async () => {
+        const notifyProgress = vi.fn(async () => {});
+        const onFailureFn = vi.fn(async () => {});
+        const releaser = new MessagesReleaser();
+        const executor = new ProgressReporter({ notifyProgress }, { totalSteps: 2, operationId: 'op-1' }).createStepsExecutor({
+            releaser,
+            onFailureFn,
+            getTxLink: result => `https://basescan.org/tx/${result}`,
+        });
+
+        await executor.executeStep(async () => '0x01', 'Approved USDC', 'Approve failed', 'Approving USDC');
+        await expect(executor.executeStep(async () => Promise.reject(new Error('reverted')), 'Swapped', 'Swap failed')).rejects.toThrow('reverted');
+
+        expect(notifyProgress.mock.calls).toEqual([
+            [{ operationId: 'op-1', step: 1, totalSteps: 2, status: 'pending', message: 'Approving USDC' }],
+            [{ operationId: 'op-1', step: 1, totalSteps: 2, status: 'success', message: 'Approved USDC', txLink: 'https://basescan.org/tx/0x01' }],
+            [{ operationId: 'op-1', step: 2, totalSteps: 2, status: 'failed', message: 'Swap failed' }],
+        ]);
+        expect(onFailureFn).toHaveBeenCalledWith('Swap failed');
+        expect(releaser.release()).toBe('\nApproved USDC');
+    });
+
+    describe('formatProgressUpdate', () => {
+        it('should format pending updates', () => {
+            expect(formatProgressUpdate({ operationId: 'op-1', step: 1, totalSteps: 5, status: 'pending', message: 'Bridging to Arbitrum' })).toBe(
+                'Step 1/5 started: Bridging to Arbitrum',
+            );
+        });
+    });
+});
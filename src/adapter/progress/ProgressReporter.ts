@@ -0,0 +1,124 @@
+import { FunctionOptions, ProgressStatus, ProgressUpdate } from '../types';
+import { MessagesReleaser, OnFailureFn, StepProgressEvent, TryStepsExecutor } from '../../utils';
+
+/**
+ * Configuration of a progress reporter
+ * @interface ProgressReporterConfig
+ */
+export interface ProgressReporterConfig {
+    /** Number of steps of the operation */
+    readonly totalSteps: number;
+    /** Id shared by all updates (default: generated) */
+    readonly operationId?: string;
+}
+
+/**
+ * Options of steps executors created by a progress reporter
+ * @interface ProgressStepsExecutorOptions
+ */
+export interface ProgressStepsExecutorOptions {
+    /** Collects success messages (default: a new `MessagesReleaser`) */
+    readonly releaser?: MessagesReleaser;
+    /** Called with the failure message of a failed step, in addition to the progress update */
+    readonly onFailureFn?: OnFailureFn;
+    /** Returns the explorer link of a step result, e.g. from its transaction hash */
+    readonly getTxLink?: (result: unknown) => string | undefined;
+}
+
+const STATUS_LABELS: Record<ProgressStatus, string> = {
+    pending: 'started',
+    success: 'done',
+    failed: 'failed',
+};
+
+function createOperationId(): string {
+    return `${Date.now().toString(36)}-${Math.random()
+        .toString(36)
+        .slice(2, 10)}`;
+}
+
+/**
+ * Formats a progress update as a `notify` message
+ * @param update - Progress update
+ * @returns Single-line message, e.g. "Step 2/3 done: Swapped 100 USDC (https://basescan.org/tx/0x...)"
+ */
+export function formatProgressUpdate({ step, totalSteps, status, message, txLink }: ProgressUpdate): string {
+    return `Step ${step}/${totalSteps} ${STATUS_LABELS[status]}: ${message}${txLink ? ` (${txLink})` : ''}`;
+}
+
+/**
+ * Sends progress updates of a multi-step operation
+ * @description Updates go to `options.notifyProgress` when the host implements it. Otherwise they are formatted with
+ * `formatProgressUpdate` and sent to `options.notify`, failed steps as alerts. Without either callback updates are dropped.
+ * @example
+ * ```typescript
+ * const progress = new ProgressReporter(options, { totalSteps: 2 });
+ * const releaser = new MessagesReleaser();
+ * const executor = progress.createStepsExecutor({ releaser, getTxLink: result => `https://basescan.org/tx/${result.data[0].hash}` });
+ *
+ * await executor.executeStep(() => options.evm.sendTransactions(approve), 'Approved USDC', 'Approve failed', 'Approving USDC');
+ * await executor.executeStep(() => options.evm.sendTransactions(swap), 'Swapped USDC to ETH', 'Swap failed', 'Swapping USDC to ETH');
+ *
+ * return toResult(`Done${releaser.release()}`);
+ * ```
+ */
+export class ProgressReporter {
+    /** Id shared by all updates of the operation */
+    readonly operationId: string;
+    /** Number of steps of the operation */
+    readonly totalSteps: number;
+
+    /**
+     * @param options - Function options of the running adapter function
+     * @param config - Number of steps and operation id
+     */
+    constructor(private readonly options: FunctionOptions, config: ProgressReporterConfig) {
+        this.operationId = config.operationId ?? createOperationId();
+        this.totalSteps = config.totalSteps;
+    }
+
+    /**
+     * Sends the update of a step
+     * @param step - 1-based step index
+     * @param status - Step status
+     * @param message - Step description
+     * @param txLink - Explorer link of the step transaction
+     */
+    async report(step: number, status: ProgressStatus, message: string, txLink?: string): Promise<void> {
+        const update: ProgressUpdate = { operationId: this.operationId, step, totalSteps: this.totalSteps, status, message, ...(txLink && { txLink }) };
+
+        if (this.options.notifyProgress) {
+            await this.options.notifyProgress(update);
+        } else if (this.options.notify) {
+            await this.options.notify(formatProgressUpdate(update), status === 'failed' ? 'alert' : 'regular');
+        }
+    }
+
+    /** Reports a started step */
+    pending(step: number, message: string): Promise<void> {
+        return this.report(step, 'pending', message);
+    }
+
+    /** Reports a finished step */
+    success(step: number, message: string, txLink?: string): Promise<void> {
+        return this.report(step, 'success', message, txLink);
+    }
+
+    /** Reports a failed step */
+    failed(step: number, message: string): Promise<void> {
+        return this.report(step, 'failed', message);
+    }
+
+    /**
+     * Creates a steps executor reporting each executed step
+     * @param executorOptions - Releaser, failure callback and transaction link builder
+     * @returns Executor whose steps are numbered in execution order
+     */
+    createStepsExecutor(executorOptions: ProgressStepsExecutorOptions = {}): TryStepsExecutor {
+        const { releaser = new MessagesReleaser(), onFailureFn = async () => {}, getTxLink } = executorOptions;
+
+        return new TryStepsExecutor(releaser, onFailureFn, ({ step, status, message, result }: StepProgressEvent) =>
+            this.report(step, status, message, status === 'success' ? getTxLink?.(result) : undefined),
+        );
+    }
+}
@@ -0,0 +1,104 @@
+import { vi } from 'vitest';
+import { AdapterRegistry } from './AdapterRegistry';
+import { AdapterExport, FunctionErrorCode, FunctionOptions } from '../types';
+import { Chain } from '../../blockchain';
+import { toResult } from '../transformers';
+
+function createAdapter(name: string, chains: Chain[], functionNames: string[]): AdapterExport {
+    return {
+        name,
+        description: `${name} adapter`,
+        chains,
+        functions: Object.fromEntries(functionNames.map(functionName => [functionName, vi.fn(async (args: any) => toResult(`${name}.${functionName} ${JSON.stringify(args)}`))])),
+        executableFunctions: functionNames.slice(0, 1),
+        tools: functionNames.map(functionName => ({ type: 'function', function: { name: functionName, parameters: { type: 'object', properties: {} } } })),
+    };
+}
+
+describe('AdapterRegistry', () => {
+    const options = {} as FunctionOptions;
+    const aave = createAdapter('Aave', [Chain.ETHEREUM, Chain.BASE], ['supply', 'getPositions']);
+    const compound = createAdapter('Compound V3', [Chain.ETHEREUM], ['supply']);
+    const jupiter = createAdapter('jupiter', [Chain.SOLANA], ['swap']);
+
+    const createRegistry = () =>
+        new AdapterRegistry()
+            .register(aave)
+            .register(compound)
+            .register(jupiter);
+
+    it('should namespace tool names to avoid collisions', () => {
+        const names = createRegistry()
+            .getTools()
+            .map(tool => tool.type === 'function' && tool.function.name);
+        expect(names).toEqual(['aave__supply', 'aave__getPositions', 'compound_v3__supply', 'jupiter__swap']);
+    });
+
+    it('should not modify the adapter tools', () => {
+        createRegistry().getTools();
+        expect(aave.tools[0].type === 'function' && aave.tools[0].function.name).toBe('supply');
+    });
+
+    it('should filter tools by chain', () => {
+        const registry = createRegistry();
+        expect(registry.getTools([Chain.SOLANA]).map(tool => tool.type === 'function' && tool.function.name)).toEqual(['jupiter__swap']);
+        expect(registry.getTools([Chain.BASE, Chain.SOLANA])).toHaveLength(3);
+        expect(registry.getTools([Chain.TON])).toEqual([]);
+    });
+
+    it('should use a custom namespace', () => {
+        const registry = new AdapterRegistry().register(aave, { namespace: 'aave_v3' });
+        expect(registry.getNamespaces()).toEqual(['aave_v3']);
+        expect(registry.resolve('aave_v3__supply')).toEqual({ namespace: 'aave_v3', adapter: aave, functionName: 'supply', executable: true });
+    });
+
+    it('should reject duplicate and invalid namespaces', () => {
+        const registry = createRegistry();
+        expect(() => registry.register(aave)).toThrow('Adapter namespace "aave" is already registered');
+        expect(() => registry.register(aave, { namespace: 'a__b' })).toThrow('Invalid adapter namespace "a__b"');
+        expect(() => registry.register(aave, { namespace: 'x'.repeat(60) })).toThrow('is longer than 64 characters');
+    });
+
+    it('should resolve tool names', () => {
+        const registry = createRegistry();
+        expect(registry.resolve('aave__getPositions')?.executable).toBe(false);
+        expect(registry.resolve('aave__borrow')).toBeUndefined();
+        expect(registry.resolve('supply')).toBeUndefined();
+        expect(registry.resolve('aave__constructor')).toBeUndefined();
+    });
+
+    it('should dispatch a tool call to the adapter function', async () => {
+        const result = await createRegistry().dispatch('compound_v3__supply', '{"amount":"1"}', options);
+        expect(result).toEqual({ success: true, data: 'Compound V3.supply {"amount":"1"}' });
+        expect(compound.functions.supply).toHaveBeenCalledWith({ amount: '1' }, options);
+    });
+
+    it('should treat empty arguments as an empty object', async () => {
+        const result = await createRegistry().dispatch('jupiter__swap', '', options);
+        expect(result.data).toBe('jupiter.swap {}');
+    });
+
+    it('should return error results instead of throwing', async () => {
+        const registry = createRegistry();
+        expect(await registry.dispatch('aave__borrow', '{}', options)).toEqual({
+            success: false,
+            data: 'ERROR: Unknown tool aave__borrow',
+            errorCode: FunctionErrorCode.INVALID_ARGS,
+        });
+        expect(await registry.dispatch('aave__supply', '{amount', options)).toEqual({
+            success: false,
+            data: 'ERROR: Arguments for aave__supply are not valid JSON',
+            errorCode: FunctionErrorCode.INVALID_ARGS,
+        });
+
+        vi.mocked(aave.functions.supply).mockRejectedValueOnce(new Error('RPC down'));
+        expect(await registry.dispatch('aave__supply', '{}', options)).toEqual({ success: false, data: 'ERROR: RPC down', errorCode: FunctionErrorCode.UNKNOWN });
+    });
+
+    it('should unregister adapters', () => {
+        const registry = createRegistry();
+        expect(registry.unregister('aave')).toBe(true);
+        expect(registry.getAdapter('aave')).toBeUndefined();
+        expect(registry.resolve('aave__supply')).toBeUndefined();
+    });
+});
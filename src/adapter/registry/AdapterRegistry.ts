@@ -0,0 +1,196 @@
+import { OpenAI } from 'openai';
+import { AdapterExport, FunctionErrorCode, FunctionOptions, FunctionReturn } from '../types';
+import { Chain } from '../../blockchain';
+import { getToolName, renameTool } from '../tools';
+import { toResult } from '../transformers';
+
+/**
+ * Separator between the adapter namespace and the function name in a tool name
+ */
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+
+/**
+ * Maximum tool name length accepted by OpenAI
+ */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+const NAMESPACE_PATTERN = /^[a-zA-Z0-9-]+(_[a-zA-Z0-9-]+)*$/;
+
+function toNamespace(adapterName: string): string {
+    return adapterName
+        .toLowerCase()
+        .replace(/[^a-z0-9-]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Options for registering an adapter
+ * @interface RegisterAdapterOptions
+ */
+export interface RegisterAdapterOptions {
+    /** Prefix for the adapter tool names (default: adapter name in lower case with other characters replaced by '_') */
+    readonly namespace?: string;
+}
+
+/**
+ * Adapter function a namespaced tool name points to
+ * @interface ResolvedTool
+ */
+export interface ResolvedTool {
+    /** Namespace the adapter was registered under */
+    readonly namespace: string;
+    /** Registered adapter */
+    readonly adapter: AdapterExport;
+    /** Key in `adapter.functions` */
+    readonly functionName: string;
+    /** Whether the function is listed in `adapter.executableFunctions` */
+    readonly executable: boolean;
+}
+
+/**
+ * Registry of adapters that routes model tool calls to adapter functions
+ * @description Tool names are prefixed with the adapter namespace (e.g. `aave__supply`) so two adapters can expose functions with the same name
+ * @example
+ * ```typescript
+ * const registry = new AdapterRegistry().register(aaveAdapter).register(uniswapAdapter, { namespace: 'uni' });
+ *
+ * const completion = await openai.chat.completions.create({
+ *   model: 'gpt-4o',
+ *   messages,
+ *   tools: registry.getTools([Chain.BASE])
+ * });
+ *
+ * for (const call of completion.choices[0].message.tool_calls ?? []) {
+ *   if (call.type !== 'function') continue;
+ *   const result = await registry.dispatch(call.function.name, call.function.arguments, options);
+ *   messages.push({ role: 'tool', tool_call_id: call.id, content: result.data });
+ * }
+ * ```
+ */
+export class AdapterRegistry {
+    private readonly adapters: Map<string, AdapterExport> = new Map();
+
+    /**
+     * Registers an adapter
+     * @param adapter - Adapter to register
+     * @param options - Registration options
+     * @returns The registry, for chaining
+     * @throws {Error} When the namespace is invalid or already taken, or a namespaced tool name is too long
+     */
+    register(adapter: AdapterExport, options: RegisterAdapterOptions = {}): this {
+        const namespace = options.namespace ?? toNamespace(adapter.name);
+
+        if (!NAMESPACE_PATTERN.test(namespace)) {
+            throw new Error(`Invalid adapter namespace "${namespace}"`);
+        }
+        if (this.adapters.has(namespace)) {
+            throw new Error(`Adapter namespace "${namespace}" is already registered`);
+        }
+
+        for (const tool of adapter.tools) {
+            const toolName = this.toToolName(namespace, getToolName(tool));
+            if (toolName.length > MAX_TOOL_NAME_LENGTH) {
+                throw new Error(`Tool name "${toolName}" is longer than ${MAX_TOOL_NAME_LENGTH} characters`);
+            }
+        }
+
+        this.adapters.set(namespace, adapter);
+        return this;
+    }
+
+    /**
+     * Removes an adapter
+     * @param namespace - Namespace the adapter was registered under
+     * @returns True if an adapter was removed
+     */
+    unregister(namespace: string): boolean {
+        return this.adapters.delete(namespace);
+    }
+
+    /**
+     * Returns the adapter registered under a namespace
+     * @param namespace - Adapter namespace
+     */
+    getAdapter(namespace: string): AdapterExport | undefined {
+        return this.adapters.get(namespace);
+    }
+
+    /**
+     * Returns all registered namespaces in registration order
+     */
+    getNamespaces(): string[] {
+        return Array.from(this.adapters.keys());
+    }
+
+    /**
+     * Returns the namespaced tools of all adapters
+     * @param chains - Only include adapters supporting at least one of these chains (default: all adapters)
+     * @returns Tools ready to be sent to the model
+     */
+    getTools(chains?: Chain[]): OpenAI.Chat.Completions.ChatCompletionTool[] {
+        const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [];
+
+        this.adapters.forEach((adapter, namespace) => {
+            if (chains && !adapter.chains.some(chain => chains.includes(chain))) return;
+            for (const tool of adapter.tools) {
+                tools.push(renameTool(tool, this.toToolName(namespace, getToolName(tool))));
+            }
+        });
+
+        return tools;
+    }
+
+    /**
+     * Finds the adapter function behind a namespaced tool name
+     * @param toolName - Tool name as sent by the model (e.g. `aave__supply`)
+     * @returns The resolved function, or undefined when the tool is unknown
+     */
+    resolve(toolName: string): ResolvedTool | undefined {
+        const index = toolName.indexOf(TOOL_NAMESPACE_SEPARATOR);
+        if (index <= 0) return undefined;
+
+        const namespace = toolName.slice(0, index);
+        const functionName = toolName.slice(index + TOOL_NAMESPACE_SEPARATOR.length);
+        const adapter = this.adapters.get(namespace);
+
+        if (!adapter || !Object.prototype.hasOwnProperty.call(adapter.functions, functionName)) return undefined;
+
+        return {
+            namespace,
+            adapter,
+            functionName,
+            executable: adapter.executableFunctions.includes(functionName),
+        };
+    }
+
+    /**
+     * Runs the adapter function behind a tool call
+     * @param toolName - Tool name as sent by the model
+     * @param args - JSON encoded arguments as sent by the model
+     * @param options - Function options passed to the adapter function
+     * @returns Result of the adapter function, or an error result when the tool is unknown, the arguments are not valid JSON or the function throws
+     */
+    async dispatch(toolName: string, args: string, options: FunctionOptions): Promise<FunctionReturn> {
+        const resolved = this.resolve(toolName);
+        if (!resolved) {
+            return toResult(`Unknown tool ${toolName}`, { errorCode: FunctionErrorCode.INVALID_ARGS });
+        }
+
+        let parsedArgs: unknown;
+        try {
+            parsedArgs = args.trim() ? JSON.parse(args) : {};
+        } catch (_error) {
+            return toResult(`Arguments for ${toolName} are not valid JSON`, { errorCode: FunctionErrorCode.INVALID_ARGS });
+        }
+
+        try {
+            return await resolved.adapter.functions[resolved.functionName](parsedArgs, options);
+        } catch (error) {
+            return toResult(error instanceof Error ? error.message : String(error), { errorCode: FunctionErrorCode.UNKNOWN });
+        }
+    }
+
+    private toToolName(namespace: string, functionName: string): string {
+        return `${namespace}${TOOL_NAMESPACE_SEPARATOR}${functionName}`;
+    }
+}
@@ -0,0 +1,53 @@
+import { getSchemaIssues } from './getSchemaIssues';
+
+describe('getSchemaIssues', () => {
+    it('should return no issues for a well-formed schema', () => {
+        const schema = {
+            type: 'object',
+            properties: {
+                amount: { type: 'string', pattern: '^[0-9.]+$' },
+                tokens: { type: 'array', items: { type: 'string' }, minItems: 1 },
+                chainName: { type: 'string', enum: ['ethereum', 'base'] },
+            },
+            required: ['amount', 'chainName'],
+            additionalProperties: false,
+        };
+        expect(getSchemaIssues(schema)).toEqual([]);
+    });
+
+    it('should require an object root', () => {
+        expect(getSchemaIssues({ type: 'string' })).toEqual([{ path: '/type', message: 'Root schema must have type "object"' }]);
+        expect(getSchemaIssues('object')).toEqual([{ path: '', message: 'Schema must be an object' }]);
+    });
+
+    it('should report required properties missing from properties', () => {
+        const issues = getSchemaIssues({ type: 'object', properties: { amount: { type: 'string' } }, required: ['amount', 'token'] });
+        expect(issues).toEqual([{ path: '/required', message: 'Required property "token" is not defined in properties' }]);
+    });
+
+    it('should report nested problems with their path', () => {
+        const issues = getSchemaIssues({
+            type: 'object',
+            properties: {
+                amount: { type: 'decimal' },
+                list: { type: 'array' },
+                pattern: { type: 'string', pattern: '[' },
+                choice: { type: 'string', enum: [] },
+                size: { type: 'integer', minimum: '1', maxLength: -1 },
+            },
+        });
+        expect(issues.map(issue => issue.path)).toEqual([
+            '/properties/amount/type',
+            '/properties/list/items',
+            '/properties/pattern/pattern',
+            '/properties/choice/enum',
+            '/properties/size/minimum',
+            '/properties/size/maxLength',
+        ]);
+    });
+
+    it('should check schemas inside anyOf', () => {
+        const issues = getSchemaIssues({ type: 'object', properties: { value: { anyOf: [{ type: 'string' }, { type: 'float' }] } } });
+        expect(issues).toEqual([{ path: '/properties/value/anyOf/1/type', message: 'Unknown type "float"' }]);
+    });
+});
@@ -0,0 +1,129 @@
+import { JsonSchemaType, SchemaIssue } from './types';
+
+/**
+ * Type names accepted by the `type` keyword
+ */
+export const JSON_SCHEMA_TYPES: readonly JsonSchemaType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const NON_NEGATIVE_INTEGER_KEYWORDS = ['minLength', 'maxLength', 'minItems', 'maxItems'];
+const NUMBER_KEYWORDS = ['minimum', 'maximum'];
+const SCHEMA_LIST_KEYWORDS = ['anyOf', 'oneOf', 'allOf'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function collectIssues(schema: unknown, path: string, issues: SchemaIssue[]): void {
+    if (!isPlainObject(schema)) {
+        issues.push({ path, message: 'Schema must be an object' });
+        return;
+    }
+
+    const { type, properties, required, items, additionalProperties, pattern } = schema;
+
+    if (type !== undefined) {
+        const types = Array.isArray(type) ? type : [type];
+        if (types.length === 0) {
+            issues.push({ path: `${path}/type`, message: 'Type list must not be empty' });
+        }
+        for (const item of types) {
+            if (!JSON_SCHEMA_TYPES.includes(item as JsonSchemaType)) {
+                issues.push({ path: `${path}/type`, message: `Unknown type "${String(item)}"` });
+            }
+        }
+    }
+
+    if (properties !== undefined) {
+        if (!isPlainObject(properties)) {
+            issues.push({ path: `${path}/properties`, message: 'Properties must be an object' });
+        } else {
+            for (const [name, property] of Object.entries(properties)) {
+                collectIssues(property, `${path}/properties/${name}`, issues);
+            }
+        }
+    }
+
+    if (required !== undefined) {
+        if (!Array.isArray(required) || required.some(name => typeof name !== 'string')) {
+            issues.push({ path: `${path}/required`, message: 'Required must be an array of strings' });
+        } else {
+            for (const name of required) {
+                if (!isPlainObject(properties) || !(name in properties)) {
+                    issues.push({ path: `${path}/required`, message: `Required property "${name}" is not defined in properties` });
+                }
+            }
+        }
+    }
+
+    if (items !== undefined) {
+        collectIssues(items, `${path}/items`, issues);
+    } else if (type === 'array') {
+        issues.push({ path: `${path}/items`, message: 'Array schema must define items' });
+    }
+
+    if (additionalProperties !== undefined && typeof additionalProperties !== 'boolean') {
+        collectIssues(additionalProperties, `${path}/additionalProperties`, issues);
+    }
+
+    if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+        issues.push({ path: `${path}/enum`, message: 'Enum must be a non-empty array' });
+    }
+
+    for (const keyword of SCHEMA_LIST_KEYWORDS) {
+        const list = schema[keyword];
+        if (list === undefined) continue;
+        if (!Array.isArray(list) || list.length === 0) {
+            issues.push({ path: `${path}/${keyword}`, message: `${keyword} must be a non-empty array of schemas` });
+            continue;
+        }
+        list.forEach((item, index) => collectIssues(item, `${path}/${keyword}/${index}`, issues));
+    }
+
+    for (const keyword of NUMBER_KEYWORDS) {
+        if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+            issues.push({ path: `${path}/${keyword}`, message: `${keyword} must be a number` });
+        }
+    }
+
+    for (const keyword of NON_NEGATIVE_INTEGER_KEYWORDS) {
+        const value = schema[keyword];
+        if (value !== undefined && !(Number.isInteger(value) && (value as number) >= 0)) {
+            issues.push({ path: `${path}/${keyword}`, message: `${keyword} must be a non-negative integer` });
+        }
+    }
+
+    if (pattern !== undefined) {
+        try {
+            new RegExp(pattern as string);
+        } catch (_error) {
+            issues.push({ path: `${path}/pattern`, message: `Pattern "${String(pattern)}" is not a valid regular expression` });
+        }
+    }
+}
+
+/**
+ * Checks that a tool parameters JSON Schema is well-formed
+ * @param schema - The schema to check (usually `tool.function.parameters`)
+ * @returns List of problems, empty when the schema is well-formed
+ * @description The root schema must describe an object, as required by function calling
+ * @example
+ * ```typescript
+ * const issues = getSchemaIssues({
+ *   type: 'object',
+ *   properties: { amount: { type: 'string' } },
+ *   required: ['amount', 'token']
+ * });
+ * // [{ path: '/required', message: 'Required property "token" is not defined in properties' }]
+ * ```
+ */
+export function getSchemaIssues(schema: unknown): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+
+    collectIssues(schema, '', issues);
+
+    if (isPlainObject(schema) && schema.type !== 'object') {
+        issues.unshift({ path: '/type', message: 'Root schema must have type "object"' });
+    }
+
+    return issues;
+}
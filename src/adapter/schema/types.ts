@@ -0,0 +1,136 @@
+/**
+ * Primitive type names allowed in the `type` keyword of a JSON Schema
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Subset of JSON Schema used to describe tool parameters
+ * @interface JsonSchema
+ * @description Covers the keywords supported by OpenAI function calling. Unknown keywords are allowed and ignored.
+ * @example
+ * ```typescript
+ * const parameters: JsonSchema = {
+ *   type: 'object',
+ *   properties: {
+ *     chainName: { type: 'string', enum: ['ethereum', 'base'] },
+ *     amount: { type: 'string', description: 'Amount in decimal units' }
+ *   },
+ *   required: ['chainName', 'amount'],
+ *   additionalProperties: false
+ * };
+ * ```
+ */
+export interface JsonSchema {
+    /** Expected type (or list of types) of the value */
+    readonly type?: JsonSchemaType | readonly JsonSchemaType[];
+    /** Human readable description for the model */
+    readonly description?: string;
+    /** List of allowed values */
+    readonly enum?: readonly unknown[];
+    /** Single allowed value */
+    readonly const?: unknown;
+    /** Object properties */
+    readonly properties?: Readonly<Record<string, JsonSchema>>;
+    /** Names of required object properties */
+    readonly required?: readonly string[];
+    /** Whether (or which) properties not listed in `properties` are allowed */
+    readonly additionalProperties?: boolean | JsonSchema;
+    /** Schema of array items */
+    readonly items?: JsonSchema;
+    /** Value must match at least one of the schemas */
+    readonly anyOf?: readonly JsonSchema[];
+    /** Value must match exactly one of the schemas */
+    readonly oneOf?: readonly JsonSchema[];
+    /** Value must match all of the schemas */
+    readonly allOf?: readonly JsonSchema[];
+    /** Minimum numeric value (inclusive) */
+    readonly minimum?: number;
+    /** Maximum numeric value (inclusive) */
+    readonly maximum?: number;
+    /** Minimum string length */
+    readonly minLength?: number;
+    /** Maximum string length */
+    readonly maxLength?: number;
+    /** Regular expression a string must match */
+    readonly pattern?: string;
+    /** Semantic string format (e.g. 'date-time') */
+    readonly format?: string;
+    /** Minimum number of array items */
+    readonly minItems?: number;
+    /** Maximum number of array items */
+    readonly maxItems?: number;
+    /** Default value */
+    readonly default?: unknown;
+    /** Any other keyword */
+    readonly [keyword: string]: unknown;
+}
+
+/**
+ * Problem found in a JSON Schema or in a value checked against it
+ * @interface SchemaIssue
+ */
+export interface SchemaIssue {
+    /** JSON pointer-like path to the offending location (e.g. '/properties/amount') */
+    readonly path: string;
+    /** Description of the problem */
+    readonly message: string;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type FromSchemaType<T> = T extends 'string'
+    ? string
+    : T extends 'number' | 'integer'
+    ? number
+    : T extends 'boolean'
+    ? boolean
+    : T extends 'null'
+    ? null
+    : T extends 'array'
+    ? unknown[]
+    : T extends 'object'
+    ? Record<string, unknown>
+    : unknown;
+
+type FromObjectSchema<S> = S extends { readonly properties: infer P }
+    ? Simplify<{ -readonly [K in Extract<keyof P, RequiredKeys<S>>]: FromSchema<P[K]> } & { -readonly [K in Exclude<keyof P, RequiredKeys<S>>]?: FromSchema<P[K]> }>
+    : Record<string, unknown>;
+
+type RequiredKeys<S> = S extends { readonly required: readonly (infer K)[] } ? K : never;
+
+/**
+ * Infers the TypeScript type of a value described by a JSON Schema
+ * @description The schema must be declared `as const` so that literal types are preserved
+ * @example
+ * ```typescript
+ * const parameters = {
+ *   type: 'object',
+ *   properties: {
+ *     chainName: { type: 'string', enum: ['ethereum', 'base'] },
+ *     amount: { type: 'string' },
+ *     slippage: { type: 'number' }
+ *   },
+ *   required: ['chainName', 'amount']
+ * } as const;
+ *
+ * type Args = FromSchema<typeof parameters>;
+ * // { chainName: 'ethereum' | 'base'; amount: string; slippage?: number }
+ * ```
+ */
+export type FromSchema<S> = S extends { readonly const: infer C }
+    ? C
+    : S extends { readonly enum: readonly (infer E)[] }
+    ? E
+    : S extends { readonly anyOf: readonly (infer U)[] }
+    ? FromSchema<U>
+    : S extends { readonly oneOf: readonly (infer U)[] }
+    ? FromSchema<U>
+    : S extends { readonly type: 'object' }
+    ? FromObjectSchema<S>
+    : S extends { readonly type: 'array'; readonly items: infer I }
+    ? FromSchema<I>[]
+    : S extends { readonly type: readonly (infer T)[] }
+    ? FromSchemaType<T>
+    : S extends { readonly type: infer T }
+    ? FromSchemaType<T>
+    : unknown;
@@ -0,0 +1,57 @@
+import { validateBySchema } from './validateBySchema';
+import { JsonSchema } from './types';
+
+describe('validateBySchema', () => {
+    const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+            chainName: { type: 'string', enum: ['ethereum', 'base'] },
+            amount: { type: 'string', pattern: '^[0-9.]+$' },
+            slippage: { type: 'number', minimum: 0, maximum: 50 },
+            tokens: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 2 },
+            receiver: { type: ['string', 'null'] },
+        },
+        required: ['chainName', 'amount'],
+        additionalProperties: false,
+    };
+
+    it('should accept a matching value', () => {
+        expect(validateBySchema(schema, { chainName: 'base', amount: '1.5', slippage: 1, tokens: ['USDC'], receiver: null })).toEqual([]);
+    });
+
+    it('should report type mismatches', () => {
+        expect(validateBySchema(schema, 'swap')).toEqual([{ path: '', message: 'Expected object, received string' }]);
+        expect(validateBySchema(schema, { chainName: 'base', amount: 10 })).toEqual([{ path: '/amount', message: 'Expected string, received integer' }]);
+    });
+
+    it('should accept integers for number schemas', () => {
+        expect(validateBySchema({ type: 'number' }, 3)).toEqual([]);
+        expect(validateBySchema({ type: 'integer' }, 3.5)).toEqual([{ path: '', message: 'Expected integer, received number' }]);
+    });
+
+    it('should report missing, unknown and constrained properties', () => {
+        const issues = validateBySchema(schema, { chainName: 'polygon', slippage: 60, tokens: ['', 'a', 'b'], extra: true });
+        expect(issues).toEqual([
+            { path: '/amount', message: 'Required property is missing' },
+            { path: '/chainName', message: 'Expected one of "ethereum", "base", received "polygon"' },
+            { path: '/slippage', message: 'Must be less than or equal to 50' },
+            { path: '/tokens', message: 'Must contain at most 2 items' },
+            { path: '/tokens/0', message: 'Must be at least 1 characters long' },
+            { path: '/extra', message: 'Unknown property' },
+        ]);
+    });
+
+    it('should check patterns', () => {
+        expect(validateBySchema(schema, { chainName: 'base', amount: 'all' })).toEqual([{ path: '/amount', message: 'Must match pattern ^[0-9.]+$' }]);
+    });
+
+    it('should support anyOf, oneOf and const', () => {
+        expect(validateBySchema({ anyOf: [{ type: 'string' }, { type: 'number' }] }, true)).toEqual([{ path: '', message: 'Value does not match any of the allowed schemas' }]);
+        expect(validateBySchema({ oneOf: [{ type: 'number' }, { type: 'integer' }] }, 1)).toEqual([{ path: '', message: 'Value must match exactly one of the allowed schemas' }]);
+        expect(validateBySchema({ const: 'max' }, 'max')).toEqual([]);
+    });
+
+    it('should not treat prototype keys as known properties', () => {
+        expect(validateBySchema(schema, { chainName: 'base', amount: '1', constructor: 1 })).toEqual([{ path: '/constructor', message: 'Unknown property' }]);
+    });
+});
@@ -0,0 +1,127 @@
+import { JsonSchema, JsonSchemaType, SchemaIssue } from './types';
+
+function getValueType(value: unknown): JsonSchemaType | 'undefined' {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') return typeof value as JsonSchemaType;
+    return 'undefined';
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+    const valueType = getValueType(value);
+    return valueType === type || (type === 'number' && valueType === 'integer');
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+    return left === right || JSON.stringify(left) === JSON.stringify(right);
+}
+
+function formatValue(value: unknown): string {
+    return typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? String(value);
+}
+
+function collectIssues(schema: JsonSchema, value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (schema.type !== undefined) {
+        const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as JsonSchemaType[];
+        if (!types.some(type => matchesType(value, type))) {
+            issues.push({ path, message: `Expected ${types.join(' or ')}, received ${getValueType(value)}` });
+            return;
+        }
+    }
+
+    if (schema.const !== undefined && !isEqual(value, schema.const)) {
+        issues.push({ path, message: `Expected ${formatValue(schema.const)}` });
+    }
+
+    if (schema.enum !== undefined && !schema.enum.some(item => isEqual(item, value))) {
+        issues.push({ path, message: `Expected one of ${schema.enum.map(formatValue).join(', ')}, received ${formatValue(value)}` });
+    }
+
+    if (schema.anyOf && !schema.anyOf.some(item => validateBySchema(item, value).length === 0)) {
+        issues.push({ path, message: 'Value does not match any of the allowed schemas' });
+    }
+
+    if (schema.oneOf && schema.oneOf.filter(item => validateBySchema(item, value).length === 0).length !== 1) {
+        issues.push({ path, message: 'Value must match exactly one of the allowed schemas' });
+    }
+
+    for (const item of schema.allOf ?? []) {
+        collectIssues(item, value, path, issues);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            issues.push({ path, message: `Must be greater than or equal to ${schema.minimum}` });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            issues.push({ path, message: `Must be less than or equal to ${schema.maximum}` });
+        }
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            issues.push({ path, message: `Must be at least ${schema.minLength} characters long` });
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            issues.push({ path, message: `Must be at most ${schema.maxLength} characters long` });
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            issues.push({ path, message: `Must match pattern ${schema.pattern}` });
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            issues.push({ path, message: `Must contain at least ${schema.minItems} items` });
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            issues.push({ path, message: `Must contain at most ${schema.maxItems} items` });
+        }
+        if (schema.items) {
+            value.forEach((item, index) => collectIssues(schema.items!, item, `${path}/${index}`, issues));
+        }
+    }
+
+    if (getValueType(value) === 'object') {
+        const record = value as Record<string, unknown>;
+        const properties = schema.properties ?? {};
+
+        for (const name of schema.required ?? []) {
+            if (record[name] === undefined) {
+                issues.push({ path: `${path}/${name}`, message: 'Required property is missing' });
+            }
+        }
+
+        for (const [name, item] of Object.entries(record)) {
+            if (item === undefined) continue;
+            if (Object.prototype.hasOwnProperty.call(properties, name)) {
+                collectIssues(properties[name], item, `${path}/${name}`, issues);
+            } else if (schema.additionalProperties === false) {
+                issues.push({ path: `${path}/${name}`, message: 'Unknown property' });
+            } else if (typeof schema.additionalProperties === 'object') {
+                collectIssues(schema.additionalProperties, item, `${path}/${name}`, issues);
+            }
+        }
+    }
+}
+
+/**
+ * Checks a value against a JSON Schema
+ * @param schema - Well-formed schema (see `getSchemaIssues`)
+ * @param value - Value to check, e.g. parsed tool call arguments
+ * @returns List of violations, empty when the value matches the schema
+ * @example
+ * ```typescript
+ * const issues = validateBySchema(
+ *   { type: 'object', properties: { amount: { type: 'string' } }, required: ['amount'] },
+ *   { amount: 10 }
+ * );
+ * // [{ path: '/amount', message: 'Expected string, received integer' }]
+ * ```
+ */
+export function validateBySchema(schema: JsonSchema, value: unknown): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+    collectIssues(schema, value, '', issues);
+    return issues;
+}
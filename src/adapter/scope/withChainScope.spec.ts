@@ -0,0 +1,121 @@
+import { vi } from 'vitest';
+import { Address } from 'viem';
+import { PublicKey } from '@solana/web3.js';
+import { scopeFunctionOptions, UnsupportedChainError, withChainScope } from './withChainScope';
+import { AdapterExport, FunctionErrorCode, FunctionOptions } from '../types';
+import { toResult } from '../transformers';
+import { Chain, WalletType } from '../../blockchain';
+
+describe('withChainScope', () => {
+    const account: Address = '0x00000000000000000000000000000000000A11cE';
+
+    function createOptions(): FunctionOptions {
+        return {
+            evm: {
+                getAddress: async () => account,
+                getProvider: vi.fn(() => ({} as any)),
+                sendTransactions: vi.fn(async () => ({ data: [] })),
+                deployContracts: vi.fn(async () => []),
+                signTypedDatas: vi.fn(async () => []),
+            },
+            solana: { getConnection: vi.fn(), getPublicKey: async () => PublicKey.default, sendTransactions: vi.fn() },
+            ton: { getAddress: vi.fn(), getClient: vi.fn(), sendTransactions: vi.fn() },
+            getRecipient: vi.fn(async (type: WalletType) => `${type}-recipient`),
+            notify: vi.fn(async () => {}),
+        };
+    }
+
+    describe('scopeFunctionOptions', () => {
+        it('should allow declared EVM chains', async () => {
+            const options = createOptions();
+            const scoped = scopeFunctionOptions(options, [Chain.BASE, Chain.ARBITRUM]);
+
+            scoped.evm!.getProvider(8453);
+            await scoped.evm!.sendTransactions({ chainId: 42161, account, transactions: [] });
+            await scoped.evm!.deployContracts!({ chainId: 8453, account, contracts: [] });
+            await scoped.evm!.signTypedDatas!({ account, datas: [{ domain: { chainId: 8453 }, types: {}, primaryType: 'x', message: {} } as any] });
+
+            expect(options.evm!.getProvider).toHaveBeenCalledWith(8453);
+            expect(options.evm!.sendTransactions).toHaveBeenCalled();
+            expect(options.evm!.deployContracts).toHaveBeenCalled();
+            expect(options.evm!.signTypedDatas).toHaveBeenCalled();
+            expect(scoped.notify).toBe(options.notify);
+        });
+
+        it('should refuse other and unknown chain ids', async () => {
+            const options = createOptions();
+            const scoped = scopeFunctionOptions(options, [Chain.BASE]);
+
+            expect(() => scoped.evm!.getProvider(1)).toThrow(new UnsupportedChainError(1, [Chain.BASE]));
+            expect(() => scoped.evm!.getProvider(1)).toThrow('Chain ethereum (id 1) is not allowed, supported chains: base');
+            expect(() => scoped.evm!.getProvider(123456)).toThrow('Unknown chain id 123456 is not allowed, supported chains: base');
+            await expect(scoped.evm!.sendTransactions({ chainId: 56, account, transactions: [] })).rejects.toThrow(UnsupportedChainError);
+            await expect(scoped.evm!.deployContracts!({ chainId: 56, account, contracts: [] })).rejects.toThrow(UnsupportedChainError);
+            await expect(scoped.evm!.signTypedDatas!({ account, datas: [{ domain: { chainId: 1n }, types: {}, primaryType: 'x', message: {} } as any] })).rejects.toThrow(
+                UnsupportedChainError,
+            );
+            expect(options.evm!.getProvider).not.toHaveBeenCalled();
+            expect(options.evm!.sendTransactions).not.toHaveBeenCalled();
+        });
+
+        it('should leave out families without declared chains', async () => {
+            const options = createOptions();
+
+            const evmOnly = scopeFunctionOptions(options, [Chain.BASE]);
+            expect(evmOnly.solana).toBeUndefined();
+            expect(evmOnly.ton).toBeUndefined();
+            expect(await evmOnly.getRecipient!(WalletType.EVM)).toBe('evm-recipient');
+            await expect(evmOnly.getRecipient!(WalletType.TON)).rejects.toThrow('Wallet type ton is not allowed, supported chains: base');
+
+            const solanaOnly = scopeFunctionOptions(options, [Chain.SOLANA]);
+            expect(solanaOnly.evm).toBeUndefined();
+            expect(solanaOnly.ton).toBeUndefined();
+            expect(solanaOnly.solana).toBe(options.solana);
+        });
+    });
+
+    describe('withChainScope', () => {
+        const adapter: AdapterExport = {
+            name: 'base-swap',
+            description: 'Swaps on Base',
+            chains: [Chain.BASE],
+            executableFunctions: ['swap', 'swapCatching'],
+            tools: [],
+            functions: {
+                swap: async ({ chainId }, options) => {
+                    await options.evm!.sendTransactions({ chainId, account, transactions: [] });
+                    return toResult('Swapped');
+                },
+                swapCatching: async ({ chainId }, options) => {
+                    try {
+                        options.evm!.getProvider(chainId);
+                        return toResult('Quoted');
+                    } catch (_error) {
+                        return toResult('Could not quote', true);
+                    }
+                },
+                fail: async () => Promise.reject(new Error('RPC down')),
+            },
+        };
+
+        it('should run functions on declared chains', async () => {
+            expect(await withChainScope(adapter).functions.swap({ chainId: 8453 }, createOptions())).toEqual({ success: true, data: 'Swapped' });
+        });
+
+        it('should return UNSUPPORTED_CHAIN for other chains even when the adapter catches the error', async () => {
+            const { functions } = withChainScope(adapter);
+            const expected = {
+                success: false,
+                data: 'ERROR: Chain ethereum (id 1) is not allowed, supported chains: base',
+                errorCode: FunctionErrorCode.UNSUPPORTED_CHAIN,
+            };
+
+            expect(await functions.swap({ chainId: 1 }, createOptions())).toEqual(expected);
+            expect(await functions.swapCatching({ chainId: 1 }, createOptions())).toEqual(expected);
+        });
+
+        it('should rethrow other errors', async () => {
+            await expect(withChainScope(adapter).functions.fail({}, createOptions())).rejects.toThrow('RPC down');
+        });
+    });
+});
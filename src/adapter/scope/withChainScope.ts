@@ -0,0 +1,135 @@
+import { AdapterExport, FunctionErrorCode, FunctionOptions, FunctionReturn } from '../types';
+import { Chain, EVM, WalletType } from '../../blockchain';
+import { toResult } from '../transformers';
+import { callWithRefusal } from '../functions/callWithRefusal';
+
+/**
+ * Error thrown by scoped function options when a chain outside the allowed set is requested
+ */
+export class UnsupportedChainError extends Error {
+    /** Requested chain id or wallet type */
+    public readonly requested: number | WalletType;
+
+    constructor(requested: number | WalletType, chains: Chain[]) {
+        super(`${typeof requested === 'number' ? describeChainId(requested) : `Wallet type ${requested}`} is not allowed, supported chains: ${chains.join(', ')}`);
+        this.name = 'UnsupportedChainError';
+        this.requested = requested;
+    }
+}
+
+function describeChainId(chainId: number): string {
+    try {
+        return `Chain ${EVM.utils.getChainName(chainId)} (id ${chainId})`;
+    } catch (_error) {
+        return `Unknown chain id ${chainId}`;
+    }
+}
+
+function isChainIdAllowed(chainId: number, chains: Chain[]): boolean {
+    try {
+        return chains.includes(EVM.utils.getChainName(chainId) as Chain);
+    } catch (_error) {
+        return false;
+    }
+}
+
+function createScopedOptions(options: FunctionOptions, chains: Chain[], onRefused: (error: UnsupportedChainError) => void): FunctionOptions {
+    const refuse = (requested: number | WalletType): never => {
+        const error = new UnsupportedChainError(requested, chains);
+        onRefused(error);
+        throw error;
+    };
+    const assertChainId = (chainId: number) => {
+        if (!isChainIdAllowed(chainId, chains)) refuse(chainId);
+    };
+    const walletTypes = [
+        ...(chains.some(chain => EVM.utils.isEvmChain(chain)) ? [WalletType.EVM] : []),
+        ...(chains.includes(Chain.SOLANA) ? [WalletType.SOLANA] : []),
+        ...(chains.includes(Chain.TON) ? [WalletType.TON] : []),
+    ];
+
+    const { evm, getRecipient } = options;
+
+    return {
+        ...options,
+        evm:
+            evm && walletTypes.includes(WalletType.EVM)
+                ? {
+                      ...evm,
+                      getProvider: chainId => {
+                          assertChainId(chainId);
+                          return evm.getProvider(chainId);
+                      },
+                      sendTransactions: async props => {
+                          assertChainId(props.chainId);
+                          return evm.sendTransactions(props);
+                      },
+                      deployContracts:
+                          evm.deployContracts &&
+                          (async props => {
+                              assertChainId(props.chainId);
+                              return evm.deployContracts!(props);
+                          }),
+                      signTypedDatas:
+                          evm.signTypedDatas &&
+                          (async props => {
+                              props.datas.forEach(({ domain }) => domain?.chainId !== undefined && assertChainId(Number(domain.chainId)));
+                              return evm.signTypedDatas!(props);
+                          }),
+                  }
+                : undefined,
+        solana: walletTypes.includes(WalletType.SOLANA) ? options.solana : undefined,
+        ton: walletTypes.includes(WalletType.TON) ? options.ton : undefined,
+        getRecipient:
+            getRecipient &&
+            (async type => {
+                if (!walletTypes.includes(type)) refuse(type);
+                return getRecipient(type);
+            }),
+    };
+}
+
+/**
+ * Restricts function options to a set of chains
+ * @param options - Function options to restrict
+ * @param chains - Allowed chains, usually `adapter.chains`
+ * @returns Function options that throw `UnsupportedChainError` for other chains
+ * @description EVM chain ids are checked with `getChainName` against `chains` in `getProvider`, `sendTransactions`,
+ * `deployContracts` and in the domain of typed data. `evm`, `solana` and `ton` are left out when no chain of their family is allowed,
+ * and `getRecipient` refuses their wallet types.
+ * @example
+ * ```typescript
+ * const scoped = scopeFunctionOptions(options, [Chain.BASE]);
+ * scoped.evm.getProvider(1); // throws UnsupportedChainError
+ * scoped.ton; // undefined
+ * ```
+ */
+export function scopeFunctionOptions(options: FunctionOptions, chains: Chain[]): FunctionOptions {
+    return createScopedOptions(options, chains, () => {});
+}
+
+/**
+ * Wraps an adapter so that its functions only get function options scoped to `adapter.chains`
+ * @param adapter - Adapter to wrap
+ * @returns Adapter whose functions return an `UNSUPPORTED_CHAIN` result when they request any other chain
+ * @example
+ * ```typescript
+ * const adapter = withChainScope(baseOnlyAdapter);
+ * const result = await adapter.functions.swap({ chainName: 'ethereum', ... }, options);
+ * // result.errorCode === FunctionErrorCode.UNSUPPORTED_CHAIN when the adapter tried to use chain id 1
+ * ```
+ */
+export function withChainScope(adapter: AdapterExport): AdapterExport {
+    const functions = Object.fromEntries(
+        Object.entries(adapter.functions).map(([name, fn]) => {
+            const scoped = async (args: any, options: FunctionOptions): Promise<FunctionReturn> =>
+                callWithRefusal<UnsupportedChainError>(
+                    refuse => fn(args, createScopedOptions(options, adapter.chains, refuse)),
+                    error => toResult(error.message, { errorCode: FunctionErrorCode.UNSUPPORTED_CHAIN }),
+                );
+            return [name, scoped];
+        }),
+    );
+
+    return { ...adapter, functions };
+}
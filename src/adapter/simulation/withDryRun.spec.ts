@@ -0,0 +1,125 @@
+import { vi } from 'vitest';
+import { Address, BaseError, zeroHash } from 'viem';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { Address as TonAddress } from '@ton/ton';
+import { withDryRun } from './withDryRun';
+import { FunctionOptions } from '../types';
+import { WalletType } from '../../blockchain';
+
+describe('withDryRun', () => {
+    const account: Address = '0x00000000000000000000000000000000000A11cE';
+    const target: Address = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+    function createOptions(provider: any, connection?: any): FunctionOptions {
+        return {
+            evm: {
+                getAddress: async () => account,
+                getProvider: () => provider,
+                sendTransactions: vi.fn(),
+                signMessages: vi.fn(async () => ['0x01' as const]),
+            },
+            solana: {
+                getConnection: () => connection,
+                getPublicKey: async () => PublicKey.default,
+                sendTransactions: vi.fn(),
+            },
+            ton: {
+                getAddress: async () => TonAddress.parse(`0:${'01'.repeat(32)}`),
+                getClient: vi.fn(),
+                sendTransactions: vi.fn(),
+            },
+            notify: vi.fn(async () => {}),
+        };
+    }
+
+    it('should simulate EVM transactions instead of sending them', async () => {
+        const provider = { call: vi.fn(async () => ({ data: '0x01' })), estimateGas: vi.fn(async () => 21000n) };
+        const options = createOptions(provider);
+        const dryRun = withDryRun(options);
+
+        const result = await dryRun.evm!.sendTransactions({ chainId: 1, account, transactions: [{ target, data: '0x095ea7b3', value: 1n }] });
+
+        expect(result.data).toEqual([{ message: 'Dry run: transaction not sent, simulation succeeded', hash: zeroHash }]);
+        expect(options.evm!.sendTransactions).not.toHaveBeenCalled();
+        expect(provider.call).toHaveBeenCalledWith({ account, to: target, data: '0x095ea7b3', value: 1n, gas: undefined });
+        expect(dryRun.getReport()).toEqual({
+            success: true,
+            transactions: [
+                {
+                    walletType: WalletType.EVM,
+                    chainId: 1,
+                    account,
+                    transaction: { target, data: '0x095ea7b3', value: 1n },
+                    simulation: { simulated: true, success: true, returnData: '0x01', gas: 21000n },
+                },
+            ],
+        });
+    });
+
+    it('should report EVM simulation failures', async () => {
+        const provider = { call: vi.fn(async () => Promise.reject(new BaseError('Execution reverted', { details: 'reverted' }))), estimateGas: vi.fn() };
+        const dryRun = withDryRun(createOptions(provider));
+
+        const result = await dryRun.evm!.sendTransactions({ chainId: 1, account, transactions: [{ target, data: '0x' }] });
+
+        expect(result.data[0].message).toBe('Dry run: transaction not sent, simulation failed: Execution reverted');
+        expect(dryRun.getReport().success).toBe(false);
+        expect(dryRun.getReport().transactions[0].simulation).toEqual({ simulated: true, success: false, error: 'Execution reverted' });
+    });
+
+    it('should simulate Solana transactions', async () => {
+        const connection = {
+            simulateTransaction: vi
+                .fn()
+                .mockResolvedValueOnce({ value: { err: null, logs: ['Program log: ok'], unitsConsumed: 1200 } })
+                .mockResolvedValueOnce({ value: { err: { InstructionError: [0, 'Custom'] }, logs: null } }),
+        };
+        const dryRun = withDryRun(createOptions({}, connection));
+        const transaction = {} as VersionedTransaction;
+
+        const result = await dryRun.solana!.sendTransactions({ account: PublicKey.default, transactions: [transaction, transaction] });
+
+        expect(connection.simulateTransaction).toHaveBeenCalledWith(transaction, { sigVerify: false, replaceRecentBlockhash: true });
+        expect(result.data.map(({ message }) => message)).toEqual([
+            'Dry run: transaction not sent, simulation succeeded',
+            'Dry run: transaction not sent, simulation failed: {"InstructionError":[0,"Custom"]}',
+        ]);
+        expect(dryRun.getReport().transactions.map(({ simulation }) => simulation)).toEqual([
+            { simulated: true, success: true, logs: ['Program log: ok'], unitsConsumed: 1200 },
+            { simulated: true, success: false, error: '{"InstructionError":[0,"Custom"]}', logs: undefined, unitsConsumed: undefined },
+        ]);
+    });
+
+    it('should record TON transactions without simulation', async () => {
+        const options = createOptions({});
+        const dryRun = withDryRun(options);
+        const to = TonAddress.parse(`0:${'02'.repeat(32)}`);
+
+        const result = await dryRun.ton!.sendTransactions({ account: await dryRun.ton!.getAddress(), transactions: [{ to, value: 1n }] });
+
+        expect(result.data).toEqual([{ message: 'Dry run: transaction not sent', hash: '0'.repeat(64) }]);
+        expect(options.ton!.sendTransactions).not.toHaveBeenCalled();
+        expect(dryRun.getReport()).toMatchObject({ success: true, transactions: [{ walletType: WalletType.TON, simulation: { simulated: false, success: true } }] });
+    });
+
+    it('should pass other options through and reset', async () => {
+        const options = createOptions({ call: async () => ({}), estimateGas: async () => 0n });
+        const dryRun = withDryRun(options);
+
+        await dryRun.notify!('hello');
+        await dryRun.evm!.signMessages!({ account, messages: ['0x01'] });
+        expect(options.notify).toHaveBeenCalledWith('hello');
+        expect(options.evm!.signMessages).toHaveBeenCalled();
+
+        await dryRun.evm!.sendTransactions({ chainId: 1, account, transactions: [{ target, data: '0x' }] });
+        dryRun.reset();
+        expect(dryRun.getReport()).toEqual({ transactions: [], success: true });
+    });
+
+    it('should keep missing wallet options missing', () => {
+        const dryRun = withDryRun({ notify: async () => {} });
+        expect(dryRun.evm).toBeUndefined();
+        expect(dryRun.solana).toBeUndefined();
+        expect(dryRun.ton).toBeUndefined();
+    });
+});
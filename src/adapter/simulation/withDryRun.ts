@@ -0,0 +1,217 @@
+import { Address, BaseError, Hex, zeroHash } from 'viem';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { Address as TonAddress } from '@ton/ton';
+import { SenderArguments } from '@ton/core';
+import { FunctionOptions } from '../types';
+import { EVM, Solana, TON, WalletType } from '../../blockchain';
+import { stringify } from '../../utils';
+
+/**
+ * Placeholder hashes returned to the adapter instead of real transaction hashes
+ */
+const DRY_RUN_HASHES: Record<WalletType, string> = {
+    [WalletType.EVM]: zeroHash,
+    [WalletType.SOLANA]: '1'.repeat(64),
+    [WalletType.TON]: '0'.repeat(64),
+};
+
+/**
+ * Simulation outcome of a would-be transaction
+ * @interface DryRunSimulation
+ */
+export interface DryRunSimulation {
+    /** False when the chain has no simulation support (TON) */
+    readonly simulated: boolean;
+    /** Whether the simulation succeeded (true when not simulated) */
+    readonly success: boolean;
+    /** Failure reason */
+    readonly error?: string;
+}
+
+/**
+ * EVM simulation via `eth_call` and `eth_estimateGas`
+ * @interface EvmDryRunSimulation
+ */
+export interface EvmDryRunSimulation extends DryRunSimulation {
+    /** Data returned by `eth_call` */
+    readonly returnData?: Hex;
+    /** Estimated gas */
+    readonly gas?: bigint;
+}
+
+/**
+ * Solana simulation via `simulateTransaction`
+ * @interface SolanaDryRunSimulation
+ */
+export interface SolanaDryRunSimulation extends DryRunSimulation {
+    /** Program logs */
+    readonly logs?: string[];
+    /** Compute units consumed */
+    readonly unitsConsumed?: number;
+}
+
+/**
+ * Would-be EVM transaction
+ * @interface EvmDryRunTransaction
+ */
+export interface EvmDryRunTransaction {
+    readonly walletType: WalletType.EVM;
+    readonly chainId: number;
+    readonly account: Address;
+    readonly transaction: EVM.types.TransactionParams;
+    readonly simulation: EvmDryRunSimulation;
+}
+
+/**
+ * Would-be Solana transaction
+ * @interface SolanaDryRunTransaction
+ */
+export interface SolanaDryRunTransaction {
+    readonly walletType: WalletType.SOLANA;
+    readonly account: PublicKey;
+    readonly transaction: VersionedTransaction;
+    readonly simulation: SolanaDryRunSimulation;
+}
+
+/**
+ * Would-be TON transaction (not simulated)
+ * @interface TonDryRunTransaction
+ */
+export interface TonDryRunTransaction {
+    readonly walletType: WalletType.TON;
+    readonly account: TonAddress;
+    readonly transaction: SenderArguments;
+    readonly simulation: DryRunSimulation;
+}
+
+export type DryRunTransaction = EvmDryRunTransaction | SolanaDryRunTransaction | TonDryRunTransaction;
+
+/**
+ * Preview of everything an adapter function tried to send
+ * @interface DryRunReport
+ */
+export interface DryRunReport {
+    /** Would-be transactions in the order the adapter sent them */
+    readonly transactions: DryRunTransaction[];
+    /** True when no simulation failed */
+    readonly success: boolean;
+}
+
+/**
+ * Function options that simulate transactions instead of sending them
+ * @interface DryRunFunctionOptions
+ */
+export interface DryRunFunctionOptions extends FunctionOptions {
+    /** Returns the would-be transactions collected so far */
+    getReport(): DryRunReport;
+    /** Clears the collected transactions */
+    reset(): void;
+}
+
+function toErrorMessage(error: unknown): string {
+    if (error instanceof BaseError) return error.shortMessage;
+    return error instanceof Error ? error.message : String(error);
+}
+
+function toReturnMessage(simulation: DryRunSimulation): string {
+    if (!simulation.simulated) return 'Dry run: transaction not sent';
+    return simulation.success ? 'Dry run: transaction not sent, simulation succeeded' : `Dry run: transaction not sent, simulation failed: ${simulation.error}`;
+}
+
+async function simulateEvmTransaction(options: FunctionOptions, props: EVM.types.SendTransactionProps, transaction: EVM.types.TransactionParams): Promise<EvmDryRunSimulation> {
+    const request = { account: props.account, to: transaction.target, data: transaction.data, value: transaction.value };
+
+    try {
+        const provider = options.evm!.getProvider(props.chainId);
+        const { data: returnData } = await provider.call({ ...request, gas: transaction.gas });
+        const gas = await provider.estimateGas(request);
+        return { simulated: true, success: true, returnData, gas };
+    } catch (error) {
+        return { simulated: true, success: false, error: toErrorMessage(error) };
+    }
+}
+
+async function simulateSolanaTransaction(options: FunctionOptions, transaction: VersionedTransaction): Promise<SolanaDryRunSimulation> {
+    try {
+        const { value } = await options.solana!.getConnection().simulateTransaction(transaction, { sigVerify: false, replaceRecentBlockhash: true });
+        const details = { logs: value.logs ?? undefined, unitsConsumed: value.unitsConsumed };
+
+        if (value.err) {
+            return { simulated: true, success: false, error: typeof value.err === 'string' ? value.err : stringify(value.err), ...details };
+        }
+        return { simulated: true, success: true, ...details };
+    } catch (error) {
+        return { simulated: true, success: false, error: toErrorMessage(error) };
+    }
+}
+
+/**
+ * Wraps function options so that transactions are simulated instead of sent
+ * @param options - Function options to wrap
+ * @returns Function options collecting a preview report
+ * @description `evm.sendTransactions`, `solana.sendTransactions` and `ton.sendTransactions` are intercepted. EVM transactions are
+ * simulated with `eth_call` and `eth_estimateGas`, Solana transactions with `simulateTransaction`, TON transactions are only recorded.
+ * The adapter receives placeholder hashes, so it runs unchanged. Transactions are simulated one by one against the current state,
+ * so a transaction depending on an earlier one of the same batch (e.g. a swap after an approve) may fail simulation.
+ * Signing, contract deployment and all other options are passed through.
+ * @example
+ * ```typescript
+ * const dryRun = withDryRun(options);
+ * await adapter.functions.swap(args, dryRun);
+ *
+ * const { transactions, success } = dryRun.getReport();
+ * transactions.forEach(({ walletType, simulation }) => console.log(walletType, simulation.success, simulation.error));
+ * ```
+ */
+export function withDryRun(options: FunctionOptions): DryRunFunctionOptions {
+    const transactions: DryRunTransaction[] = [];
+
+    const evm = options.evm && {
+        ...options.evm,
+        sendTransactions: async (props: EVM.types.SendTransactionProps): Promise<EVM.types.TransactionReturn> => {
+            const data: EVM.types.TransactionReturnData[] = [];
+            for (const transaction of props.transactions) {
+                const simulation = await simulateEvmTransaction(options, props, transaction);
+                transactions.push({ walletType: WalletType.EVM, chainId: props.chainId, account: props.account, transaction, simulation });
+                data.push({ message: toReturnMessage(simulation), hash: DRY_RUN_HASHES[WalletType.EVM] as Hex });
+            }
+            return { data };
+        },
+    };
+
+    const solana = options.solana && {
+        ...options.solana,
+        sendTransactions: async (props: Solana.types.SendTransactionProps): Promise<Solana.types.TransactionReturn> => {
+            const data: Solana.types.TransactionReturnData[] = [];
+            for (const transaction of props.transactions) {
+                const simulation = await simulateSolanaTransaction(options, transaction);
+                transactions.push({ walletType: WalletType.SOLANA, account: props.account, transaction, simulation });
+                data.push({ message: toReturnMessage(simulation), hash: DRY_RUN_HASHES[WalletType.SOLANA] });
+            }
+            return { data };
+        },
+    };
+
+    const ton = options.ton && {
+        ...options.ton,
+        sendTransactions: async (props: TON.types.SendTransactionProps): Promise<TON.types.TransactionReturn> => {
+            const simulation: DryRunSimulation = { simulated: false, success: true };
+            props.transactions.forEach(transaction => transactions.push({ walletType: WalletType.TON, account: props.account, transaction, simulation }));
+            return { data: props.transactions.map(() => ({ message: toReturnMessage(simulation), hash: DRY_RUN_HASHES[WalletType.TON] })) };
+        },
+    };
+
+    return {
+        ...options,
+        evm,
+        solana,
+        ton,
+        getReport: () => ({
+            transactions: [...transactions],
+            success: transactions.every(({ simulation }) => simulation.success),
+        }),
+        reset: () => {
+            transactions.length = 0;
+        },
+    };
+}
@@ -0,0 +1,86 @@
+import { Address as TonAddress } from '@ton/ton';
+import { TokenResolver } from './TokenResolver';
+import { UserToken } from '../types';
+import { Chain, EVM } from '../../blockchain';
+
+describe('TokenResolver', () => {
+    const usdc: UserToken = { chain: Chain.BASE, name: 'USD Coin', symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 };
+    const bridgedUsdc: UserToken = { chain: Chain.BASE, name: 'USD Base Coin', symbol: 'USDbC', address: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', decimals: 6 };
+    const usdce: UserToken = { chain: Chain.BASE, name: 'Bridged USDC', symbol: 'USDC.e', address: '0x0000000000000000000000000000000000000Ce1', decimals: 6 };
+    const fakeUsdc: UserToken = { chain: Chain.BASE, name: 'USDC', symbol: 'USDC', address: '0x0000000000000000000000000000000000000bad', decimals: 6 };
+    const arbitrumUsdc: UserToken = { chain: Chain.ARBITRUM, name: 'USD Coin', symbol: 'USDC', address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6 };
+    const weth: UserToken = { chain: Chain.BASE, name: 'Wrapped Ether', symbol: 'WETH', address: EVM.constants.WETH9[Chain.BASE].address.toLowerCase(), decimals: 18 };
+    const usdt: UserToken = {
+        chain: Chain.TON,
+        name: 'Tether USD',
+        symbol: 'USD₮',
+        address: 'EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs',
+        decimals: 6,
+    };
+
+    const resolverWith = (tokens: UserToken[]) => new TokenResolver({ getUserTokens: async () => tokens });
+
+    it('should resolve symbols, names and addresses', async () => {
+        const resolver = resolverWith([usdc, bridgedUsdc, arbitrumUsdc]);
+
+        expect(await resolver.resolve('USDC', Chain.BASE)).toMatchObject({ ambiguous: false, token: usdc });
+        expect(await resolver.resolve('usdc', Chain.ARBITRUM)).toMatchObject({ ambiguous: false, token: arbitrumUsdc });
+        expect(await resolver.resolve('USD Coin', Chain.BASE)).toMatchObject({ ambiguous: false, token: usdc });
+        expect(await resolver.resolve(usdc.address.toLowerCase(), Chain.BASE)).toMatchObject({
+            ambiguous: false,
+            token: usdc,
+            candidates: [{ token: usdc, source: 'user', match: 'address', score: 100 }],
+        });
+    });
+
+    it('should resolve native and wrapped native tokens', async () => {
+        const resolver = resolverWith([]);
+
+        expect((await resolver.resolve('ETH', Chain.BASE)).token).toMatchObject({ symbol: 'ETH', address: EVM.constants.NATIVE_ADDRESS });
+        expect((await resolver.resolve('weth', Chain.BASE)).token).toMatchObject({ symbol: 'WETH', address: EVM.constants.WETH9[Chain.BASE].address });
+        expect((await resolver.resolve(EVM.constants.NATIVE_ADDRESS.toLowerCase(), Chain.BSC)).token).toMatchObject({ symbol: 'BNB' });
+        expect((await resolver.resolve('SOL', Chain.SOLANA)).token).toMatchObject({ symbol: 'SOL', decimals: 9 });
+    });
+
+    it('should rank exact matches above partial ones', async () => {
+        const { candidates, ambiguous, token } = await resolverWith([usdce, usdc]).resolve('usdc', Chain.BASE);
+
+        expect(ambiguous).toBe(false);
+        expect(token).toEqual(usdc);
+        expect(candidates.map(({ token, match }) => [token.symbol, match])).toEqual([
+            ['USDC', 'symbol'],
+            ['USDC.e', 'partial'],
+        ]);
+    });
+
+    it('should flag equally good candidates as ambiguous', async () => {
+        const resolution = await resolverWith([usdc, fakeUsdc]).resolve('USDC', Chain.BASE);
+
+        expect(resolution.ambiguous).toBe(true);
+        expect(resolution.token).toBeUndefined();
+        expect(resolution.candidates.map(({ token }) => token.address)).toEqual([usdc.address, fakeUsdc.address]);
+
+        expect(await resolverWith([usdc, bridgedUsdc]).resolve('usd', Chain.BASE)).toMatchObject({ ambiguous: true });
+    });
+
+    it('should list each address once', async () => {
+        const tokens = await resolverWith([weth, usdc]).getTokens(Chain.BASE);
+
+        expect(tokens.map(({ token, source }) => [token.symbol, source])).toEqual([
+            ['ETH', 'native'],
+            ['WETH', 'wrapped-native'],
+            ['USDC', 'user'],
+        ]);
+    });
+
+    it('should match TON addresses in any notation', async () => {
+        const raw = TonAddress.parse(usdt.address).toRawString();
+        expect((await resolverWith([usdt]).resolve(raw, Chain.TON)).token).toEqual(usdt);
+    });
+
+    it('should work without user tokens', async () => {
+        const resolution = await new TokenResolver().resolve('DAI', Chain.BASE);
+
+        expect(resolution).toEqual({ query: 'DAI', chain: Chain.BASE, candidates: [], ambiguous: false });
+    });
+});
@@ -0,0 +1,129 @@
+import { UserFunctionOptions, UserToken } from '../types';
+import { Chain } from '../../blockchain';
+import { getBuiltInTokens, SourcedToken, TokenSource } from './getBuiltInTokens';
+import { toComparableAddress } from './toComparableAddress';
+
+/**
+ * How a candidate matched the query
+ */
+export type TokenMatch = 'address' | 'symbol' | 'name' | 'partial';
+
+/**
+ * Token matching a query
+ * @interface TokenCandidate
+ */
+export interface TokenCandidate {
+    readonly token: UserToken;
+    readonly source: TokenSource;
+    readonly match: TokenMatch;
+    /** Match quality, higher is better */
+    readonly score: number;
+}
+
+/**
+ * Outcome of a token lookup
+ * @interface TokenResolution
+ */
+export interface TokenResolution {
+    /** Looked up symbol, name or address */
+    readonly query: string;
+    readonly chain: Chain;
+    /** Matching tokens, best first */
+    readonly candidates: TokenCandidate[];
+    /** True when several candidates match equally well, the user should pick one */
+    readonly ambiguous: boolean;
+    /** Best candidate, when there is exactly one */
+    readonly token?: UserToken;
+}
+
+const SCORES = {
+    address: 100,
+    symbol: 90,
+    symbolIgnoreCase: 80,
+    name: 70,
+    symbolPrefix: 40,
+    partial: 20,
+};
+
+/**
+ * Source order among equally scored candidates
+ */
+const SOURCE_ORDER: TokenSource[] = ['native', 'wrapped-native', 'user'];
+
+function matchToken(query: string, chain: Chain, token: UserToken): Pick<TokenCandidate, 'match' | 'score'> | undefined {
+    const lowerQuery = query.toLowerCase();
+    const symbol = token.symbol.toLowerCase();
+    const name = token.name.toLowerCase();
+
+    if (toComparableAddress(chain, query) === toComparableAddress(chain, token.address)) return { match: 'address', score: SCORES.address };
+    if (token.symbol === query) return { match: 'symbol', score: SCORES.symbol };
+    if (symbol === lowerQuery) return { match: 'symbol', score: SCORES.symbolIgnoreCase };
+    if (name === lowerQuery) return { match: 'name', score: SCORES.name };
+    if (lowerQuery.length < 2) return undefined;
+    if (symbol.startsWith(lowerQuery)) return { match: 'partial', score: SCORES.symbolPrefix };
+    if (symbol.includes(lowerQuery) || name.includes(lowerQuery)) return { match: 'partial', score: SCORES.partial };
+    return undefined;
+}
+
+/**
+ * Looks up tokens by symbol, name or address on a chain
+ * @description Searches the user's token list (`user.getUserTokens()`), the native asset at `NATIVE_ADDRESS` and the wrapped native
+ * token from `WETH9`. Tokens with the same address are listed once. When the best candidates tie (e.g. two tokens with the symbol
+ * USDC), the resolution is ambiguous and has no `token`, so the adapter can ask the user instead of guessing.
+ * @example
+ * ```typescript
+ * const resolver = new TokenResolver(options.user);
+ * const { token, ambiguous, candidates } = await resolver.resolve('USDC', Chain.BASE);
+ *
+ * if (ambiguous) {
+ *   return toResult(`Several tokens match USDC: ${candidates.map(({ token }) => `${token.name} (${token.address})`).join(', ')}`, true);
+ * }
+ * if (!token) {
+ *   return toResult('Token USDC not found on base', { errorCode: FunctionErrorCode.INVALID_ARGS });
+ * }
+ * ```
+ */
+export class TokenResolver {
+    /**
+     * @param user - User options providing the token list, built-in tokens only when omitted
+     */
+    constructor(private readonly user?: Pick<UserFunctionOptions, 'getUserTokens'>) {}
+
+    /**
+     * Returns all tokens known on a chain
+     * @param chain - Chain of the tokens
+     * @returns Built-in tokens followed by the user's tokens, one per address
+     */
+    async getTokens(chain: Chain): Promise<SourcedToken[]> {
+        const userTokens = (await this.user?.getUserTokens()) ?? [];
+        const tokens = [...getBuiltInTokens(chain), ...userTokens.filter(token => token.chain === chain).map(token => ({ token, source: 'user' as const }))];
+
+        const seen = new Set<string>();
+        return tokens.filter(({ token }) => {
+            const address = toComparableAddress(chain, token.address);
+            if (seen.has(address)) return false;
+            seen.add(address);
+            return true;
+        });
+    }
+
+    /**
+     * Looks up a token
+     * @param query - Symbol ("USDC"), name ("USD Coin") or address
+     * @param chain - Chain to search
+     * @returns Ranked candidates, the ambiguity flag and the token when the best candidate is unique
+     */
+    async resolve(query: string, chain: Chain): Promise<TokenResolution> {
+        const trimmed = query.trim();
+        const candidates: TokenCandidate[] = [];
+
+        for (const { token, source } of await this.getTokens(chain)) {
+            const match = trimmed ? matchToken(trimmed, chain, token) : undefined;
+            if (match) candidates.push({ token, source, ...match });
+        }
+        candidates.sort((a, b) => b.score - a.score || SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source));
+
+        const ambiguous = candidates.length > 1 && candidates[0].score === candidates[1].score;
+        return { query, chain, candidates, ambiguous, ...(!ambiguous && candidates.length > 0 && { token: candidates[0].token }) };
+    }
+}
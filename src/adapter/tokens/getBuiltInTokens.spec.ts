@@ -0,0 +1,20 @@
+import { getBuiltInTokens } from './getBuiltInTokens';
+import { Chain, EVM } from '../../blockchain';
+
+describe('getBuiltInTokens', () => {
+    it('should return the native and wrapped native tokens of EVM chains', () => {
+        expect(getBuiltInTokens(Chain.BASE)).toEqual([
+            { token: { chain: Chain.BASE, name: 'Ether', symbol: 'ETH', address: EVM.constants.NATIVE_ADDRESS, decimals: 18 }, source: 'native' },
+            { token: { chain: Chain.BASE, name: 'Wrapped Ether', symbol: 'WETH', address: EVM.constants.WETH9[Chain.BASE].address, decimals: 18 }, source: 'wrapped-native' },
+        ]);
+        expect(getBuiltInTokens(Chain.AVALANCHE).map(({ token }) => token.symbol)).toEqual(['AVAX', 'WAVAX']);
+        expect(getBuiltInTokens(Chain.SONIC).map(({ token }) => token.symbol)).toEqual(['S', 'WS']);
+    });
+
+    it('should return the native token of Solana and TON', () => {
+        expect(getBuiltInTokens(Chain.SOLANA)).toEqual([
+            { token: { chain: Chain.SOLANA, name: 'Solana', symbol: 'SOL', address: EVM.constants.NATIVE_ADDRESS, decimals: 9 }, source: 'native' },
+        ]);
+        expect(getBuiltInTokens(Chain.TON).map(({ token }) => token.symbol)).toEqual(['TON']);
+    });
+});
@@ -0,0 +1,56 @@
+import { Token } from '@real-wagmi/sdk';
+import { UserToken } from '../types';
+import { Chain, EVM, EvmChain } from '../../blockchain';
+
+/**
+ * Origin of a token known to the resolver
+ */
+export type TokenSource = 'user' | 'native' | 'wrapped-native';
+
+/**
+ * Token with its origin
+ * @interface SourcedToken
+ */
+export interface SourcedToken {
+    readonly token: UserToken;
+    readonly source: TokenSource;
+}
+
+const NON_EVM_NATIVE_TOKENS: Record<Chain.SOLANA | Chain.TON, Pick<UserToken, 'name' | 'symbol' | 'decimals'>> = {
+    [Chain.SOLANA]: { name: 'Solana', symbol: 'SOL', decimals: 9 },
+    [Chain.TON]: { name: 'Toncoin', symbol: 'TON', decimals: 9 },
+};
+
+function toUserToken(chain: Chain, token: Token): UserToken {
+    return { chain, name: token.name ?? token.symbol ?? token.address, symbol: token.symbol ?? '', address: token.address, decimals: token.decimals };
+}
+
+/**
+ * Returns the tokens known without the user's token list
+ * @param chain - Chain of the tokens
+ * @returns The native asset (at `NATIVE_ADDRESS`) and, on EVM chains, its wrapped token from `WETH9`
+ * @example
+ * ```typescript
+ * getBuiltInTokens(Chain.BASE).map(({ token }) => token.symbol); // ['ETH', 'WETH']
+ * ```
+ */
+export function getBuiltInTokens(chain: Chain): SourcedToken[] {
+    if (chain === Chain.SOLANA || chain === Chain.TON) {
+        return [{ token: { chain, address: EVM.constants.NATIVE_ADDRESS, ...NON_EVM_NATIVE_TOKENS[chain] }, source: 'native' }];
+    }
+
+    const wrapped = toUserToken(chain, EVM.constants.WETH9[chain as EvmChain]);
+    // Native assets are named after their wrapped token: WETH -> ETH, WBNB -> BNB, WAVAX -> AVAX
+    const native: UserToken = {
+        chain,
+        name: wrapped.name.replace(/^Wrapped /, ''),
+        symbol: wrapped.symbol.replace(/^w/i, ''),
+        address: EVM.constants.NATIVE_ADDRESS,
+        decimals: 18,
+    };
+
+    return [
+        { token: native, source: 'native' },
+        { token: wrapped, source: 'wrapped-native' },
+    ];
+}
@@ -0,0 +1,75 @@
+import { PublicKey } from '@solana/web3.js';
+import { Address as TonAddress } from '@ton/ton';
+import { findMajorToken, getMajorTokens } from './getMajorTokens';
+import { allEvmChains, Chain, EVM, Solana, TON } from '../../blockchain';
+
+describe('getMajorTokens', () => {
+    it('should list native variants before bridged ones', () => {
+        expect(getMajorTokens(Chain.ARBITRUM, 'USDC').map(({ token, bridged }) => [token.symbol, bridged])).toEqual([
+            ['USDC', false],
+            ['USDC.e', true],
+        ]);
+        expect(getMajorTokens(Chain.BASE, 'USDC').map(({ token, bridged }) => [token.symbol, bridged])).toEqual([
+            ['USDC', false],
+            ['USDbC', true],
+        ]);
+    });
+
+    it('should convert tokens of every chain family', () => {
+        expect(getMajorTokens(Chain.ETHEREUM, 'USDC')).toEqual([
+            {
+                token: { chain: Chain.ETHEREUM, address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+                asset: 'USDC',
+                bridged: false,
+            },
+        ]);
+        expect(getMajorTokens(Chain.SOLANA, 'USDC')).toEqual([
+            {
+                token: { chain: Chain.SOLANA, address: Solana.constants.SPL_TOKENS.usdc.mint, symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+                asset: 'USDC',
+                bridged: false,
+            },
+        ]);
+        expect(getMajorTokens(Chain.TON, 'USDT').map(({ token, bridged }) => [token.symbol, bridged])).toEqual([
+            ['USD₮', false],
+            ['jUSDT', true],
+        ]);
+    });
+
+    it('should return all major tokens without an asset', () => {
+        expect(getMajorTokens(Chain.BSC).map(({ asset }) => asset)).toEqual(['USDC', 'USDT', 'DAI', 'BTC', 'ETH']);
+        expect(getMajorTokens(Chain.MONAD)).toEqual([]);
+    });
+
+    it('should keep the EVM tables consistent with their chains', () => {
+        for (const chain of allEvmChains) {
+            for (const { token } of Object.values(EVM.constants.MAJOR_TOKENS[chain])) {
+                expect(token.chainId).toBe(EVM.constants.ChainIds[chain]);
+            }
+        }
+    });
+
+    it('should have valid Solana mints and TON jetton masters', () => {
+        Object.values(Solana.constants.SPL_TOKENS).forEach(({ mint }) => expect(new PublicKey(mint).toBase58()).toBe(mint));
+        Object.values(TON.constants.JETTONS).forEach(({ master }) => expect(() => TonAddress.parse(master)).not.toThrow());
+    });
+});
+
+describe('findMajorToken', () => {
+    it('should flag bridged variants', () => {
+        expect(findMajorToken(Chain.ARBITRUM, '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8')).toMatchObject({ asset: 'USDC', bridged: true, token: { symbol: 'USDC.e' } });
+        expect(findMajorToken(Chain.ARBITRUM, '0xaf88d065e77c8cC2239327C5EDb3A432268e5831')).toMatchObject({ asset: 'USDC', bridged: false });
+        expect(findMajorToken(Chain.SOLANA, Solana.constants.SPL_TOKENS.wbtc.mint)).toMatchObject({ asset: 'BTC', bridged: true });
+    });
+
+    it('should match addresses in any notation', () => {
+        expect(findMajorToken(Chain.BASE, '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913')?.token.symbol).toBe('USDC');
+        const raw = TonAddress.parse(TON.constants.JETTONS.usdt.master).toRawString();
+        expect(findMajorToken(Chain.TON, raw)?.token.symbol).toBe('USD₮');
+    });
+
+    it('should return undefined for unknown tokens and other chains', () => {
+        expect(findMajorToken(Chain.BASE, '0x0000000000000000000000000000000000000bad')).toBeUndefined();
+        expect(findMajorToken(Chain.OPTIMISM, '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913')).toBeUndefined();
+    });
+});
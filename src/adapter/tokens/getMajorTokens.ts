@@ -0,0 +1,77 @@
+import { UserToken } from '../types';
+import { Chain, EVM, EvmChain, MajorAsset, Solana, TON } from '../../blockchain';
+import { toComparableAddress } from './toComparableAddress';
+
+/**
+ * Canonical stablecoin or major token of any chain
+ * @interface MajorTokenInfo
+ */
+export interface MajorTokenInfo {
+    readonly token: UserToken;
+    /** Asset the token represents, shared by its native and bridged variants */
+    readonly asset: MajorAsset;
+    /** True for bridged or pegged variants (USDC.e, USDbC, jUSDT), false for the issuer's own deployment */
+    readonly bridged: boolean;
+}
+
+function getAllMajorTokens(chain: Chain): MajorTokenInfo[] {
+    if (chain === Chain.SOLANA) {
+        return Object.values(Solana.constants.SPL_TOKENS).map(({ mint, symbol, name, decimals, asset, bridged }) => ({
+            token: { chain, address: mint, symbol, name, decimals },
+            asset,
+            bridged,
+        }));
+    }
+    if (chain === Chain.TON) {
+        return Object.values(TON.constants.JETTONS).map(({ master, symbol, name, decimals, asset, bridged }) => ({
+            token: { chain, address: master, symbol, name, decimals },
+            asset,
+            bridged,
+        }));
+    }
+    return Object.values(EVM.constants.MAJOR_TOKENS[chain as EvmChain]).map(({ token, asset, bridged }) => ({
+        token: { chain, address: token.address, symbol: token.symbol ?? '', name: token.name ?? token.symbol ?? token.address, decimals: token.decimals },
+        asset,
+        bridged,
+    }));
+}
+
+/**
+ * Returns the canonical stablecoins and major tokens of a chain
+ * @param chain - Chain of the tokens
+ * @param asset - Only return variants of this asset
+ * @returns Tokens from `EVM.constants.MAJOR_TOKENS`, `Solana.constants.SPL_TOKENS` or `TON.constants.JETTONS`, native variants first
+ * @example
+ * ```typescript
+ * getMajorTokens(Chain.ARBITRUM, 'USDC').map(({ token, bridged }) => [token.symbol, bridged]); // [['USDC', false], ['USDC.e', true]]
+ *
+ * // Prefer the issuer's deployment, fall back to a bridged one
+ * const [usdc] = getMajorTokens(chain, 'USDC');
+ * if (usdc?.bridged) await options.notify(`Only bridged ${usdc.token.symbol} is available on ${chain}`);
+ * ```
+ */
+export function getMajorTokens(chain: Chain, asset?: MajorAsset): MajorTokenInfo[] {
+    const tokens = getAllMajorTokens(chain).filter(token => !asset || token.asset === asset);
+    return [...tokens.filter(({ bridged }) => !bridged), ...tokens.filter(({ bridged }) => bridged)];
+}
+
+/**
+ * Looks up a canonical stablecoin or major token by address
+ * @param chain - Chain of the token
+ * @param address - Token address, mint or jetton master in any notation
+ * @returns The token with its asset and bridged flag, undefined when the address is not a known major token
+ * @example
+ * ```typescript
+ * const major = findMajorToken(Chain.ARBITRUM, '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8');
+ * // { token: { symbol: 'USDC.e', decimals: 6, ... }, asset: 'USDC', bridged: true }
+ *
+ * if (major?.bridged) {
+ *   const [preferred] = getMajorTokens(Chain.ARBITRUM, major.asset);
+ *   // preferred.token.symbol === 'USDC'
+ * }
+ * ```
+ */
+export function findMajorToken(chain: Chain, address: string): MajorTokenInfo | undefined {
+    const comparable = toComparableAddress(chain, address);
+    return getAllMajorTokens(chain).find(({ token }) => toComparableAddress(chain, token.address) === comparable);
+}
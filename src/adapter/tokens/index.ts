@@ -0,0 +1,4 @@
+export * from './getBuiltInTokens';
+export * from './getMajorTokens';
+export * from './toComparableAddress';
+export * from './TokenResolver';
@@ -0,0 +1,26 @@
+import { Address as TonAddress } from '@ton/ton';
+import { Chain, EVM } from '../../blockchain';
+
+/**
+ * Returns a form of the address that is equal for all notations of the same address on the chain
+ * @param chain - Chain of the address
+ * @param address - Address in any notation (checksummed or lowercase EVM, bounceable or raw TON)
+ * @returns Lowercase EVM address, raw TON address or the unchanged Solana address, `NATIVE_ADDRESS` in lowercase for the native asset
+ * @example
+ * ```typescript
+ * toComparableAddress(Chain.BASE, '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913') === toComparableAddress(Chain.BASE, '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913'); // true
+ * ```
+ */
+export function toComparableAddress(chain: Chain, address: string): string {
+    const value = address.trim();
+    if (EVM.utils.isNativeAddress(value)) return EVM.constants.NATIVE_ADDRESS.toLowerCase();
+    if (chain === Chain.SOLANA) return value;
+    if (chain === Chain.TON) {
+        try {
+            return TonAddress.parse(value).toRawString();
+        } catch (_error) {
+            return value;
+        }
+    }
+    return value.toLowerCase();
+}
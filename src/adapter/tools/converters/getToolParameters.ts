@@ -0,0 +1,13 @@
+import { OpenAI } from 'openai';
+import { JsonSchema } from '../../schema';
+
+const EMPTY_PARAMETERS: JsonSchema = { type: 'object', properties: {} };
+
+/**
+ * Returns the parameters schema of a function tool, defaulting to an empty object schema
+ * @param tool - OpenAI function tool
+ * @returns JSON Schema of the function arguments
+ */
+export function getToolParameters(tool: OpenAI.Chat.Completions.ChatCompletionFunctionTool): JsonSchema {
+    return (tool.function.parameters as JsonSchema | undefined) ?? EMPTY_PARAMETERS;
+}
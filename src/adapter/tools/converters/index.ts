@@ -0,0 +1,6 @@
+export * from './types';
+export * from './getToolParameters';
+export * from './toAnthropicTools';
+export * from './toGeminiFunctionDeclarations';
+export * from './toMcpTools';
+export * from './toResponsesTools';
@@ -0,0 +1,40 @@
+import { OpenAI } from 'openai';
+import { toAnthropicTools } from './toAnthropicTools';
+
+describe('toAnthropicTools', () => {
+    const parameters = { type: 'object', properties: { amount: { type: 'string' } }, required: ['amount'] };
+
+    it('should convert function tools', () => {
+        const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+            { type: 'function', function: { name: 'supply', description: 'Supply tokens', parameters } },
+            { type: 'function', function: { name: 'getPositions' } },
+        ];
+        expect(toAnthropicTools(tools)).toEqual({
+            tools: [
+                { name: 'supply', description: 'Supply tokens', input_schema: parameters },
+                { name: 'getPositions', input_schema: { type: 'object', properties: {} } },
+            ],
+            warnings: [],
+        });
+    });
+
+    it('should skip tools Anthropic cannot express', () => {
+        const { tools, warnings } = toAnthropicTools([
+            { type: 'custom', custom: { name: 'sql' } },
+            { type: 'function', function: { name: 'aave.supply', parameters } },
+            { type: 'function', function: { name: 'echo', parameters: { type: 'string' } } },
+        ]);
+        expect(tools).toEqual([]);
+        expect(warnings).toEqual([
+            { tool: 'sql', path: '', message: 'Custom tools are not supported, tool skipped' },
+            { tool: 'aave.supply', path: '', message: 'Tool name must match ^[a-zA-Z0-9_-]{1,64}$, tool skipped' },
+            { tool: 'echo', path: '/type', message: 'Input schema must be an object, tool skipped' },
+        ]);
+    });
+
+    it('should warn about dropped strict mode', () => {
+        const { tools, warnings } = toAnthropicTools([{ type: 'function', function: { name: 'supply', parameters, strict: true } }]);
+        expect(tools).toHaveLength(1);
+        expect(warnings).toEqual([{ tool: 'supply', path: '', message: 'Strict mode is not supported and was dropped' }]);
+    });
+});
@@ -0,0 +1,65 @@
+import { OpenAI } from 'openai';
+import { JsonSchema } from '../../schema';
+import { ToolConversion, ToolConversionWarning } from './types';
+import { getToolParameters } from './getToolParameters';
+
+const ANTHROPIC_TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Tool definition for the Anthropic Messages API
+ * @interface AnthropicTool
+ */
+export interface AnthropicTool {
+    /** Tool name */
+    readonly name: string;
+    /** Description for the model */
+    readonly description?: string;
+    /** JSON Schema of the tool input */
+    readonly input_schema: JsonSchema & { readonly type: 'object' };
+}
+
+/**
+ * Converts OpenAI tools to Anthropic Messages API tools
+ * @param tools - OpenAI tools, e.g. `adapter.tools` or `registry.getTools()`
+ * @returns Anthropic tools and warnings about features Anthropic cannot express
+ * @description Custom (free-form) tools and names Anthropic does not accept are left out. `strict` is ignored.
+ * @example
+ * ```typescript
+ * const { tools, warnings } = toAnthropicTools(adapter.tools);
+ * const message = await anthropic.messages.create({ model, max_tokens: 1024, messages, tools });
+ * ```
+ */
+export function toAnthropicTools(tools: OpenAI.Chat.Completions.ChatCompletionTool[]): ToolConversion<AnthropicTool> {
+    const result: AnthropicTool[] = [];
+    const warnings: ToolConversionWarning[] = [];
+
+    for (const tool of tools) {
+        if (tool.type === 'custom') {
+            warnings.push({ tool: tool.custom.name, path: '', message: 'Custom tools are not supported, tool skipped' });
+            continue;
+        }
+
+        const { name, description, strict } = tool.function;
+        if (!ANTHROPIC_TOOL_NAME_PATTERN.test(name)) {
+            warnings.push({ tool: name, path: '', message: 'Tool name must match ^[a-zA-Z0-9_-]{1,64}$, tool skipped' });
+            continue;
+        }
+        if (strict) {
+            warnings.push({ tool: name, path: '', message: 'Strict mode is not supported and was dropped' });
+        }
+
+        const parameters = getToolParameters(tool);
+        if (parameters.type !== 'object') {
+            warnings.push({ tool: name, path: '/type', message: 'Input schema must be an object, tool skipped' });
+            continue;
+        }
+
+        result.push({
+            name,
+            ...(description && { description }),
+            input_schema: parameters as AnthropicTool['input_schema'],
+        });
+    }
+
+    return { tools: result, warnings };
+}
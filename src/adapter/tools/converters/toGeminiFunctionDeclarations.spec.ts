@@ -0,0 +1,81 @@
+import { toGeminiFunctionDeclarations } from './toGeminiFunctionDeclarations';
+
+describe('toGeminiFunctionDeclarations', () => {
+    it('should convert a schema to the Gemini subset', () => {
+        const { tools, warnings } = toGeminiFunctionDeclarations([
+            {
+                type: 'function',
+                function: {
+                    name: 'swap',
+                    description: 'Swap tokens',
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            chainName: { type: 'string', enum: ['ethereum', 'base'], description: 'Chain' },
+                            amount: { type: 'string', pattern: '^[0-9.]+$' },
+                            route: { type: 'array', items: { type: 'string' }, minItems: 1 },
+                            slippage: { type: ['number', 'null'], minimum: 0 },
+                        },
+                        required: ['chainName', 'amount'],
+                    },
+                },
+            },
+        ]);
+
+        expect(warnings).toEqual([]);
+        expect(tools).toEqual([
+            {
+                name: 'swap',
+                description: 'Swap tokens',
+                parameters: {
+                    type: 'OBJECT',
+                    properties: {
+                        chainName: { type: 'STRING', enum: ['ethereum', 'base'], description: 'Chain' },
+                        amount: { type: 'STRING', pattern: '^[0-9.]+$' },
+                        route: { type: 'ARRAY', items: { type: 'STRING' }, minItems: 1 },
+                        slippage: { type: 'NUMBER', nullable: true, minimum: 0 },
+                    },
+                    required: ['chainName', 'amount'],
+                },
+            },
+        ]);
+    });
+
+    it('should report features Gemini cannot express', () => {
+        const { tools, warnings } = toGeminiFunctionDeclarations([
+            { type: 'custom', custom: { name: 'sql' } },
+            {
+                type: 'function',
+                function: {
+                    name: 'transfer',
+                    strict: true,
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            mode: { const: 'max' },
+                            decimals: { type: 'integer', enum: [6, 18] },
+                            amount: { type: ['string', 'number'] },
+                            target: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+                        },
+                        additionalProperties: false,
+                    },
+                },
+            },
+        ]);
+
+        expect(tools[0].parameters?.properties).toEqual({
+            mode: { type: 'STRING', enum: ['max'] },
+            decimals: { type: 'INTEGER' },
+            amount: { type: 'STRING' },
+            target: { anyOf: [{ type: 'STRING' }, { type: 'INTEGER' }] },
+        });
+        expect(warnings).toEqual([
+            { tool: 'sql', path: '', message: 'Custom tools are not supported, tool skipped' },
+            { tool: 'transfer', path: '', message: 'Strict mode is not supported and was dropped' },
+            { tool: 'transfer', path: '/properties/decimals/enum', message: 'Only string values are supported and the constraint was dropped' },
+            { tool: 'transfer', path: '/properties/amount/type', message: 'Multiple types are not supported, only "string" was kept' },
+            { tool: 'transfer', path: '/properties/target/oneOf', message: 'oneOf is not supported and was converted to anyOf' },
+            { tool: 'transfer', path: '/additionalProperties', message: 'additionalProperties is not supported and was dropped' },
+        ]);
+    });
+});
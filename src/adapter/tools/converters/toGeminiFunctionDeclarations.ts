@@ -0,0 +1,158 @@
+import { OpenAI } from 'openai';
+import { JsonSchema, JsonSchemaType } from '../../schema';
+import { ToolConversion, ToolConversionWarning } from './types';
+import { getToolParameters } from './getToolParameters';
+
+/**
+ * Type names of the Gemini (OpenAPI 3.0) schema
+ */
+export type GeminiSchemaType = 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN' | 'ARRAY' | 'OBJECT';
+
+/**
+ * Schema subset accepted by Gemini function declarations
+ * @interface GeminiSchema
+ */
+export interface GeminiSchema {
+    readonly type?: GeminiSchemaType;
+    readonly description?: string;
+    readonly format?: string;
+    readonly nullable?: boolean;
+    readonly enum?: string[];
+    readonly properties?: Record<string, GeminiSchema>;
+    readonly required?: string[];
+    readonly items?: GeminiSchema;
+    readonly anyOf?: GeminiSchema[];
+    readonly minimum?: number;
+    readonly maximum?: number;
+    readonly minLength?: number;
+    readonly maxLength?: number;
+    readonly pattern?: string;
+    readonly minItems?: number;
+    readonly maxItems?: number;
+    readonly default?: unknown;
+}
+
+/**
+ * Gemini function declaration
+ * @interface GeminiFunctionDeclaration
+ */
+export interface GeminiFunctionDeclaration {
+    /** Function name */
+    readonly name: string;
+    /** Description for the model */
+    readonly description?: string;
+    /** Schema of the function arguments */
+    readonly parameters?: GeminiSchema;
+}
+
+const COPIED_KEYWORDS = ['description', 'format', 'minimum', 'maximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'default'] as const;
+const HANDLED_KEYWORDS = ['type', 'enum', 'const', 'properties', 'required', 'items', 'anyOf', 'oneOf', ...COPIED_KEYWORDS];
+
+function convertType(types: readonly JsonSchemaType[], path: string, warn: (path: string, message: string) => void): Pick<GeminiSchema, 'type' | 'nullable'> {
+    const nullable = types.includes('null');
+    const rest = types.filter(type => type !== 'null');
+
+    if (rest.length > 1) {
+        warn(`${path}/type`, `Multiple types are not supported, only "${rest[0]}" was kept`);
+    }
+    if (rest.length === 0) {
+        warn(`${path}/type`, 'Type "null" is not supported and was dropped');
+        return {};
+    }
+
+    return {
+        type: rest[0].toUpperCase() as GeminiSchemaType,
+        ...(nullable && { nullable }),
+    };
+}
+
+function convertSchema(schema: JsonSchema, path: string, warn: (path: string, message: string) => void): GeminiSchema {
+    const result: Record<string, unknown> = {};
+
+    if (schema.type !== undefined) {
+        Object.assign(result, convertType(Array.isArray(schema.type) ? schema.type : [schema.type as JsonSchemaType], path, warn));
+    }
+
+    for (const keyword of COPIED_KEYWORDS) {
+        if (schema[keyword] !== undefined) result[keyword] = schema[keyword];
+    }
+
+    const values = schema.enum ?? (schema.const !== undefined ? [schema.const] : undefined);
+    if (values) {
+        if (values.every(value => typeof value === 'string')) {
+            result.enum = values;
+            if (result.type === undefined) result.type = 'STRING';
+        } else {
+            warn(`${path}/${schema.enum ? 'enum' : 'const'}`, 'Only string values are supported and the constraint was dropped');
+        }
+    }
+
+    if (schema.properties) {
+        result.properties = Object.fromEntries(Object.entries(schema.properties).map(([name, property]) => [name, convertSchema(property, `${path}/properties/${name}`, warn)]));
+    }
+    if (schema.required) {
+        result.required = [...schema.required];
+    }
+    if (schema.items) {
+        result.items = convertSchema(schema.items, `${path}/items`, warn);
+    }
+
+    const variants = schema.anyOf ?? schema.oneOf;
+    if (variants) {
+        if (schema.oneOf) {
+            warn(`${path}/oneOf`, 'oneOf is not supported and was converted to anyOf');
+        }
+        result.anyOf = variants.map((variant, index) => convertSchema(variant, `${path}/${schema.anyOf ? 'anyOf' : 'oneOf'}/${index}`, warn));
+    }
+
+    for (const keyword of Object.keys(schema)) {
+        if (!HANDLED_KEYWORDS.includes(keyword)) {
+            warn(`${path}/${keyword}`, `${keyword} is not supported and was dropped`);
+        }
+    }
+
+    return result as GeminiSchema;
+}
+
+/**
+ * Converts OpenAI tools to Gemini function declarations
+ * @param tools - OpenAI tools, e.g. `adapter.tools` or `registry.getTools()`
+ * @returns Gemini function declarations and warnings about dropped or changed schema features
+ * @description Gemini uses an OpenAPI 3.0 schema subset: `['string', 'null']` becomes `nullable`, `const` becomes a single value `enum`,
+ * `oneOf` becomes `anyOf`, and keywords such as `additionalProperties` and `allOf` are dropped. Custom tools are left out.
+ * @example
+ * ```typescript
+ * const { tools: functionDeclarations, warnings } = toGeminiFunctionDeclarations(adapter.tools);
+ * const response = await ai.models.generateContent({
+ *   model: 'gemini-2.0-flash',
+ *   contents,
+ *   config: { tools: [{ functionDeclarations }] }
+ * });
+ * ```
+ */
+export function toGeminiFunctionDeclarations(tools: OpenAI.Chat.Completions.ChatCompletionTool[]): ToolConversion<GeminiFunctionDeclaration> {
+    const result: GeminiFunctionDeclaration[] = [];
+    const warnings: ToolConversionWarning[] = [];
+
+    for (const tool of tools) {
+        if (tool.type === 'custom') {
+            warnings.push({ tool: tool.custom.name, path: '', message: 'Custom tools are not supported, tool skipped' });
+            continue;
+        }
+
+        const { name, description, strict } = tool.function;
+        const warn = (path: string, message: string) => warnings.push({ tool: name, path, message });
+
+        if (strict) {
+            warn('', 'Strict mode is not supported and was dropped');
+        }
+
+        result.push({
+            name,
+            ...(description && { description }),
+            parameters: convertSchema(getToolParameters(tool), '', warn),
+        });
+    }
+
+    return { tools: result, warnings };
+}
@@ -0,0 +1,33 @@
+import { toMcpTools } from './toMcpTools';
+
+describe('toMcpTools', () => {
+    const parameters = { type: 'object', properties: { amount: { type: 'string' } }, required: ['amount'] };
+
+    it('should convert function tools', () => {
+        expect(
+            toMcpTools([
+                { type: 'function', function: { name: 'supply', description: 'Supply tokens', parameters } },
+                { type: 'function', function: { name: 'getPositions' } },
+            ]),
+        ).toEqual({
+            tools: [
+                { name: 'supply', description: 'Supply tokens', inputSchema: parameters },
+                { name: 'getPositions', inputSchema: { type: 'object', properties: {} } },
+            ],
+            warnings: [],
+        });
+    });
+
+    it('should skip tools MCP cannot express', () => {
+        const { tools, warnings } = toMcpTools([
+            { type: 'custom', custom: { name: 'sql' } },
+            { type: 'function', function: { name: 'echo', parameters: { type: 'string' }, strict: true } },
+        ]);
+        expect(tools).toEqual([]);
+        expect(warnings).toEqual([
+            { tool: 'sql', path: '', message: 'Custom tools are not supported, tool skipped' },
+            { tool: 'echo', path: '', message: 'Strict mode is not supported and was dropped' },
+            { tool: 'echo', path: '/type', message: 'Input schema must be an object, tool skipped' },
+        ]);
+    });
+});
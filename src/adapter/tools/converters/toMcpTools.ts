@@ -0,0 +1,79 @@
+import { OpenAI } from 'openai';
+import { JsonSchema } from '../../schema';
+import { ToolConversion, ToolConversionWarning } from './types';
+import { getToolParameters } from './getToolParameters';
+
+/**
+ * Hints describing tool behavior to MCP clients
+ * @interface McpToolAnnotations
+ */
+export interface McpToolAnnotations {
+    /** Human readable title */
+    readonly title?: string;
+    /** The tool does not modify its environment */
+    readonly readOnlyHint?: boolean;
+    /** The tool may perform destructive updates */
+    readonly destructiveHint?: boolean;
+    /** Calling the tool repeatedly with the same arguments has no additional effect */
+    readonly idempotentHint?: boolean;
+    /** The tool interacts with external entities */
+    readonly openWorldHint?: boolean;
+}
+
+/**
+ * Model Context Protocol tool definition
+ * @interface McpTool
+ */
+export interface McpTool {
+    /** Tool name */
+    readonly name: string;
+    /** Description for the model */
+    readonly description?: string;
+    /** JSON Schema of the tool arguments */
+    readonly inputSchema: JsonSchema & { readonly type: 'object' };
+    /** Behavior hints */
+    readonly annotations?: McpToolAnnotations;
+}
+
+/**
+ * Converts OpenAI tools to Model Context Protocol tools
+ * @param tools - OpenAI tools, e.g. `adapter.tools` or `registry.getTools()`
+ * @returns MCP tools and warnings about features MCP cannot express
+ * @description MCP input schemas are plain JSON Schema objects. Custom tools and non-object schemas are left out, `strict` is dropped.
+ * @example
+ * ```typescript
+ * const { tools } = toMcpTools(adapter.tools);
+ * // Respond to `tools/list`
+ * return { tools };
+ * ```
+ */
+export function toMcpTools(tools: OpenAI.Chat.Completions.ChatCompletionTool[]): ToolConversion<McpTool> {
+    const result: McpTool[] = [];
+    const warnings: ToolConversionWarning[] = [];
+
+    for (const tool of tools) {
+        if (tool.type === 'custom') {
+            warnings.push({ tool: tool.custom.name, path: '', message: 'Custom tools are not supported, tool skipped' });
+            continue;
+        }
+
+        const { name, description, strict } = tool.function;
+        if (strict) {
+            warnings.push({ tool: name, path: '', message: 'Strict mode is not supported and was dropped' });
+        }
+
+        const parameters = getToolParameters(tool);
+        if (parameters.type !== 'object') {
+            warnings.push({ tool: name, path: '/type', message: 'Input schema must be an object, tool skipped' });
+            continue;
+        }
+
+        result.push({
+            name,
+            ...(description && { description }),
+            inputSchema: parameters as McpTool['inputSchema'],
+        });
+    }
+
+    return { tools: result, warnings };
+}
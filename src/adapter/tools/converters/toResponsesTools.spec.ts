@@ -0,0 +1,32 @@
+import { toResponsesTools } from './toResponsesTools';
+
+describe('toResponsesTools', () => {
+    it('should convert function tools and keep strict mode off by default', () => {
+        const parameters = { type: 'object', properties: {} };
+        expect(
+            toResponsesTools([
+                { type: 'function', function: { name: 'supply', description: 'Supply tokens', parameters } },
+                { type: 'function', function: { name: 'withdraw', parameters, strict: true } },
+                { type: 'function', function: { name: 'getPositions' } },
+            ]),
+        ).toEqual({
+            tools: [
+                { type: 'function', name: 'supply', description: 'Supply tokens', parameters, strict: false },
+                { type: 'function', name: 'withdraw', parameters, strict: true },
+                { type: 'function', name: 'getPositions', parameters: null, strict: false },
+            ],
+            warnings: [],
+        });
+    });
+
+    it('should convert custom tools', () => {
+        const { tools } = toResponsesTools([
+            { type: 'custom', custom: { name: 'sql', description: 'Run SQL', format: { type: 'grammar', grammar: { definition: 'start: "x"', syntax: 'lark' } } } },
+            { type: 'custom', custom: { name: 'note', format: { type: 'text' } } },
+        ]);
+        expect(tools).toEqual([
+            { type: 'custom', name: 'sql', description: 'Run SQL', format: { type: 'grammar', definition: 'start: "x"', syntax: 'lark' } },
+            { type: 'custom', name: 'note', format: { type: 'text' } },
+        ]);
+    });
+});
@@ -0,0 +1,39 @@
+import { OpenAI } from 'openai';
+import { ToolConversion } from './types';
+
+/**
+ * Converts Chat Completions tools to OpenAI Responses API tools
+ * @param tools - Chat Completions tools, e.g. `adapter.tools` or `registry.getTools()`
+ * @returns Responses API tools. Every feature can be expressed, so there are never warnings.
+ * @description `strict` defaults to true in the Responses API, so an unset value is converted to false to keep the Chat Completions behavior
+ * @example
+ * ```typescript
+ * const { tools } = toResponsesTools(adapter.tools);
+ * const response = await openai.responses.create({ model: 'gpt-4o', input, tools });
+ * ```
+ */
+export function toResponsesTools(tools: OpenAI.Chat.Completions.ChatCompletionTool[]): ToolConversion<OpenAI.Responses.FunctionTool | OpenAI.Responses.CustomTool> {
+    return {
+        tools: tools.map(tool => {
+            if (tool.type === 'custom') {
+                const { name, description, format } = tool.custom;
+                return {
+                    type: 'custom',
+                    name,
+                    ...(description && { description }),
+                    ...(format && { format: format.type === 'grammar' ? { type: 'grammar', ...format.grammar } : format }),
+                };
+            }
+
+            const { name, description, parameters, strict } = tool.function;
+            return {
+                type: 'function',
+                name,
+                ...(description && { description }),
+                parameters: parameters ?? null,
+                strict: strict ?? false,
+            };
+        }),
+        warnings: [],
+    };
+}
@@ -0,0 +1,23 @@
+/**
+ * Part of a tool definition the target format cannot express
+ * @interface ToolConversionWarning
+ */
+export interface ToolConversionWarning {
+    /** Tool name */
+    readonly tool: string;
+    /** Location inside the tool parameters schema ('' for the tool itself) */
+    readonly path: string;
+    /** What was dropped or changed */
+    readonly message: string;
+}
+
+/**
+ * Tools converted to another format, with everything that could not be expressed
+ * @interface ToolConversion
+ */
+export interface ToolConversion<T> {
+    /** Converted tools. Tools that cannot be expressed at all are left out. */
+    readonly tools: T[];
+    /** Lost or changed schema features */
+    readonly warnings: ToolConversionWarning[];
+}
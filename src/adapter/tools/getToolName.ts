@@ -0,0 +1,15 @@
+import { OpenAI } from 'openai';
+
+/**
+ * Returns the name the model uses to call a tool
+ * @param tool - OpenAI tool definition (function or custom tool)
+ * @returns Tool name
+ * @example
+ * ```typescript
+ * getToolName({ type: 'function', function: { name: 'swap' } }); // 'swap'
+ * getToolName({ type: 'custom', custom: { name: 'grammar' } });  // 'grammar'
+ * ```
+ */
+export function getToolName(tool: OpenAI.Chat.Completions.ChatCompletionTool): string {
+    return tool.type === 'custom' ? tool.custom.name : tool.function.name;
+}
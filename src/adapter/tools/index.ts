@@ -0,0 +1,3 @@
+export * from './getToolName';
+export * from './renameTool';
+export * from './converters';
@@ -0,0 +1,16 @@
+import { renameTool } from './renameTool';
+import { getToolName } from './getToolName';
+
+describe('renameTool', () => {
+    it('should rename function tools', () => {
+        const tool = { type: 'function' as const, function: { name: 'supply', description: 'Supply' } };
+        const renamed = renameTool(tool, 'aave__supply');
+        expect(renamed).toEqual({ type: 'function', function: { name: 'aave__supply', description: 'Supply' } });
+        expect(tool.function.name).toBe('supply');
+    });
+
+    it('should rename custom tools', () => {
+        const renamed = renameTool({ type: 'custom', custom: { name: 'query' } }, 'db__query');
+        expect(getToolName(renamed)).toBe('db__query');
+    });
+});
@@ -0,0 +1,19 @@
+import { OpenAI } from 'openai';
+
+/**
+ * Returns a copy of a tool with a different name
+ * @param tool - OpenAI tool definition (function or custom tool)
+ * @param name - New tool name
+ * @returns Tool definition with the new name, the original is not modified
+ * @example
+ * ```typescript
+ * renameTool({ type: 'function', function: { name: 'supply' } }, 'aave__supply');
+ * // { type: 'function', function: { name: 'aave__supply' } }
+ * ```
+ */
+export function renameTool(tool: OpenAI.Chat.Completions.ChatCompletionTool, name: string): OpenAI.Chat.Completions.ChatCompletionTool {
+    if (tool.type === 'custom') {
+        return { ...tool, custom: { ...tool.custom, name } };
+    }
+    return { ...tool, function: { ...tool.function, name } };
+}
@@ -0,0 +1,105 @@
+import {
+    BaseError,
+    ContractFunctionExecutionError,
+    ContractFunctionRevertedError,
+    encodeErrorResult,
+    Hex,
+    HttpRequestError,
+    InsufficientFundsError,
+    NonceTooLowError,
+    parseAbi,
+    UserRejectedRequestError,
+} from 'viem';
+import { SendTransactionError, TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+import { errorToResult, ErrorReason } from './errorToResult';
+import { FunctionErrorCode } from '../types';
+
+describe('errorToResult', () => {
+    const abi = parseAbi(['error Error(string message)', 'error InsufficientLiquidity(uint256 available, address pool)']);
+
+    function reverted(data: Hex) {
+        const cause = new ContractFunctionRevertedError({ abi, data, functionName: 'swap' });
+        return new ContractFunctionExecutionError(cause, { abi, functionName: 'swap' });
+    }
+
+    it('should decode EVM revert reasons and custom errors', () => {
+        const withReason = errorToResult(reverted(encodeErrorResult({ abi, errorName: 'Error', args: ['ERC20: transfer amount exceeds balance'] })));
+        expect(withReason).toMatchObject({
+            success: false,
+            data: 'ERROR: Transaction reverted: ERC20: transfer amount exceeds balance',
+            errorCode: FunctionErrorCode.TRANSACTION_FAILED,
+            payload: { reason: ErrorReason.REVERTED },
+        });
+        expect(withReason.payload!.detail).toContain('swap');
+
+        const custom = errorToResult(reverted(encodeErrorResult({ abi, errorName: 'InsufficientLiquidity', args: [5n, '0x0000000000000000000000000000000000000001'] })));
+        expect(custom.data).toBe('ERROR: Transaction reverted: InsufficientLiquidity(5, 0x0000000000000000000000000000000000000001)');
+    });
+
+    it('should recognize viem errors anywhere in the cause chain', () => {
+        expect(errorToResult(new BaseError('Send failed', { cause: new InsufficientFundsError() }))).toMatchObject({
+            data: 'ERROR: Insufficient funds to cover the amount and network fees',
+            errorCode: FunctionErrorCode.INSUFFICIENT_BALANCE,
+            payload: { reason: ErrorReason.INSUFFICIENT_FUNDS },
+        });
+        expect(errorToResult(new BaseError('Send failed', { cause: new UserRejectedRequestError(new Error('denied')) }))).toMatchObject({
+            errorCode: FunctionErrorCode.USER_REJECTED,
+            payload: { reason: ErrorReason.USER_REJECTED },
+        });
+        expect(errorToResult(new NonceTooLowError({ nonce: 3 }))).toMatchObject({
+            errorCode: FunctionErrorCode.TRANSACTION_FAILED,
+            payload: { reason: ErrorReason.NONCE_TOO_LOW },
+        });
+        expect(errorToResult(new HttpRequestError({ status: 429, url: 'https://rpc.example' }))).toMatchObject({
+            data: 'ERROR: Rate limited by the RPC provider, retry later',
+            errorCode: FunctionErrorCode.RPC_ERROR,
+            payload: { reason: ErrorReason.RATE_LIMITED },
+        });
+    });
+
+    it('should recognize Solana errors and keep the logs', () => {
+        const error = new SendTransactionError({
+            action: 'send',
+            signature: '',
+            transactionMessage: 'Transaction simulation failed: Error processing Instruction 2: custom program error: 0x1771',
+            logs: ['Program JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4 invoke [1]', 'Program log: Error: SlippageToleranceExceeded'],
+        });
+
+        const result = errorToResult(error);
+
+        expect(result).toMatchObject({ data: 'ERROR: Transaction reverted: custom program error: 0x1771', errorCode: FunctionErrorCode.TRANSACTION_FAILED });
+        expect(result.payload!.detail).toContain('Program log: Error: SlippageToleranceExceeded');
+        expect(errorToResult(new TransactionExpiredBlockheightExceededError('5VT'))).toMatchObject({ payload: { reason: ErrorReason.BLOCKHASH_EXPIRED } });
+        expect(errorToResult(new Error('failed to send transaction: Transaction simulation failed: Blockhash not found'))).toMatchObject({
+            payload: { reason: ErrorReason.BLOCKHASH_EXPIRED },
+        });
+        expect(errorToResult(new Error('Transfer: insufficient lamports 1000, need 5000'))).toMatchObject({ payload: { reason: ErrorReason.INSUFFICIENT_FUNDS } });
+    });
+
+    it('should recognize TON API errors with response bodies', () => {
+        const bounced = Object.assign(new Error('Request failed with status code 500'), { response: { status: 500, data: { error: 'message bounced: exit code 48' } } });
+        const limited = Object.assign(new Error('Request failed with status code 429'), { response: { status: 429, data: 'Too Many Requests' } });
+
+        const result = errorToResult(bounced);
+
+        expect(result).toMatchObject({ errorCode: FunctionErrorCode.TRANSACTION_FAILED, payload: { reason: ErrorReason.BOUNCED } });
+        expect(result.payload!.detail).toBe('Request failed with status code 500\n{"error":"message bounced: exit code 48"}');
+        expect(errorToResult(limited)).toMatchObject({ payload: { reason: ErrorReason.RATE_LIMITED, detail: 'Request failed with status code 429\nToo Many Requests' } });
+    });
+
+    it('should recognize wallet rejections by message', () => {
+        expect(errorToResult(new Error('User rejected the request.'))).toMatchObject({ errorCode: FunctionErrorCode.USER_REJECTED });
+        expect(errorToResult({ code: 4001, message: 'MetaMask Tx Signature: User denied transaction signature.' })).toMatchObject({ errorCode: FunctionErrorCode.USER_REJECTED });
+    });
+
+    it('should keep the short message of unknown errors', () => {
+        expect(errorToResult(new Error('Pool not found\nat getPool'))).toEqual({
+            success: false,
+            data: 'ERROR: Pool not found',
+            errorCode: FunctionErrorCode.UNKNOWN,
+            payload: { reason: ErrorReason.UNKNOWN, detail: 'Pool not found\nat getPool' },
+        });
+        expect(errorToResult(new BaseError('Something broke', { details: 'more details' })).data).toBe('ERROR: Something broke');
+        expect(errorToResult('plain string').data).toBe('ERROR: plain string');
+    });
+});
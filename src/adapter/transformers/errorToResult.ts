@@ -0,0 +1,181 @@
+import {
+    BaseError,
+    ContractFunctionRevertedError,
+    ExecutionRevertedError,
+    HttpRequestError,
+    InsufficientFundsError,
+    LimitExceededRpcError,
+    NonceTooLowError,
+    UserRejectedRequestError,
+} from 'viem';
+import { SendTransactionError, TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+import { FunctionErrorCode, FunctionReturn } from '../types';
+import { stringify } from '../../utils';
+import { toResult } from './toResult';
+
+/**
+ * Recognized failure, more specific than `FunctionErrorCode`
+ * @enum ErrorReason
+ */
+export enum ErrorReason {
+    INSUFFICIENT_FUNDS = 'INSUFFICIENT_FUNDS',
+    REVERTED = 'REVERTED',
+    USER_REJECTED = 'USER_REJECTED',
+    NONCE_TOO_LOW = 'NONCE_TOO_LOW',
+    BLOCKHASH_EXPIRED = 'BLOCKHASH_EXPIRED',
+    RATE_LIMITED = 'RATE_LIMITED',
+    BOUNCED = 'BOUNCED',
+    UNKNOWN = 'UNKNOWN',
+}
+
+/**
+ * Payload of results created by `errorToResult`
+ * @interface ErrorResultPayload
+ */
+export interface ErrorResultPayload {
+    /** Recognized failure */
+    readonly reason: ErrorReason;
+    /** Full error text (including program logs and response bodies) for logs, not meant for the model */
+    readonly detail: string;
+}
+
+const ERROR_CODES: Record<ErrorReason, FunctionErrorCode> = {
+    [ErrorReason.INSUFFICIENT_FUNDS]: FunctionErrorCode.INSUFFICIENT_BALANCE,
+    [ErrorReason.REVERTED]: FunctionErrorCode.TRANSACTION_FAILED,
+    [ErrorReason.USER_REJECTED]: FunctionErrorCode.USER_REJECTED,
+    [ErrorReason.NONCE_TOO_LOW]: FunctionErrorCode.TRANSACTION_FAILED,
+    [ErrorReason.BLOCKHASH_EXPIRED]: FunctionErrorCode.TRANSACTION_FAILED,
+    [ErrorReason.RATE_LIMITED]: FunctionErrorCode.RPC_ERROR,
+    [ErrorReason.BOUNCED]: FunctionErrorCode.TRANSACTION_FAILED,
+    [ErrorReason.UNKNOWN]: FunctionErrorCode.UNKNOWN,
+};
+
+const MESSAGES: Record<Exclude<ErrorReason, ErrorReason.REVERTED | ErrorReason.UNKNOWN>, string> = {
+    [ErrorReason.INSUFFICIENT_FUNDS]: 'Insufficient funds to cover the amount and network fees',
+    [ErrorReason.USER_REJECTED]: 'User rejected the request',
+    [ErrorReason.NONCE_TOO_LOW]: 'Nonce too low: a transaction with this nonce was already sent, retry to use a fresh nonce',
+    [ErrorReason.BLOCKHASH_EXPIRED]: 'Transaction expired before confirmation (blockhash expired), retry with a fresh blockhash',
+    [ErrorReason.RATE_LIMITED]: 'Rate limited by the RPC provider, retry later',
+    [ErrorReason.BOUNCED]: 'Message bounced: the destination contract rejected it and the funds were returned minus fees',
+};
+
+/**
+ * Text patterns for errors that are only recognizable by their message (Solana, TON and wallet providers)
+ */
+const PATTERNS: { reason: ErrorReason; regexp: RegExp }[] = [
+    { reason: ErrorReason.USER_REJECTED, regexp: /user (rejected|denied|declined|cancel+ed)|rejected by (the )?user/ },
+    {
+        reason: ErrorReason.INSUFFICIENT_FUNDS,
+        regexp: /insufficient (funds|lamports|balance)|attempt to debit an account but found no record of a prior credit|not enough (funds|balance)/,
+    },
+    { reason: ErrorReason.NONCE_TOO_LOW, regexp: /nonce (too low|has already been used)/ },
+    { reason: ErrorReason.BLOCKHASH_EXPIRED, regexp: /blockhash not found|block ?height exceeded|blockhash (has )?expired/ },
+    { reason: ErrorReason.RATE_LIMITED, regexp: /\b429\b|too many requests|rate[- ]limit/ },
+    { reason: ErrorReason.BOUNCED, regexp: /bounced?\b/ },
+];
+
+const REVERT_PATTERNS = [/reverted with reason string '([^']*)'/, /execution reverted: ([^\n]+)/, /(custom program error: 0x[0-9a-f]+)/i, /(exit code:? -?\d+)/i];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function getDetail(error: unknown): string {
+    if (error instanceof SendTransactionError) {
+        return [error.message, ...(error.logs ?? [])].join('\n');
+    }
+    if (error instanceof Error) {
+        // HTTP clients (e.g. the TON API client) keep the response body apart from the message
+        const { response } = error as { response?: unknown };
+        const body = isRecord(response) ? response.data : undefined;
+        return body === undefined ? error.message : `${error.message}\n${typeof body === 'string' ? body : stringify(body)}`;
+    }
+    return typeof error === 'string' ? error : stringify(error);
+}
+
+function getStatus(error: unknown): number | undefined {
+    if (!isRecord(error)) return undefined;
+    if (typeof error.status === 'number') return error.status;
+    return isRecord(error.response) && typeof error.response.status === 'number' ? error.response.status : undefined;
+}
+
+function formatRevert(error: ContractFunctionRevertedError): string | undefined {
+    if (error.reason) return error.reason;
+    if (!error.data) return error.signature && `unknown custom error ${error.signature}`;
+
+    const { errorName, args = [] } = error.data;
+    return `${errorName}(${args.map(arg => (typeof arg === 'object' && arg !== null ? stringify(arg) : String(arg))).join(', ')})`;
+}
+
+function recognizeViemError(error: BaseError): { reason: ErrorReason; revertReason?: string } | undefined {
+    if (error.walk(cause => cause instanceof UserRejectedRequestError)) return { reason: ErrorReason.USER_REJECTED };
+    if (error.walk(cause => cause instanceof InsufficientFundsError)) return { reason: ErrorReason.INSUFFICIENT_FUNDS };
+    if (error.walk(cause => cause instanceof NonceTooLowError)) return { reason: ErrorReason.NONCE_TOO_LOW };
+    if (error.walk(cause => cause instanceof LimitExceededRpcError || (cause instanceof HttpRequestError && cause.status === 429))) {
+        return { reason: ErrorReason.RATE_LIMITED };
+    }
+
+    const reverted = error.walk(cause => cause instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) return { reason: ErrorReason.REVERTED, revertReason: formatRevert(reverted) };
+
+    const executionReverted = error.walk(cause => cause instanceof ExecutionRevertedError);
+    if (executionReverted instanceof ExecutionRevertedError) {
+        const match = executionReverted.details?.match(/execution reverted: (.+)/);
+        return { reason: ErrorReason.REVERTED, revertReason: match?.[1] };
+    }
+    return undefined;
+}
+
+function recognize(error: unknown, detail: string): { reason: ErrorReason; revertReason?: string } {
+    if (error instanceof BaseError) {
+        const recognized = recognizeViemError(error);
+        if (recognized) return recognized;
+    }
+    if (error instanceof TransactionExpiredBlockheightExceededError) return { reason: ErrorReason.BLOCKHASH_EXPIRED };
+    if (getStatus(error) === 429) return { reason: ErrorReason.RATE_LIMITED };
+
+    const text = detail.toLowerCase();
+    const pattern = PATTERNS.find(({ regexp }) => regexp.test(text));
+    if (pattern) return { reason: pattern.reason };
+
+    for (const regexp of REVERT_PATTERNS) {
+        const match = detail.match(regexp);
+        if (match) return { reason: ErrorReason.REVERTED, revertReason: match[1] };
+    }
+    if (/revert/.test(text)) return { reason: ErrorReason.REVERTED };
+
+    return { reason: ErrorReason.UNKNOWN };
+}
+
+/**
+ * Converts an error thrown by viem, Solana web3.js, the TON clients or a wallet into an error result
+ * @param error - Caught error
+ * @returns Error result with a concise message for the model, an error code, and the recognized reason with the raw detail as payload
+ * @description Recognizes insufficient funds, reverts (with the decoded reason or custom error), user rejections, low nonces,
+ * expired blockhashes, rate limits and bounced TON messages. Other errors keep their short message with `FunctionErrorCode.UNKNOWN`.
+ * @example
+ * ```typescript
+ * try {
+ *   await options.evm.sendTransactions({ chainId, account, transactions });
+ * } catch (error) {
+ *   const result = errorToResult(error);
+ *   logger.warn(result.payload?.detail);
+ *   return result; // { success: false, data: 'ERROR: Transaction reverted: ERC20: transfer amount exceeds balance', errorCode: 'TRANSACTION_FAILED', ... }
+ * }
+ * ```
+ */
+export function errorToResult(error: unknown): FunctionReturn<ErrorResultPayload> {
+    const detail = getDetail(error);
+    const { reason, revertReason } = recognize(error, detail);
+
+    let message: string;
+    if (reason === ErrorReason.REVERTED) {
+        message = revertReason ? `Transaction reverted: ${revertReason}` : 'Transaction reverted';
+    } else if (reason === ErrorReason.UNKNOWN) {
+        message = error instanceof BaseError ? error.shortMessage : detail.split('\n')[0];
+    } else {
+        message = MESSAGES[reason];
+    }
+
+    return toResult(message, { errorCode: ERROR_CODES[reason], payload: { reason, detail } });
+}
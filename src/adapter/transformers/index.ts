@@ -1 +1,2 @@
 export * from './toResult';
+export * from './errorToResult';
@@ -1,3 +1,5 @@
+import { Chain } from '../../blockchain';
+import { FunctionErrorCode } from '../types';
 import { toResult } from './toResult';
 
 describe('toResult', () => {
@@ -27,3 +29,28 @@ describe('toResult', () => {
         expect(result.data).toBe(JSON.stringify(data));
     });
 });
+
+describe('toResult with options', () => {
+    it('should keep the shape of plain results', () => {
+        expect(toResult('data', {})).toEqual({ success: true, data: 'data' });
+        expect(toResult('data', { error: true })).toEqual({ success: false, data: 'ERROR: data' });
+    });
+
+    it('should treat an error code as an error', () => {
+        const result = toResult('Not enough USDC', { errorCode: FunctionErrorCode.INSUFFICIENT_BALANCE });
+        expect(result).toEqual({ success: false, data: 'ERROR: Not enough USDC', errorCode: FunctionErrorCode.INSUFFICIENT_BALANCE });
+    });
+
+    it('should allow an error code on a successful result', () => {
+        const result = toResult('Partially filled', { error: false, errorCode: FunctionErrorCode.UNKNOWN });
+        expect(result.success).toBe(true);
+        expect(result.data).toBe('Partially filled');
+    });
+
+    it('should attach payload and transactions', () => {
+        const transactions = [{ chain: Chain.BASE, hash: '0x01' }];
+        const result = toResult<{ amountOut: string }>('Swapped', { payload: { amountOut: '3000' }, transactions });
+        expect(result).toEqual({ success: true, data: 'Swapped', payload: { amountOut: '3000' }, transactions });
+        expect(result.payload?.amountOut).toBe('3000');
+    });
+});
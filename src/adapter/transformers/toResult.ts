@@ -1,10 +1,25 @@
-import { FunctionReturn } from '../types';
+import { FunctionErrorCode, FunctionReturn, TransactionReference } from '../types';
 import { stringify } from '../../utils';
 
+/**
+ * Structured fields for `toResult`
+ * @interface ToResultOptions
+ */
+export interface ToResultOptions<TPayload = unknown> {
+    /** Whether this represents an error state (default: true when `errorCode` is set) */
+    readonly error?: boolean;
+    /** Machine-readable reason of the failure */
+    readonly errorCode?: FunctionErrorCode;
+    /** Typed result for programmatic callers */
+    readonly payload?: TPayload;
+    /** Transactions produced by the operation */
+    readonly transactions?: TransactionReference[];
+}
+
 /**
  * Transforms data into a standardized FunctionReturn format
  * @param data - The data to transform (string, object, or array)
- * @param error - Whether this represents an error state (default: false)
+ * @param error - Whether this represents an error state (default: false), or structured result fields
  * @returns Standardized function result with success status and formatted data
  * @example
  * ```typescript
@@ -23,12 +38,32 @@ import { stringify } from '../../utils';
  * // Error case with object
  * const result = toResult({ code: 404, message: "Not found" }, true);
  * // { success: false, data: 'ERROR: {"code":404,"message":"Not found"}' }
+ *
+ * // Error case with a machine-readable code
+ * const result = toResult("Not enough USDC", { errorCode: FunctionErrorCode.INSUFFICIENT_BALANCE });
+ * // { success: false, data: "ERROR: Not enough USDC", errorCode: "INSUFFICIENT_BALANCE" }
+ *
+ * // Success case with payload and transaction references
+ * const result = toResult("Swapped 1 ETH to 3000 USDC", {
+ *   payload: { amountOut: "3000" },
+ *   transactions: [{ chain: Chain.BASE, hash: "0x5c50..." }]
+ * });
+ * // { success: true, data: "Swapped 1 ETH to 3000 USDC", payload: { amountOut: "3000" }, transactions: [...] }
  * ```
  */
-export function toResult(data: string | Object | Array<any>, error = false): FunctionReturn {
+export function toResult(data: string | Object | Array<any>, error?: boolean): FunctionReturn;
+export function toResult<TPayload>(data: string | Object | Array<any>, options: ToResultOptions<TPayload>): FunctionReturn<TPayload>;
+export function toResult<TPayload>(data: string | Object | Array<any>, errorOrOptions: boolean | ToResultOptions<TPayload> = false): FunctionReturn<TPayload> {
+    const options: ToResultOptions<TPayload> = typeof errorOrOptions === 'boolean' ? { error: errorOrOptions } : errorOrOptions;
+    const { errorCode, payload, transactions } = options;
+    const error = options.error ?? errorCode !== undefined;
     const formatedData = typeof data === 'string' ? data : stringify(data);
+
     return {
         success: !error,
         data: error ? `ERROR: ${formatedData}` : formatedData,
+        ...(errorCode !== undefined && { errorCode }),
+        ...(payload !== undefined && { payload }),
+        ...(transactions !== undefined && { transactions }),
     };
 }
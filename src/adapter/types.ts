@@ -6,22 +6,95 @@ import { Address as TonAddress } from '@ton/ton';
 import { DeployContractProps, SignMessagesProps, SignTypedDatasProps } from '../blockchain/evm/types';
 import { Exchange, exchanges } from 'ccxt';
 
+/**
+ * Machine-readable reason of a failed adapter function
+ * @enum FunctionErrorCode
+ * @example
+ * ```typescript
+ * if (result.errorCode === FunctionErrorCode.USER_REJECTED) {
+ *   // Do not retry, the user declined the transaction
+ * }
+ * ```
+ */
+export enum FunctionErrorCode {
+    /** Arguments do not match the tool schema or are otherwise invalid */
+    INVALID_ARGS = 'INVALID_ARGS',
+    /** Wallet balance is too low for the operation */
+    INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
+    /** User declined the operation */
+    USER_REJECTED = 'USER_REJECTED',
+    /** RPC node or external API failed */
+    RPC_ERROR = 'RPC_ERROR',
+    /** Transaction was sent but failed or reverted */
+    TRANSACTION_FAILED = 'TRANSACTION_FAILED',
+    /** Requested chain is not supported */
+    UNSUPPORTED_CHAIN = 'UNSUPPORTED_CHAIN',
+    /** Call was refused by a rate limit or because the same user is already running an operation, retry later */
+    THROTTLED = 'THROTTLED',
+    /** Any other failure */
+    UNKNOWN = 'UNKNOWN',
+}
+
+/**
+ * Reference to a transaction produced by an adapter function
+ * @interface TransactionReference
+ * @example
+ * ```typescript
+ * const reference: TransactionReference = {
+ *   chain: Chain.BASE,
+ *   hash: "0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060"
+ * };
+ * ```
+ */
+export interface TransactionReference {
+    /** Chain the transaction was sent to */
+    readonly chain: Chain;
+    /** Transaction hash or signature */
+    readonly hash: string;
+}
+
+/**
+ * Details about how a result was produced, added by wrappers around adapter functions
+ * @interface FunctionResultMetadata
+ */
+export interface FunctionResultMetadata {
+    /** True when the result was served from a cache (see `cacheResults`) */
+    readonly cacheHit?: boolean;
+    /** Time the cached result was produced, in milliseconds since epoch */
+    readonly cachedAt?: number;
+}
+
 /**
  * Result of adapter function execution
  * @interface FunctionReturn
+ * @description `data` is the text shown to the model. The optional fields carry the same outcome in machine-readable form.
  * @example
  * ```typescript
  * const result: FunctionReturn = {
  *   success: true,
  *   data: "Transaction hash: 0x123..."
  * };
+ *
+ * const failed: FunctionReturn = {
+ *   success: false,
+ *   data: "ERROR: Not enough USDC",
+ *   errorCode: FunctionErrorCode.INSUFFICIENT_BALANCE
+ * };
  * ```
  */
-export interface FunctionReturn {
+export interface FunctionReturn<TPayload = unknown> {
     /** Success status of the operation */
     readonly success: boolean;
     /** Result data as string */
     readonly data: string;
+    /** Reason of the failure (optional) */
+    readonly errorCode?: FunctionErrorCode;
+    /** Typed result for programmatic callers (optional) */
+    readonly payload?: TPayload;
+    /** Transactions produced by the operation (optional) */
+    readonly transactions?: TransactionReference[];
+    /** Execution details added by wrappers (optional) */
+    readonly metadata?: FunctionResultMetadata;
 }
 
 /**
@@ -97,6 +170,8 @@ export interface UserFunctionOptions {
     readonly addUserToken: (token: UserToken) => Promise<UserToken>;
     /** Get user's password */
     readonly getUserPassword?: () => Promise<string>;
+    /** Persistence of the user's address book, keyed by `getUserId()` (see `AddressBook`) */
+    readonly addressBook?: AddressBookStore;
 }
 
 /**
@@ -126,6 +201,115 @@ export interface UserToken {
     readonly decimals: number;
 }
 
+/**
+ * Named contact of a user's address book
+ * @interface AddressBookContact
+ * @example
+ * ```typescript
+ * const alice: AddressBookContact = {
+ *   name: "Alice",
+ *   addresses: {
+ *     [WalletType.EVM]: "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045",
+ *     [WalletType.SOLANA]: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM"
+ *   },
+ *   note: "Savings wallet",
+ *   updatedAt: "2025-01-15T10:30:00.000Z"
+ * };
+ * ```
+ */
+export interface AddressBookContact {
+    /** Name the user refers to the contact by, unique per user regardless of case */
+    readonly name: string;
+    /** Normalized addresses by wallet type */
+    readonly addresses: Partial<Record<WalletType, string>>;
+    /** Free-form note */
+    readonly note?: string;
+    /** Time of the last change (ISO 8601) */
+    readonly updatedAt: string;
+}
+
+/**
+ * Persistence of address books, e.g. a database table keyed by user id
+ * @interface AddressBookStore
+ */
+export interface AddressBookStore {
+    /** Returns the contacts of the user, undefined when none were saved */
+    get(userId: string): Promise<AddressBookContact[] | undefined>;
+    /** Replaces the contacts of the user */
+    set(userId: string, contacts: AddressBookContact[]): Promise<void>;
+}
+
+/**
+ * Wallet operation the user is asked to confirm: sending transactions, signing messages, typed data or transactions, or
+ * deploying contracts
+ */
+export type ConfirmationAction = 'send' | 'sign' | 'deploy';
+
+/**
+ * Pending transactions the user is asked to confirm
+ * @interface ConfirmationRequest
+ * @example
+ * ```typescript
+ * const request: ConfirmationRequest = {
+ *   functionName: "supply",
+ *   action: "send",
+ *   walletType: WalletType.EVM,
+ *   chainId: 8453,
+ *   transactionCount: 1,
+ *   summary: "aave/supply wants to send 1 transaction on base (chain 8453) from 0x742d...:\n1. Call 0xA0b8... (selector 0x095ea7b3, 68 bytes)"
+ * };
+ * ```
+ */
+export interface ConfirmationRequest {
+    /** Adapter function sending the transactions */
+    readonly functionName: string;
+    /** Whether the user is asked to send transactions, sign messages or transactions, or deploy contracts */
+    readonly action: ConfirmationAction;
+    /** Wallet the transactions are sent from */
+    readonly walletType: WalletType;
+    /** EVM chain id (EVM only, when known) */
+    readonly chainId?: number;
+    /** Number of pending transactions, or of messages and contracts for signatures and deployments */
+    readonly transactionCount: number;
+    /** Human-readable description of the pending transactions */
+    readonly summary: string;
+}
+
+/**
+ * Status of a step of a multi-step operation
+ */
+export type ProgressStatus = 'pending' | 'success' | 'failed';
+
+/**
+ * Progress of one step of a multi-step operation (e.g. approve, swap, bridge)
+ * @interface ProgressUpdate
+ * @example
+ * ```typescript
+ * const update: ProgressUpdate = {
+ *   operationId: "lq2x5k-8f3a9c1d",
+ *   step: 2,
+ *   totalSteps: 3,
+ *   status: "success",
+ *   message: "Swapped 100 USDC to 0.03 ETH",
+ *   txLink: "https://basescan.org/tx/0x5c50..."
+ * };
+ * ```
+ */
+export interface ProgressUpdate {
+    /** Id shared by all updates of one operation */
+    readonly operationId: string;
+    /** 1-based step index */
+    readonly step: number;
+    /** Number of steps of the operation */
+    readonly totalSteps: number;
+    /** Step status */
+    readonly status: ProgressStatus;
+    /** Human-readable step description */
+    readonly message: string;
+    /** Explorer link of the step transaction (optional) */
+    readonly txLink?: string;
+}
+
 /**
  * Complete set of function options for all supported blockchains and utilities
  * @interface FunctionOptions
@@ -154,10 +338,14 @@ export interface FunctionOptions {
     readonly user?: UserFunctionOptions;
     /** Send notification to user */
     readonly notify?: (message: string, type?: 'alert' | 'regular') => Promise<void>;
+    /** Send structured progress of multi-step operations, hosts without it receive `notify` messages (see `ProgressReporter`) */
+    readonly notifyProgress?: (update: ProgressUpdate) => Promise<void>;
     /** Get recipient address for specific wallet type */
     readonly getRecipient?: (type: WalletType) => Promise<string>;
     /** Get CCXT exchange instance */
     readonly getCcxtExchange?: (name: keyof typeof exchanges) => Promise<Exchange>;
+    /** Ask the user to confirm pending transactions, resolves to false when rejected (see `withConfirmation`) */
+    readonly confirm?: (request: ConfirmationRequest) => Promise<boolean>;
 }
 
 /**
@@ -0,0 +1,100 @@
+import { AdapterExport } from '../types';
+import { Chain } from '../../blockchain';
+import { toResult } from '../transformers';
+import { AdapterIssueCode, AdapterValidationError, assertValidAdapter, validateAdapter } from './validateAdapter';
+
+function createAdapter(overrides: Partial<AdapterExport> = {}): AdapterExport {
+    return {
+        name: 'test',
+        description: 'Test adapter',
+        chains: [Chain.ETHEREUM, Chain.BASE],
+        functions: {
+            getBalance: async () => toResult('1'),
+            swap: async () => toResult('done'),
+        },
+        executableFunctions: ['swap'],
+        tools: [
+            {
+                type: 'function',
+                function: {
+                    name: 'getBalance',
+                    description: 'Get balance',
+                    parameters: { type: 'object', properties: { token: { type: 'string' } }, required: ['token'] },
+                },
+            },
+            {
+                type: 'function',
+                function: { name: 'swap', description: 'Swap', parameters: { type: 'object', properties: {} } },
+            },
+        ],
+        ...overrides,
+    };
+}
+
+describe('validateAdapter', () => {
+    it('should accept a consistent adapter', () => {
+        expect(validateAdapter(createAdapter())).toEqual({ valid: true, issues: [] });
+    });
+
+    it('should report tools without a function', () => {
+        const adapter = createAdapter({ functions: { swap: async () => toResult('done') } });
+        const { valid, issues } = validateAdapter(adapter);
+        expect(valid).toBe(false);
+        expect(issues).toEqual([expect.objectContaining({ code: AdapterIssueCode.MISSING_FUNCTION, name: 'getBalance', severity: 'error' })]);
+    });
+
+    it('should warn about functions without a tool', () => {
+        const adapter = createAdapter({ tools: createAdapter().tools.slice(1), executableFunctions: ['swap'] });
+        const { valid, issues } = validateAdapter(adapter);
+        expect(valid).toBe(true);
+        expect(issues).toEqual([expect.objectContaining({ code: AdapterIssueCode.MISSING_TOOL, name: 'getBalance', severity: 'warning' })]);
+    });
+
+    it('should report unknown executable functions', () => {
+        const { issues } = validateAdapter(createAdapter({ executableFunctions: ['swap', 'bridge'] }));
+        expect(issues).toEqual([expect.objectContaining({ code: AdapterIssueCode.UNKNOWN_EXECUTABLE_FUNCTION, name: 'bridge' })]);
+    });
+
+    it('should report malformed parameter schemas', () => {
+        const tools = createAdapter().tools;
+        const adapter = createAdapter({
+            tools: [tools[0], { type: 'function', function: { name: 'swap', parameters: { type: 'object', required: ['amount'] } } }],
+        });
+        const { issues } = validateAdapter(adapter);
+        expect(issues).toEqual([expect.objectContaining({ code: AdapterIssueCode.INVALID_PARAMETERS_SCHEMA, name: 'swap', path: '/required' })]);
+    });
+
+    it('should report duplicate tools', () => {
+        const tools = createAdapter().tools;
+        const { issues } = validateAdapter(createAdapter({ tools: [...tools, tools[1]] }));
+        expect(issues).toEqual([expect.objectContaining({ code: AdapterIssueCode.DUPLICATE_TOOL, name: 'swap' })]);
+    });
+
+    it('should report invalid and duplicate chains', () => {
+        const { issues } = validateAdapter(createAdapter({ chains: [Chain.ETHEREUM, 'mainnet' as Chain, Chain.ETHEREUM] }));
+        expect(issues.map(issue => issue.code)).toEqual([AdapterIssueCode.INVALID_CHAIN, AdapterIssueCode.DUPLICATE_CHAIN]);
+    });
+
+    it('should report an empty name', () => {
+        const { issues } = validateAdapter(createAdapter({ name: ' ' }));
+        expect(issues.map(issue => issue.code)).toEqual([AdapterIssueCode.MISSING_NAME]);
+    });
+});
+
+describe('assertValidAdapter', () => {
+    it('should not throw for a valid adapter', () => {
+        expect(() => assertValidAdapter(createAdapter())).not.toThrow();
+    });
+
+    it('should throw with every error listed', () => {
+        const adapter = createAdapter({ executableFunctions: ['bridge'] });
+        expect(() => assertValidAdapter(adapter)).toThrow(AdapterValidationError);
+        expect(() => assertValidAdapter(adapter)).toThrow('[UNKNOWN_EXECUTABLE_FUNCTION] Executable function "bridge" does not exist');
+    });
+
+    it('should fail on warnings only in strict mode', () => {
+        const adapter = createAdapter({ tools: createAdapter().tools.slice(1) });
+        expect(() => assertValidAdapter(adapter)).not.toThrow();
+        expect(() => assertValidAdapter(adapter, { strict: true })).toThrow(AdapterValidationError);
+    });
+});
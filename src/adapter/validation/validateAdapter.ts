@@ -0,0 +1,165 @@
+import { AdapterExport } from '../types';
+import { allChains, Chain } from '../../blockchain';
+import { getSchemaIssues } from '../schema';
+import { getToolName } from '../tools';
+
+/**
+ * Kinds of problems reported by adapter validation
+ * @enum AdapterIssueCode
+ */
+export enum AdapterIssueCode {
+    /** Adapter name is empty */
+    MISSING_NAME = 'MISSING_NAME',
+    /** A tool has no matching entry in `functions` */
+    MISSING_FUNCTION = 'MISSING_FUNCTION',
+    /** A function has no matching tool, so the model can never call it */
+    MISSING_TOOL = 'MISSING_TOOL',
+    /** Two tools share the same name */
+    DUPLICATE_TOOL = 'DUPLICATE_TOOL',
+    /** An `executableFunctions` entry has no matching function */
+    UNKNOWN_EXECUTABLE_FUNCTION = 'UNKNOWN_EXECUTABLE_FUNCTION',
+    /** Tool parameters are not a well-formed JSON Schema */
+    INVALID_PARAMETERS_SCHEMA = 'INVALID_PARAMETERS_SCHEMA',
+    /** A `chains` entry is not a `Chain` value */
+    INVALID_CHAIN = 'INVALID_CHAIN',
+    /** A chain is listed more than once */
+    DUPLICATE_CHAIN = 'DUPLICATE_CHAIN',
+}
+
+/**
+ * Single problem found in an adapter
+ * @interface AdapterIssue
+ */
+export interface AdapterIssue {
+    /** Kind of problem */
+    readonly code: AdapterIssueCode;
+    /** 'error' breaks the adapter at runtime, 'warning' is suspicious but harmless */
+    readonly severity: 'error' | 'warning';
+    /** Human readable description */
+    readonly message: string;
+    /** Tool or function name the problem relates to */
+    readonly name?: string;
+    /** Location inside the tool parameters schema */
+    readonly path?: string;
+}
+
+/**
+ * Result of adapter validation
+ * @interface AdapterValidationResult
+ */
+export interface AdapterValidationResult {
+    /** True when no issue has 'error' severity */
+    readonly valid: boolean;
+    /** All problems found */
+    readonly issues: AdapterIssue[];
+}
+
+/**
+ * Checks that the parts of an adapter export are consistent with each other
+ * @param adapter - The adapter to validate
+ * @returns Validation result with a structured list of problems
+ * @description Checks that every tool maps to a function, every executable function exists,
+ * tool parameters are well-formed JSON Schemas and `chains` only contains `Chain` values
+ * @example
+ * ```typescript
+ * const { valid, issues } = validateAdapter(myAdapter);
+ * if (!valid) {
+ *   issues.forEach(issue => console.error(`[${issue.code}] ${issue.message}`));
+ * }
+ * ```
+ */
+export function validateAdapter(adapter: AdapterExport): AdapterValidationResult {
+    const issues: AdapterIssue[] = [];
+    const functionNames = Object.keys(adapter.functions ?? {});
+    const toolNames = new Set<string>();
+
+    if (!adapter.name?.trim()) {
+        issues.push({ code: AdapterIssueCode.MISSING_NAME, severity: 'error', message: 'Adapter name is empty' });
+    }
+
+    const seenChains = new Set<Chain>();
+    for (const chain of adapter.chains ?? []) {
+        if (!allChains.includes(chain)) {
+            issues.push({ code: AdapterIssueCode.INVALID_CHAIN, severity: 'error', message: `Chain "${String(chain)}" is not supported`, name: String(chain) });
+        } else if (seenChains.has(chain)) {
+            issues.push({ code: AdapterIssueCode.DUPLICATE_CHAIN, severity: 'warning', message: `Chain "${chain}" is listed more than once`, name: chain });
+        }
+        seenChains.add(chain);
+    }
+
+    for (const tool of adapter.tools ?? []) {
+        const name = getToolName(tool);
+
+        if (toolNames.has(name)) {
+            issues.push({ code: AdapterIssueCode.DUPLICATE_TOOL, severity: 'error', message: `Tool "${name}" is defined more than once`, name });
+        }
+        toolNames.add(name);
+
+        if (!functionNames.includes(name)) {
+            issues.push({ code: AdapterIssueCode.MISSING_FUNCTION, severity: 'error', message: `Tool "${name}" has no matching function`, name });
+        }
+
+        if (tool.type === 'function' && tool.function.parameters !== undefined) {
+            for (const schemaIssue of getSchemaIssues(tool.function.parameters)) {
+                issues.push({
+                    code: AdapterIssueCode.INVALID_PARAMETERS_SCHEMA,
+                    severity: 'error',
+                    message: `Tool "${name}" parameters ${schemaIssue.path || '/'}: ${schemaIssue.message}`,
+                    name,
+                    path: schemaIssue.path,
+                });
+            }
+        }
+    }
+
+    for (const name of functionNames) {
+        if (!toolNames.has(name)) {
+            issues.push({ code: AdapterIssueCode.MISSING_TOOL, severity: 'warning', message: `Function "${name}" has no matching tool`, name });
+        }
+    }
+
+    for (const name of adapter.executableFunctions ?? []) {
+        if (!functionNames.includes(name)) {
+            issues.push({ code: AdapterIssueCode.UNKNOWN_EXECUTABLE_FUNCTION, severity: 'error', message: `Executable function "${name}" does not exist`, name });
+        }
+    }
+
+    return {
+        valid: !issues.some(issue => issue.severity === 'error'),
+        issues,
+    };
+}
+
+/**
+ * Error thrown by `assertValidAdapter` when an adapter has errors
+ */
+export class AdapterValidationError extends Error {
+    /** Problems found in the adapter */
+    public readonly issues: AdapterIssue[];
+
+    constructor(adapterName: string, issues: AdapterIssue[]) {
+        super(`Adapter "${adapterName}" is invalid:\n${issues.map(issue => `  [${issue.code}] ${issue.message}`).join('\n')}`);
+        this.name = 'AdapterValidationError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Throws when an adapter has validation errors
+ * @param adapter - The adapter to validate
+ * @param options - Set `strict` to also fail on warnings
+ * @throws {AdapterValidationError} When errors (or warnings in strict mode) are found
+ * @example
+ * ```typescript
+ * // One-line check in an adapter test suite
+ * it('is a valid adapter', () => assertValidAdapter(adapter));
+ * ```
+ */
+export function assertValidAdapter(adapter: AdapterExport, options: { strict?: boolean } = {}): void {
+    const { issues } = validateAdapter(adapter);
+    const failing = options.strict ? issues : issues.filter(issue => issue.severity === 'error');
+
+    if (failing.length > 0) {
+        throw new AdapterValidationError(adapter.name, failing);
+    }
+}
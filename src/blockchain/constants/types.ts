@@ -36,3 +36,13 @@ export enum WalletType {
     /** The Open Network wallets (Tonkeeper, TON Wallet, etc.) */
     TON = 'ton',
 }
+
+/**
+ * Asset represented by a major token, shared by its native and bridged variants on every chain
+ * @example
+ * ```typescript
+ * // USDC and USDC.e on Arbitrum are both 'USDC', WBTC and cbBTC are both 'BTC'
+ * const asset: MajorAsset = 'USDC';
+ * ```
+ */
+export type MajorAsset = 'USDC' | 'USDT' | 'DAI' | 'BTC' | 'ETH' | 'SOL';
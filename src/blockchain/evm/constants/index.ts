@@ -1,3 +1,4 @@
 export * from './misc';
 export * from './weth9';
 export * from './chains';
+export * from './majorTokens';
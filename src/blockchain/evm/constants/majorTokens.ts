@@ -0,0 +1,108 @@
+import { Chain, EvmChain } from '../../constants';
+import { arbitrumTokens, avalancheTokens, baseTokens, bscTokens, ethereumTokens, optimismTokens, polygonTokens, sonicTokens, Token, zkSyncTokens } from '@real-wagmi/sdk';
+import { MajorToken } from '../types';
+import { ChainIds } from './chains';
+
+function native(token: Token, asset: MajorToken['asset']): MajorToken {
+    return { token, asset, bridged: false };
+}
+
+function bridged(token: Token, asset: MajorToken['asset']): MajorToken {
+    return { token, asset, bridged: true };
+}
+
+/**
+ * Mapping of EVM chains to their canonical stablecoins and major tokens (USDC, USDT, DAI, BTC and ETH representations)
+ * @constant MAJOR_TOKENS
+ * @description Tokens are keyed by lowercase symbol, bridged variants get a suffix (`usdc_e` for USDC.e, `usdbc` for USDbC).
+ * When a chain has both the issuer's own deployment and a bridged one, both are listed with their `bridged` flag, so adapters
+ * can prefer the native variant instead of picking by symbol. Wrapped native tokens are in `WETH9`. Chains without verified
+ * deployments have an empty table.
+ * @example
+ * ```typescript
+ * const { token } = MAJOR_TOKENS[Chain.ARBITRUM].usdc;
+ * const amount = parseUnits('100', token.decimals); // 6 decimals
+ *
+ * // Native and bridged USDC on Arbitrum
+ * Object.values(MAJOR_TOKENS[Chain.ARBITRUM])
+ *   .filter(({ asset }) => asset === 'USDC')
+ *   .map(({ token, bridged }) => `${token.symbol}${bridged ? ' (bridged)' : ''}`); // ['USDC', 'USDC.e (bridged)']
+ * ```
+ */
+export const MAJOR_TOKENS: Record<EvmChain, Record<string, MajorToken>> = {
+    [Chain.ETHEREUM]: {
+        usdc: native(ethereumTokens.usdc, 'USDC'),
+        usdt: native(ethereumTokens.usdt, 'USDT'),
+        dai: native(ethereumTokens.dai, 'DAI'),
+        wbtc: native(ethereumTokens.wbtc, 'BTC'),
+        cbbtc: native(new Token(ChainIds[Chain.ETHEREUM], '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf', 8, 'cbBTC', 'Coinbase Wrapped BTC'), 'BTC'),
+    },
+    [Chain.OPTIMISM]: {
+        usdc: native(optimismTokens.usdc, 'USDC'),
+        usdc_e: bridged(new Token(ChainIds[Chain.OPTIMISM], '0x7F5c764cBc14f9669B88837ca1490cCa17c31607', 6, 'USDC.e', 'Bridged USDC'), 'USDC'),
+        usdt: bridged(optimismTokens.usdt, 'USDT'),
+        dai: bridged(optimismTokens.dai, 'DAI'),
+        wbtc: bridged(optimismTokens.wbtc, 'BTC'),
+    },
+    [Chain.BSC]: {
+        usdc: bridged(bscTokens.usdc, 'USDC'),
+        usdt: bridged(bscTokens.usdt, 'USDT'),
+        dai: bridged(new Token(ChainIds[Chain.BSC], '0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3', 18, 'DAI', 'Dai Token'), 'DAI'),
+        btcb: bridged(new Token(ChainIds[Chain.BSC], '0x7130d2A12B9BCbFAe4f2634d864A1Ee1Ce3Ead9c', 18, 'BTCB', 'BTCB Token'), 'BTC'),
+        eth: bridged(new Token(ChainIds[Chain.BSC], '0x2170Ed0880ac9A755fd29B2688956BD959F933F8', 18, 'ETH', 'Ethereum Token'), 'ETH'),
+    },
+    [Chain.POLYGON]: {
+        usdc: native(polygonTokens.usdc, 'USDC'),
+        usdc_e: bridged(new Token(ChainIds[Chain.POLYGON], '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', 6, 'USDC.e', 'Bridged USDC'), 'USDC'),
+        usdt: bridged(polygonTokens.usdt, 'USDT'),
+        dai: bridged(new Token(ChainIds[Chain.POLYGON], '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', 18, 'DAI', 'Dai Stablecoin'), 'DAI'),
+        wbtc: bridged(new Token(ChainIds[Chain.POLYGON], '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6', 8, 'WBTC', 'Wrapped BTC'), 'BTC'),
+        weth: bridged(new Token(ChainIds[Chain.POLYGON], '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', 18, 'WETH', 'Wrapped Ether'), 'ETH'),
+    },
+    [Chain.ZKSYNC]: {
+        usdc: native(new Token(ChainIds[Chain.ZKSYNC], '0x1d17CBcF0D6D143135aE902365D2E5e2A16538D4', 6, 'USDC', 'USD Coin'), 'USDC'),
+        usdc_e: bridged(new Token(ChainIds[Chain.ZKSYNC], zkSyncTokens.usdc.address, 6, 'USDC.e', 'Bridged USDC'), 'USDC'),
+        usdt: bridged(new Token(ChainIds[Chain.ZKSYNC], '0x493257fD37EDB34451f62EDf8D2a0C418852bA4C', 6, 'USDT', 'Tether USD'), 'USDT'),
+        wbtc: bridged(new Token(ChainIds[Chain.ZKSYNC], '0xBBeB516fb02a01611cBBE0453Fe3c580D7281011', 8, 'WBTC', 'Wrapped BTC'), 'BTC'),
+    },
+    [Chain.AVALANCHE]: {
+        usdc: native(avalancheTokens.usdc, 'USDC'),
+        usdc_e: bridged(new Token(ChainIds[Chain.AVALANCHE], '0xA7D7079b0FEaD91F3e65f86E8915Cb59c1a4C664', 6, 'USDC.e', 'Bridged USDC'), 'USDC'),
+        usdt: native(avalancheTokens.usdt, 'USDT'),
+        dai_e: bridged(new Token(ChainIds[Chain.AVALANCHE], '0xd586E7F844cEa2F87f50152665BCbc2C279D8d70', 18, 'DAI.e', 'Dai Stablecoin'), 'DAI'),
+        btc_b: bridged(new Token(ChainIds[Chain.AVALANCHE], '0x152b9d0FdC40C096757F570A51E494bd4b943E50', 8, 'BTC.b', 'Bitcoin'), 'BTC'),
+        wbtc_e: bridged(new Token(ChainIds[Chain.AVALANCHE], '0x50b7545627a5162F82A992c33b87aDc75187B218', 8, 'WBTC.e', 'Wrapped BTC'), 'BTC'),
+        weth_e: bridged(new Token(ChainIds[Chain.AVALANCHE], '0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB', 18, 'WETH.e', 'Wrapped Ether'), 'ETH'),
+    },
+    [Chain.ARBITRUM]: {
+        usdc: native(arbitrumTokens.usdc, 'USDC'),
+        usdc_e: bridged(new Token(ChainIds[Chain.ARBITRUM], arbitrumTokens.usdc_e.address, 6, 'USDC.e', 'Bridged USDC'), 'USDC'),
+        usdt: bridged(arbitrumTokens.usdt, 'USDT'),
+        dai: bridged(new Token(ChainIds[Chain.ARBITRUM], '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', 18, 'DAI', 'Dai Stablecoin'), 'DAI'),
+        wbtc: bridged(arbitrumTokens.wbtc, 'BTC'),
+    },
+    [Chain.BASE]: {
+        usdc: native(baseTokens.usdc, 'USDC'),
+        usdbc: bridged(baseTokens.usdbc, 'USDC'),
+        usdt: bridged(new Token(ChainIds[Chain.BASE], '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2', 6, 'USDT', 'Tether USD'), 'USDT'),
+        dai: bridged(new Token(ChainIds[Chain.BASE], '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', 18, 'DAI', 'Dai Stablecoin'), 'DAI'),
+        cbbtc: native(new Token(ChainIds[Chain.BASE], '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf', 8, 'cbBTC', 'Coinbase Wrapped BTC'), 'BTC'),
+    },
+    [Chain.SONIC]: {
+        usdc_e: bridged(sonicTokens.usdce, 'USDC'),
+        weth: bridged(sonicTokens.weth, 'ETH'),
+    },
+    [Chain.SCROLL]: {
+        usdc: bridged(new Token(ChainIds[Chain.SCROLL], '0x06eFdBFf2a14a7c8E15944D1F4A48F9F95F663A4', 6, 'USDC', 'USD Coin'), 'USDC'),
+        usdt: bridged(new Token(ChainIds[Chain.SCROLL], '0xf55BEC9cafDbE8730f096Aa55dad6D22d44099Df', 6, 'USDT', 'Tether USD'), 'USDT'),
+    },
+    [Chain.GNOSIS]: {
+        usdc: bridged(new Token(ChainIds[Chain.GNOSIS], '0xDDAfbb505ad214D7b80b1f830fcCc89B60fb7A83', 6, 'USDC', 'USD Coin on xDai'), 'USDC'),
+        usdt: bridged(new Token(ChainIds[Chain.GNOSIS], '0x4ECaBa5870353805a9F068101A40E0f32ed605C6', 6, 'USDT', 'Tether USD on xDai'), 'USDT'),
+        weth: bridged(new Token(ChainIds[Chain.GNOSIS], '0x6A023CCd1ff6F2045C3309768eAd9E68F978f6e1', 18, 'WETH', 'Wrapped Ether on xDai'), 'ETH'),
+    },
+    [Chain.HYPEREVM]: {},
+    [Chain.PLASMA]: {},
+    [Chain.MONAD]: {},
+    [Chain.ROBINHOOD]: {},
+};
@@ -1,4 +1,6 @@
 import { Abi, Address, Hex, SignTypedDataParameters } from 'viem';
+import { Token } from '@real-wagmi/sdk';
+import { MajorAsset } from '../constants';
 
 /**
  * Parameters for an EVM transaction
@@ -401,3 +403,23 @@ export interface SignTypedDatasProps {
     /** Array of typed data to sign */
     readonly datas: Omit<SignTypedDataParameters, 'account'>[];
 }
+
+/**
+ * Canonical stablecoin or major token on an EVM chain
+ * @interface MajorToken
+ * @example
+ * ```typescript
+ * const usdcE: MajorToken = {
+ *   token: new Token(42161, '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', 6, 'USDC.e', 'Bridged USDC'),
+ *   asset: 'USDC',
+ *   bridged: true
+ * };
+ * ```
+ */
+export interface MajorToken {
+    readonly token: Token;
+    /** Asset the token represents */
+    readonly asset: MajorAsset;
+    /** True for bridged or pegged representations (USDC.e, USDbC, Binance-Peg), false for the issuer's own deployment */
+    readonly bridged: boolean;
+}
@@ -6,3 +6,4 @@ export * from './getWrapAddress';
 export * from './getWrapData';
 export * from './getWrappedNative';
 export * from './isEvmChain';
+export * from './isNativeAddress';
@@ -1,4 +1,5 @@
 export * as EVM from './evm';
 export * as Solana from './solana';
 export * as TON from './ton';
-export * from './constants';
\ No newline at end of file
+export * from './constants';
+export * from './utils';
\ No newline at end of file
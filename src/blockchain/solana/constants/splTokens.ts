@@ -0,0 +1,21 @@
+import { SplToken } from '../types';
+
+/**
+ * Canonical SPL token mints on Solana
+ * @constant SPL_TOKENS
+ * @description Keyed by lowercase symbol. Bridged mints (Wormhole Portal) are flagged with `bridged`. Native SOL is not a mint,
+ * `wsol` is its wrapped SPL form used by programs.
+ * @example
+ * ```typescript
+ * const mint = new PublicKey(SPL_TOKENS.usdc.mint);
+ * const amount = parseUnits('100', SPL_TOKENS.usdc.decimals);
+ * ```
+ */
+export const SPL_TOKENS: Record<string, SplToken> = {
+    wsol: { mint: 'So11111111111111111111111111111111111111112', symbol: 'WSOL', name: 'Wrapped SOL', decimals: 9, asset: 'SOL', bridged: false },
+    usdc: { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', name: 'USD Coin', decimals: 6, asset: 'USDC', bridged: false },
+    usdt: { mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', symbol: 'USDT', name: 'USDT', decimals: 6, asset: 'USDT', bridged: false },
+    cbbtc: { mint: 'cbbtcf3aa214zXHbiAZQwf4122FBYbraNdFqgw4iMij', symbol: 'cbBTC', name: 'Coinbase Wrapped BTC', decimals: 8, asset: 'BTC', bridged: false },
+    wbtc: { mint: '3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh', symbol: 'WBTC', name: 'Wrapped BTC (Portal)', decimals: 8, asset: 'BTC', bridged: true },
+    weth: { mint: '7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs', symbol: 'WETH', name: 'Wrapped Ether (Portal)', decimals: 8, asset: 'ETH', bridged: true },
+};
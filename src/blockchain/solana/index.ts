@@ -1,2 +1,3 @@
 export * as types from './types';
-export * as utils from './utils';
\ No newline at end of file
+export * as utils from './utils';
+export * as constants from './constants';
\ No newline at end of file
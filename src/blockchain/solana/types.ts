@@ -1,4 +1,5 @@
 import { PublicKey, TransactionSignature, VersionedTransaction, Transaction } from '@solana/web3.js';
+import { MajorAsset } from '../constants';
 
 /**
  * Data returned for each executed Solana transaction
@@ -233,3 +234,30 @@ export interface SignTransactionsProps {
     /** Array of transactions to sign */
     readonly transactions: SignTransaction[];
 }
+
+/**
+ * Canonical SPL token mint
+ * @interface SplToken
+ * @example
+ * ```typescript
+ * const usdc: SplToken = {
+ *   mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+ *   symbol: 'USDC',
+ *   name: 'USD Coin',
+ *   decimals: 6,
+ *   asset: 'USDC',
+ *   bridged: false
+ * };
+ * ```
+ */
+export interface SplToken {
+    /** Mint address (base58) */
+    readonly mint: string;
+    readonly symbol: string;
+    readonly name: string;
+    readonly decimals: number;
+    /** Asset the token represents */
+    readonly asset: MajorAsset;
+    /** True for tokens bridged from another chain (e.g. Wormhole Portal), false for the issuer's own mint */
+    readonly bridged: boolean;
+}
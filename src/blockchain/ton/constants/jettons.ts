@@ -0,0 +1,17 @@
+import { Jetton } from '../types';
+
+/**
+ * Canonical jetton masters on TON
+ * @constant JETTONS
+ * @description Keyed by lowercase symbol. Tether's own USD₮ is native, the older jUSDT and jUSDC are bridged from Ethereum.
+ * @example
+ * ```typescript
+ * const master = Address.parse(JETTONS.usdt.master);
+ * const amount = parseUnits('100', JETTONS.usdt.decimals);
+ * ```
+ */
+export const JETTONS: Record<string, Jetton> = {
+    usdt: { master: 'EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs', symbol: 'USD₮', name: 'Tether USD', decimals: 6, asset: 'USDT', bridged: false },
+    jusdt: { master: 'EQBynBO23ywHy_CgarY9NK9FTz0yDsG82PtcbSTQgGoXwiuA', symbol: 'jUSDT', name: 'Bridged USDT', decimals: 6, asset: 'USDT', bridged: true },
+    jusdc: { master: 'EQB-MPwrd1G6WKNkLz_VnV6WqBDd142KMQv-g1O-8QUA3728', symbol: 'jUSDC', name: 'Bridged USDC', decimals: 6, asset: 'USDC', bridged: true },
+};
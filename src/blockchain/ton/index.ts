@@ -1 +1,2 @@
-export * as types from './types';
\ No newline at end of file
+export * as types from './types';
+export * as constants from './constants';
\ No newline at end of file
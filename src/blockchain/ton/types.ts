@@ -2,6 +2,7 @@ import { SenderArguments } from '@ton/core';
 import { TonApiClient } from '@ton-api/client';
 import { ContractAdapter } from '@ton-api/ton-adapter';
 import { Address, TonClient, TonClient4 } from '@ton/ton';
+import { MajorAsset } from '../constants';
 
 /**
  * Data returned for each executed TON transaction
@@ -433,3 +434,30 @@ export interface Client {
     /** Contract adapter for smart contract interactions */
     readonly adapter: ContractAdapter;
 }
+
+/**
+ * Canonical jetton master
+ * @interface Jetton
+ * @example
+ * ```typescript
+ * const usdt: Jetton = {
+ *   master: 'EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs',
+ *   symbol: 'USD₮',
+ *   name: 'Tether USD',
+ *   decimals: 6,
+ *   asset: 'USDT',
+ *   bridged: false
+ * };
+ * ```
+ */
+export interface Jetton {
+    /** Jetton master address (user-friendly form) */
+    readonly master: string;
+    readonly symbol: string;
+    readonly name: string;
+    readonly decimals: number;
+    /** Asset the jetton represents */
+    readonly asset: MajorAsset;
+    /** True for jettons bridged from another chain (e.g. jUSDT), false for the issuer's own jetton */
+    readonly bridged: boolean;
+}
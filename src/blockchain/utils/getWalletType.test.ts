@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { getWalletType } from './getWalletType';
+import { allEvmChains, Chain } from '../constants/chains';
+import { WalletType } from '../constants/types';
+
+describe('getWalletType', () => {
+    it('should return the Solana and TON wallet types', () => {
+        expect(getWalletType(Chain.SOLANA)).toBe(WalletType.SOLANA);
+        expect(getWalletType(Chain.TON)).toBe(WalletType.TON);
+    });
+
+    it('should return the EVM wallet type for EVM chains', () => {
+        allEvmChains.forEach(chain => expect(getWalletType(chain)).toBe(WalletType.EVM));
+    });
+});
@@ -0,0 +1,20 @@
+import { Chain } from '../constants/chains';
+import { WalletType } from '../constants/types';
+
+/**
+ * Returns the wallet type holding the assets of a chain
+ * @param chain - Chain to get the wallet type for
+ * @returns `WalletType.SOLANA` for Solana, `WalletType.TON` for TON, `WalletType.EVM` for all other chains
+ * @example
+ * ```typescript
+ * getWalletType(Chain.ARBITRUM); // WalletType.EVM
+ * getWalletType(Chain.SOLANA);   // WalletType.SOLANA
+ *
+ * const recipient = await options.getRecipient(getWalletType(chain));
+ * ```
+ */
+export function getWalletType(chain: Chain): WalletType {
+    if (chain === Chain.SOLANA) return WalletType.SOLANA;
+    if (chain === Chain.TON) return WalletType.TON;
+    return WalletType.EVM;
+}
@@ -0,0 +1,86 @@
+import { vi } from 'vitest';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { createWalletClient, verifyMessage, zeroAddress } from 'viem';
+import { createLocalFunctionOptions } from './createLocalFunctionOptions';
+import { WalletType } from '../blockchain';
+
+vi.mock('viem', async importOriginal => {
+    const viem = await importOriginal<typeof import('viem')>();
+    return { ...viem, createWalletClient: vi.fn((parameters: any) => viem.createWalletClient(parameters)) };
+});
+
+describe('createLocalFunctionOptions', () => {
+    const privateKey = `0x${'11'.repeat(32)}` as const;
+    const address = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+
+    it('should create EVM options backed by the private key', async () => {
+        const options = createLocalFunctionOptions({ evmPrivateKey: privateKey, evmRpcUrls: { 8453: 'http://127.0.0.1:8545' } });
+
+        expect(await options.evm!.getAddress()).toBe(address);
+        expect(await options.getRecipient!(WalletType.EVM)).toBe(address);
+
+        const [signature] = await options.evm!.signMessages!({ account: address, messages: ['0x68656c6c6f'] });
+        expect(await verifyMessage({ address, message: 'hello', signature })).toBe(true);
+    });
+
+    it('should stop the batch when a transaction reverts', async () => {
+        const options = createLocalFunctionOptions({ evmPrivateKey: privateKey, evmRpcUrls: { 8453: 'http://127.0.0.1:8545' } });
+        const sendTransaction = vi.fn(async () => `0x${'ab'.repeat(32)}` as const);
+        vi.mocked(createWalletClient).mockReturnValueOnce({ sendTransaction } as any);
+        vi.spyOn(options.evm!.getProvider(8453), 'waitForTransactionReceipt').mockResolvedValueOnce({ status: 'reverted' } as any);
+
+        const transactions = [
+            { target: zeroAddress, data: '0x095ea7b3' as const },
+            { target: zeroAddress, data: '0x38ed1739' as const },
+        ];
+        await expect(options.evm!.sendTransactions({ chainId: 8453, account: address, transactions })).rejects.toThrow(
+            `Transaction 0x${'ab'.repeat(32)} reverted on chain 8453, 1 remaining transactions were not sent`,
+        );
+        expect(sendTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse calls for other accounts', async () => {
+        const options = createLocalFunctionOptions({ evmPrivateKey: privateKey, evmRpcUrls: { 8453: 'http://127.0.0.1:8545' } });
+        const other = '0x00000000000000000000000000000000000A11cE';
+
+        await expect(options.evm!.sendTransactions({ chainId: 8453, account: other, transactions: [] })).rejects.toThrow(
+            `Account ${other} does not match the local wallet ${address}`,
+        );
+        await expect(options.evm!.signMessages!({ account: other, messages: ['0x68656c6c6f'] })).rejects.toThrow('does not match the local wallet');
+        expect(await options.evm!.signMessages!({ account: address.toLowerCase() as typeof address, messages: [] })).toEqual([]);
+
+        const solana = createLocalFunctionOptions({ solanaSecretKey: Keypair.fromSeed(new Uint8Array(32).fill(7)).secretKey });
+        await expect(solana.solana!.sendTransactions({ account: PublicKey.default, transactions: [] })).rejects.toThrow('does not match the local wallet');
+    });
+
+    it('should create providers for configured chains only', () => {
+        const options = createLocalFunctionOptions({ evmPrivateKey: privateKey, evmRpcUrls: { 8453: 'http://127.0.0.1:8545' } });
+
+        const provider = options.evm!.getProvider(8453);
+        expect(provider.chain?.id).toBe(8453);
+        expect(provider.chain?.name).toBe('base');
+        expect(options.evm!.getProvider(8453)).toBe(provider);
+        expect(() => options.evm!.getProvider(1)).toThrow('No RPC URL configured for chain id 1');
+
+        const withDefault = createLocalFunctionOptions({ evmPrivateKey: privateKey, defaultEvmRpcUrl: 'http://127.0.0.1:8545' });
+        expect(withDefault.evm!.getProvider(31337).chain?.name).toBe('chain-31337');
+    });
+
+    it('should create Solana options backed by the keypair', async () => {
+        const keypair = Keypair.fromSeed(new Uint8Array(32).fill(7));
+        const options = createLocalFunctionOptions({ solanaSecretKey: keypair.secretKey });
+
+        expect((await options.solana!.getPublicKey()).equals(keypair.publicKey)).toBe(true);
+        expect(options.solana!.getConnection().rpcEndpoint).toBe('http://127.0.0.1:8899');
+        expect(await options.getRecipient!(WalletType.SOLANA)).toBe(keypair.publicKey.toBase58());
+    });
+
+    it('should leave out wallets without keys', async () => {
+        const options = createLocalFunctionOptions({});
+
+        expect(options.evm).toBeUndefined();
+        expect(options.solana).toBeUndefined();
+        expect(options.ton).toBeUndefined();
+        await expect(options.getRecipient!(WalletType.EVM)).rejects.toThrow('No evm wallet configured');
+    });
+});
@@ -0,0 +1,185 @@
+import { Address, Chain as ViemChain, createPublicClient, createWalletClient, defineChain, Hex, http, isAddressEqual, PublicClient } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { Connection, Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { FunctionOptions, UserToken } from '../adapter';
+import { EVM, WalletType } from '../blockchain';
+
+/**
+ * Configuration of local private-key backed function options
+ * @interface LocalFunctionOptionsConfig
+ */
+export interface LocalFunctionOptionsConfig {
+    /** EVM private key, enables `evm` */
+    readonly evmPrivateKey?: Hex;
+    /** RPC URL per EVM chain id */
+    readonly evmRpcUrls?: Record<number, string>;
+    /** RPC URL for chain ids missing in `evmRpcUrls` */
+    readonly defaultEvmRpcUrl?: string;
+    /** Solana secret key (64 bytes, as in solana-keygen files), enables `solana` */
+    readonly solanaSecretKey?: Uint8Array;
+    /** Solana RPC URL (default: http://127.0.0.1:8899) */
+    readonly solanaRpcUrl?: string;
+    /** Notification handler (default: ignore) */
+    readonly notify?: (message: string, type?: 'alert' | 'regular') => Promise<void>;
+}
+
+function toViemChain(chainId: number, rpcUrl: string): ViemChain {
+    let name = `chain-${chainId}`;
+    try {
+        name = EVM.utils.getChainName(chainId);
+    } catch (_error) {
+        // Local chains such as anvil (31337) have no name
+    }
+    return defineChain({ id: chainId, name, nativeCurrency: { name: 'Native', symbol: 'NATIVE', decimals: 18 }, rpcUrls: { default: { http: [rpcUrl] } } });
+}
+
+function accountMismatch(account: string, expected: string): Error {
+    return new Error(`Account ${account} does not match the local wallet ${expected}`);
+}
+
+function checkEvmAccount(account: Address, expected: Address): void {
+    if (!isAddressEqual(account, expected)) throw accountMismatch(account, expected);
+}
+
+function checkSolanaAccount(account: PublicKey, expected: PublicKey): void {
+    if (!account.equals(expected)) throw accountMismatch(account.toBase58(), expected.toBase58());
+}
+
+/**
+ * Creates function options that sign with local keys and send through the given RPC nodes
+ * @param config - Keys and RPC URLs
+ * @returns Function options for local development (anvil, solana-test-validator, testnets)
+ * @description TON is not supported. Transactions are sent one by one and each is awaited until confirmed. A reverted or
+ * failed transaction stops the batch with an error, the remaining transactions are not sent. Calls for another `account` than
+ * the local wallet are refused.
+ * @example
+ * ```typescript
+ * const options = createLocalFunctionOptions({
+ *   evmPrivateKey: process.env.HEYANON_EVM_PRIVATE_KEY as Hex,
+ *   evmRpcUrls: { 8453: 'http://127.0.0.1:8545' }
+ * });
+ * await adapter.functions.supply(args, options);
+ * ```
+ */
+export function createLocalFunctionOptions(config: LocalFunctionOptionsConfig): FunctionOptions {
+    const userTokens: UserToken[] = [];
+    const recipients: Partial<Record<WalletType, string>> = {};
+    let evm: FunctionOptions['evm'];
+    let solana: FunctionOptions['solana'];
+
+    if (config.evmPrivateKey) {
+        const account = privateKeyToAccount(config.evmPrivateKey);
+        const providers = new Map<number, PublicClient>();
+
+        const getChain = (chainId: number) => {
+            const rpcUrl = config.evmRpcUrls?.[chainId] ?? config.defaultEvmRpcUrl;
+            if (!rpcUrl) throw new Error(`No RPC URL configured for chain id ${chainId}`);
+            return toViemChain(chainId, rpcUrl);
+        };
+        const getProvider = (chainId: number): PublicClient => {
+            if (!providers.has(chainId)) {
+                const chain = getChain(chainId);
+                providers.set(chainId, createPublicClient({ chain, transport: http() }) as PublicClient);
+            }
+            return providers.get(chainId)!;
+        };
+        const getWallet = (chainId: number) => createWalletClient({ account, chain: getChain(chainId), transport: http() });
+
+        recipients[WalletType.EVM] = account.address;
+        evm = {
+            getAddress: async () => account.address,
+            getProvider,
+            sendTransactions: async ({ chainId, account: from, transactions }) => {
+                checkEvmAccount(from, account.address);
+                const wallet = getWallet(chainId);
+                const data: EVM.types.TransactionReturnData[] = [];
+                for (const [index, { target, data: callData, value, gas }] of transactions.entries()) {
+                    const hash = await wallet.sendTransaction({ to: target, data: callData, value, gas });
+                    const { status } = await getProvider(chainId).waitForTransactionReceipt({ hash });
+                    if (status !== 'success') {
+                        throw new Error(`Transaction ${hash} reverted on chain ${chainId}, ${transactions.length - index - 1} remaining transactions were not sent`);
+                    }
+                    data.push({ message: 'Transaction confirmed', hash });
+                }
+                return { data };
+            },
+            deployContracts: async ({ chainId, account: from, contracts }) => {
+                checkEvmAccount(from, account.address);
+                const wallet = getWallet(chainId);
+                const addresses: Address[] = [];
+                for (const { abi, bytecode, args } of contracts) {
+                    const hash = await wallet.deployContract({ abi, bytecode, args: args ?? [] });
+                    const { contractAddress } = await getProvider(chainId).waitForTransactionReceipt({ hash });
+                    if (!contractAddress) throw new Error(`Deployment ${hash} did not create a contract`);
+                    addresses.push(contractAddress);
+                }
+                return addresses;
+            },
+            signMessages: async ({ account: from, messages }) => {
+                checkEvmAccount(from, account.address);
+                return Promise.all(messages.map(message => account.signMessage({ message: { raw: message } })));
+            },
+            signTypedDatas: async ({ account: from, datas }) => {
+                checkEvmAccount(from, account.address);
+                return Promise.all(datas.map(data => account.signTypedData(data)));
+            },
+        };
+    }
+
+    if (config.solanaSecretKey) {
+        const keypair = Keypair.fromSecretKey(config.solanaSecretKey);
+        const connection = new Connection(config.solanaRpcUrl ?? 'http://127.0.0.1:8899', 'confirmed');
+
+        recipients[WalletType.SOLANA] = keypair.publicKey.toBase58();
+        solana = {
+            getConnection: () => connection,
+            getPublicKey: async () => keypair.publicKey,
+            sendTransactions: async ({ account, transactions }) => {
+                checkSolanaAccount(account, keypair.publicKey);
+                const data = [];
+                for (const [index, transaction] of transactions.entries()) {
+                    transaction.sign([keypair]);
+                    const hash = await connection.sendTransaction(transaction);
+                    const { value } = await connection.confirmTransaction(hash, 'confirmed');
+                    if (value.err) {
+                        throw new Error(`Transaction ${hash} failed: ${JSON.stringify(value.err)}, ${transactions.length - index - 1} remaining transactions were not sent`);
+                    }
+                    data.push({ message: 'Transaction confirmed', hash });
+                }
+                return { data };
+            },
+            signTransactions: async ({ account, transactions }) => {
+                checkSolanaAccount(account, keypair.publicKey);
+                return transactions.map(({ transaction, signName = 'sign' }) => {
+                    if (transaction instanceof VersionedTransaction) {
+                        transaction.sign([keypair]);
+                    } else if (signName === 'partialSign') {
+                        transaction.partialSign(keypair);
+                    } else {
+                        transaction.sign(keypair);
+                    }
+                    return transaction;
+                });
+            },
+        };
+    }
+
+    return {
+        evm,
+        solana,
+        user: {
+            getUserId: async () => 'local',
+            getUserTokens: async () => [...userTokens],
+            addUserToken: async token => {
+                userTokens.push(token);
+                return token;
+            },
+        },
+        notify: config.notify ?? (async () => {}),
+        getRecipient: async type => {
+            const recipient = recipients[type];
+            if (!recipient) throw new Error(`No ${type} wallet configured`);
+            return recipient;
+        },
+    };
+}
@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import { runCli } from './runCli';
+
+runCli(process.argv.slice(2), {
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`),
+    env: process.env,
+    cwd: process.cwd(),
+}).then(code => {
+    process.exitCode = code;
+});
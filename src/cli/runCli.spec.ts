@@ -0,0 +1,101 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { CLI_USAGE, runCli } from './runCli';
+
+const ADAPTER_SOURCE = `
+const adapter = {
+    name: 'local',
+    description: 'Local test adapter',
+    chains: ['base'],
+    executableFunctions: ['send'],
+    tools: [
+        { type: 'function', function: { name: 'send', description: 'Send tokens', parameters: { type: 'object', properties: {} } } },
+        { type: 'function', function: { name: 'echo', parameters: { type: 'object', properties: {} } } },
+    ],
+    functions: {
+        echo: async (args, options) => {
+            await options.notify('Echoing');
+            return { success: true, data: JSON.stringify(args) };
+        },
+        send: async (_args, options) => {
+            const account = await options.evm.getAddress();
+            const { data } = await options.evm.sendTransactions({ chainId: 8453, account, transactions: [{ target: account, data: '0x', value: 1n }] });
+            return { success: true, data: data[0].message };
+        },
+    },
+};
+export default adapter;
+`;
+
+describe('runCli', () => {
+    let dir: string;
+    let stdout: string[];
+    let stderr: string[];
+
+    const run = (argv: string[], env: Record<string, string> = {}) => runCli(argv, { stdout: text => stdout.push(text), stderr: text => stderr.push(text), env, cwd: dir });
+
+    beforeAll(() => {
+        // Inside the project so that the test runner can import the modules
+        dir = mkdtempSync(join(__dirname, '.tmp-'));
+        writeFileSync(join(dir, 'adapter.mjs'), ADAPTER_SOURCE);
+        writeFileSync(join(dir, 'empty.mjs'), 'export const value = 1;');
+    });
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        stdout = [];
+        stderr = [];
+    });
+
+    it('should print usage', async () => {
+        expect(await run(['--help'])).toBe(0);
+        expect(stdout).toEqual([CLI_USAGE]);
+        expect(await run(['deploy', 'adapter.mjs'])).toBe(1);
+        expect(stderr).toEqual([CLI_USAGE]);
+    });
+
+    it('should list tools', async () => {
+        expect(await run(['tools', 'adapter.mjs'])).toBe(0);
+        expect(stdout[0]).toBe(['local (base)', 'Local test adapter', '', '  send [executable] - Send tokens', '  echo'].join('\n'));
+    });
+
+    it('should run a function with JSON args', async () => {
+        expect(await run(['run', 'adapter.mjs', 'echo', '{"amount":"1.5"}'])).toBe(0);
+        expect(JSON.parse(stdout[0])).toEqual({ success: true, data: '{"amount":"1.5"}' });
+        expect(stderr).toEqual(['[regular] Echoing']);
+    });
+
+    it('should print simulated transactions in dry-run mode', async () => {
+        const env = { HEYANON_EVM_PRIVATE_KEY: '0x1111111111111111111111111111111111111111111111111111111111111111' };
+
+        const code = await run(['run', 'adapter.mjs', 'send', '--dry-run', '--rpc', '8453=http://127.0.0.1:1'], env);
+
+        expect(code).toBe(0);
+        expect(JSON.parse(stdout[0]).data).toMatch(/^Dry run: transaction not sent, simulation failed/);
+        const report = JSON.parse(stdout[1].replace('Dry run transactions:\n', ''));
+        expect(report.success).toBe(false);
+        expect(report.transactions[0]).toMatchObject({
+            walletType: 'evm',
+            chainId: 8453,
+            account: '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A',
+            transaction: { target: '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A', data: '0x', value: '1' },
+        });
+    }, 20_000);
+
+    it('should report errors', async () => {
+        expect(await run(['run', 'adapter.mjs', 'missing'])).toBe(1);
+        expect(stderr.pop()).toBe('Error: Unknown function "missing", available: echo, send');
+
+        expect(await run(['run', 'adapter.mjs', 'echo', '{amount}'])).toBe(1);
+        expect(stderr.pop()).toBe('Error: Arguments are not valid JSON: {amount}');
+
+        expect(await run(['tools', 'empty.mjs'])).toBe(1);
+        expect(stderr.pop()).toBe('Error: No adapter found in empty.mjs');
+
+        expect(await run(['run', 'adapter.mjs', 'send'])).toBe(1);
+        expect(stderr.pop()).toMatch(/^Error: Cannot read properties of undefined/);
+    });
+});
@@ -0,0 +1,176 @@
+import { parseArgs } from 'util';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { Hex } from 'viem';
+import { AdapterExport, getToolName, withDryRun, DryRunReport, FunctionOptions } from '../adapter';
+import { WalletType } from '../blockchain';
+import { stringify } from '../utils';
+import { createLocalFunctionOptions } from './createLocalFunctionOptions';
+
+export const CLI_USAGE = `Usage:
+  heyanon-adapter tools <module> [--export <name>]
+  heyanon-adapter run <module> <function> [args-json] [options]
+
+Options:
+  --rpc <url>             EVM RPC for every chain id (e.g. a local anvil node)
+  --rpc <chainId>=<url>   EVM RPC for one chain id, can be repeated
+  --solana-rpc <url>      Solana RPC (default: http://127.0.0.1:8899)
+  --dry-run               Simulate and print the transactions instead of sending them
+  --export <name>         Module export holding the adapter (default: default export or "adapter")
+  -h, --help              Show this help
+
+Environment:
+  HEYANON_EVM_PRIVATE_KEY   EVM private key (0x...)
+  HEYANON_SOLANA_KEYPAIR    Solana keypair as a JSON byte array or a path to a solana-keygen JSON file`;
+
+/**
+ * Input and output of the CLI
+ * @interface CliIo
+ */
+export interface CliIo {
+    readonly stdout: (text: string) => void;
+    readonly stderr: (text: string) => void;
+    readonly env: Record<string, string | undefined>;
+    /** Working directory module paths are resolved against */
+    readonly cwd: string;
+}
+
+function isAdapter(value: unknown): value is AdapterExport {
+    return typeof value === 'object' && value !== null && 'functions' in value && 'tools' in value;
+}
+
+async function loadAdapterModule(path: string, cwd: string, exportName?: string): Promise<AdapterExport> {
+    const module = await import(pathToFileURL(resolve(cwd, path)).href);
+    const candidates = exportName ? [module[exportName]] : [module.default, module.adapter, module.default?.default, module.default?.adapter];
+    const adapter = candidates.find(isAdapter);
+
+    if (!adapter) {
+        throw new Error(`No adapter found in ${path}${exportName ? ` (export "${exportName}")` : ''}`);
+    }
+    return adapter;
+}
+
+function parseRpcUrls(values: string[]): { evmRpcUrls: Record<number, string>; defaultEvmRpcUrl?: string } {
+    const evmRpcUrls: Record<number, string> = {};
+    let defaultEvmRpcUrl: string | undefined;
+
+    for (const value of values) {
+        const match = value.match(/^(\d+)=(.+)$/);
+        if (match) {
+            evmRpcUrls[Number(match[1])] = match[2];
+        } else {
+            defaultEvmRpcUrl = value;
+        }
+    }
+    return { evmRpcUrls, defaultEvmRpcUrl };
+}
+
+function parseSolanaKeypair(value: string, cwd: string): Uint8Array {
+    const json = value.trim().startsWith('[') ? value : readFileSync(resolve(cwd, value), 'utf8');
+    return Uint8Array.from(JSON.parse(json));
+}
+
+function formatReport({ transactions, success }: DryRunReport): string {
+    const printable = transactions.map(transaction => {
+        switch (transaction.walletType) {
+            case WalletType.SOLANA:
+                return { ...transaction, account: transaction.account.toBase58(), transaction: Buffer.from(transaction.transaction.serialize()).toString('base64') };
+            case WalletType.TON:
+                return { ...transaction, account: transaction.account.toString(), transaction: { ...transaction.transaction, to: transaction.transaction.to.toString() } };
+            default:
+                return transaction;
+        }
+    });
+    return stringify({ success, transactions: printable }, 2);
+}
+
+function listTools(adapter: AdapterExport): string {
+    const lines = [`${adapter.name} (${adapter.chains.join(', ')})`, adapter.description, ''];
+    for (const tool of adapter.tools) {
+        const name = getToolName(tool);
+        const description = tool.type === 'function' ? tool.function.description : tool.custom.description;
+        lines.push(`  ${name}${adapter.executableFunctions.includes(name) ? ' [executable]' : ''}${description ? ` - ${description}` : ''}`);
+    }
+    return lines.join('\n');
+}
+
+async function runFunction(adapter: AdapterExport, name: string, argsJson: string, options: FunctionOptions, dryRun: boolean, io: CliIo): Promise<number> {
+    if (!Object.prototype.hasOwnProperty.call(adapter.functions, name)) {
+        throw new Error(`Unknown function "${name}", available: ${Object.keys(adapter.functions).join(', ')}`);
+    }
+
+    let args: unknown;
+    try {
+        args = JSON.parse(argsJson);
+    } catch (_error) {
+        throw new Error(`Arguments are not valid JSON: ${argsJson}`);
+    }
+
+    const dryRunOptions = dryRun ? withDryRun(options) : undefined;
+    const result = await adapter.functions[name](args, dryRunOptions ?? options);
+
+    io.stdout(stringify(result, 2));
+    if (dryRunOptions) {
+        io.stdout(`Dry run transactions:\n${formatReport(dryRunOptions.getReport())}`);
+    }
+    return result.success ? 0 : 1;
+}
+
+/**
+ * Runs the `heyanon-adapter` command line
+ * @param argv - Arguments without the node and script paths
+ * @param io - Output streams, environment and working directory
+ * @returns Exit code
+ * @example
+ * ```bash
+ * heyanon-adapter tools ./dist/index.mjs
+ * HEYANON_EVM_PRIVATE_KEY=0xac09... heyanon-adapter run ./dist/index.mjs supply '{"chainName":"base","amount":"100"}' --rpc 8453=http://127.0.0.1:8545 --dry-run
+ * ```
+ */
+export async function runCli(argv: string[], io: CliIo): Promise<number> {
+    try {
+        // Option defaults are applied below, `default` needs Node 18.11
+        const { values, positionals } = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                rpc: { type: 'string', multiple: true },
+                'solana-rpc': { type: 'string' },
+                'dry-run': { type: 'boolean' },
+                export: { type: 'string' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+        const [command, modulePath, functionName, argsJson = '{}'] = positionals;
+
+        if (values.help || !command) {
+            io.stdout(CLI_USAGE);
+            return values.help ? 0 : 1;
+        }
+        if (!modulePath || (command === 'run' && !functionName) || !['tools', 'run'].includes(command)) {
+            io.stderr(CLI_USAGE);
+            return 1;
+        }
+
+        const adapter = await loadAdapterModule(modulePath, io.cwd, values.export);
+        if (command === 'tools') {
+            io.stdout(listTools(adapter));
+            return 0;
+        }
+
+        const { HEYANON_EVM_PRIVATE_KEY, HEYANON_SOLANA_KEYPAIR } = io.env;
+        const options = createLocalFunctionOptions({
+            ...parseRpcUrls(values.rpc ?? []),
+            evmPrivateKey: HEYANON_EVM_PRIVATE_KEY as Hex | undefined,
+            solanaSecretKey: HEYANON_SOLANA_KEYPAIR ? parseSolanaKeypair(HEYANON_SOLANA_KEYPAIR, io.cwd) : undefined,
+            solanaRpcUrl: values['solana-rpc'],
+            notify: async (message, type) => io.stderr(`[${type ?? 'regular'}] ${message}`),
+        });
+
+        return await runFunction(adapter, functionName, argsJson, options, values['dry-run'] ?? false, io);
+    } catch (error) {
+        io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
+    }
+}
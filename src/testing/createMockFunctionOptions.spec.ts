@@ -0,0 +1,138 @@
+import { vi } from 'vitest';
+import { Address, zeroAddress } from 'viem';
+import bs58 from 'bs58';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { Address as TonAddress } from '@ton/ton';
+import { createMockFunctionOptions, MOCK_EVM_ADDRESS, MOCK_SOLANA_ADDRESS, MOCK_USER_ID } from './createMockFunctionOptions';
+import { Chain, WalletType } from '../blockchain';
+
+describe('createMockFunctionOptions', () => {
+    const usdc: Address = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+    it('should expose fixed wallets and user data', async () => {
+        const options = createMockFunctionOptions({ userTokens: [{ chain: Chain.BASE, name: 'USD Coin', symbol: 'USDC', address: usdc, decimals: 6 }] });
+
+        expect(await options.evm.getAddress()).toBe(MOCK_EVM_ADDRESS);
+        expect((await options.solana.getPublicKey()).toBase58()).toBe(MOCK_SOLANA_ADDRESS);
+        expect((await options.ton.getAddress()).toRawString()).toBe(`0:${'01'.repeat(32)}`);
+        expect(await options.user.getUserId()).toBe(MOCK_USER_ID);
+        expect(await options.getRecipient(WalletType.EVM)).toBe(MOCK_EVM_ADDRESS);
+
+        await options.user.addUserToken({ chain: Chain.BASE, name: 'Dai', symbol: 'DAI', address: zeroAddress, decimals: 18 });
+        expect((await options.user.getUserTokens()).map(token => token.symbol)).toEqual(['USDC', 'DAI']);
+    });
+
+    it('should record sent transactions and return deterministic hashes', async () => {
+        const first = createMockFunctionOptions();
+        const second = createMockFunctionOptions();
+        const props = {
+            chainId: 1,
+            account: MOCK_EVM_ADDRESS,
+            transactions: [
+                { target: usdc, data: '0x095ea7b3' as const },
+                { target: zeroAddress, data: '0x' as const, value: 1n },
+            ],
+        };
+
+        const result = await first.evm.sendTransactions(props);
+        expect(result.data).toHaveLength(2);
+        expect(result.data[0].hash).toMatch(/^0x[0-9a-f]{64}$/);
+        expect(result.data[0].hash).not.toBe(result.data[1].hash);
+        expect((await second.evm.sendTransactions(props)).data).toEqual(result.data);
+        expect(first.getCalls('evm.sendTransactions')).toEqual([{ method: 'evm.sendTransactions', props, result }]);
+    });
+
+    it('should return fake results for other EVM methods', async () => {
+        const options = createMockFunctionOptions();
+        const [signature] = await options.evm.signMessages!({ account: MOCK_EVM_ADDRESS, messages: ['0x01'] });
+        const [address] = await options.evm.deployContracts!({ chainId: 1, account: MOCK_EVM_ADDRESS, contracts: [{ abi: [], bytecode: '0x00' }] });
+        const [typed] = await options.evm.signTypedDatas!({ account: MOCK_EVM_ADDRESS, datas: [{ types: {}, primaryType: 'x', message: {} } as any] });
+
+        expect(signature).toMatch(/^0x[0-9a-f]{130}$/);
+        expect(typed).toMatch(/^0x[0-9a-f]{130}$/);
+        expect(address).toMatch(/^0x[0-9a-fA-F]{40}$/);
+        expect(options.calls.map(call => call.method)).toEqual(['evm.signMessages', 'evm.deployContracts', 'evm.signTypedDatas']);
+    });
+
+    it('should return base58 signatures on Solana and hex hashes on TON', async () => {
+        const options = createMockFunctionOptions();
+        const solana = await options.solana.sendTransactions({ account: new PublicKey(MOCK_SOLANA_ADDRESS), transactions: [{} as VersionedTransaction] });
+        const ton = await options.ton.sendTransactions({
+            account: TonAddress.parse(`0:${'01'.repeat(32)}`),
+            transactions: [{ to: TonAddress.parse(`0:${'02'.repeat(32)}`), value: 1n }],
+        });
+
+        expect(solana.data[0].hash).toMatch(/^[1-9A-HJ-NP-Za-km-z]{86,88}$/);
+        expect(bs58.decode(solana.data[0].hash)).toHaveLength(64);
+        expect(ton.data[0].hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should capture notifications', async () => {
+        const options = createMockFunctionOptions();
+        await options.notify('Approving USDC');
+        await options.notify('Low balance', 'alert');
+        expect(options.notifications).toEqual([{ message: 'Approving USDC' }, { message: 'Low balance', type: 'alert' }]);
+    });
+
+    it('should inject failures', async () => {
+        const rejected = new Error('User rejected the request');
+        const options = createMockFunctionOptions({ failures: { 'ton.sendTransactions': new Error('TON down') } });
+        const props = { chainId: 1, account: MOCK_EVM_ADDRESS, transactions: [] };
+
+        options.failNext('evm.sendTransactions', rejected);
+        await expect(options.evm.sendTransactions(props)).rejects.toBe(rejected);
+        await expect(options.evm.sendTransactions(props)).resolves.toEqual({ data: [] });
+        await expect(options.ton.sendTransactions({ account: await options.ton.getAddress(), transactions: [] })).rejects.toThrow('TON down');
+        expect(options.calls[0]).toEqual({ method: 'evm.sendTransactions', props, error: rejected });
+    });
+
+    it('should use configured factories and throw for missing ones', () => {
+        const provider = { chain: { id: 1 } } as any;
+        const getProvider = vi.fn(() => provider);
+        const options = createMockFunctionOptions({ getProvider });
+
+        expect(options.evm.getProvider(1)).toBe(provider);
+        expect(getProvider).toHaveBeenCalledWith(1);
+        expect(() => options.solana.getConnection()).toThrow('solana.getConnection is not configured in mock function options');
+    });
+
+    describe('expectSentTransactions', () => {
+        const send = async (options: ReturnType<typeof createMockFunctionOptions>, chainId: number) =>
+            options.evm.sendTransactions({
+                chainId,
+                account: MOCK_EVM_ADDRESS,
+                transactions: [
+                    { target: usdc, data: '0x095ea7b3' },
+                    { target: zeroAddress, data: '0x', value: 5n },
+                ],
+            });
+
+        it('should match batches by chain and partial transactions', async () => {
+            const options = createMockFunctionOptions();
+            await send(options, 8453);
+
+            expect(options.expectSentTransactions(8453)).toHaveLength(2);
+            expect(() => options.expectSentTransactions(8453, [{ target: usdc.toLowerCase() as any }, { value: 5n }])).not.toThrow();
+            expect(() => options.expectSentTransactions(8453, transactions => transactions.length === 2)).not.toThrow();
+        });
+
+        it('should throw with the sent batches when nothing matches', async () => {
+            const options = createMockFunctionOptions();
+            expect(() => options.expectSentTransactions(1)).toThrow('Expected transactions to be sent on chain 1, sent batches:\n(none)');
+
+            await send(options, 8453);
+            expect(() => options.expectSentTransactions(1)).toThrow('chain 8453:');
+            expect(() => options.expectSentTransactions(8453, [{ value: 6n }, {}])).toThrow();
+        });
+
+        it('should assert that nothing was sent', async () => {
+            const options = createMockFunctionOptions();
+            expect(() => options.expectNoTransactions()).not.toThrow();
+            await send(options, 1);
+            expect(() => options.expectNoTransactions()).toThrow('Expected no transactions, but evm.sendTransactions was called');
+            options.reset();
+            expect(options.calls).toEqual([]);
+            expect(() => options.expectNoTransactions()).not.toThrow();
+        });
+    });
+});
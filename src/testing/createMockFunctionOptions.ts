@@ -0,0 +1,321 @@
+import { Address, getAddress, Hex, keccak256, PublicClient, SignMessageReturnType, SignTypedDataReturnType, toHex } from 'viem';
+import bs58 from 'bs58';
+import { Connection, PublicKey, Transaction as SolanaTransaction, VersionedTransaction as SolanaVersionedTransaction } from '@solana/web3.js';
+import { Address as TonAddress } from '@ton/ton';
+import { Exchange, exchanges } from 'ccxt';
+import { EvmFunctionOptions, FunctionOptions, SolanaFunctionOptions, TonFunctionOptions, UserFunctionOptions, UserToken } from '../adapter';
+import { EVM, Solana, TON, WalletType } from '../blockchain';
+import { stringify } from '../utils';
+
+/**
+ * Fixed EVM wallet address of mock function options
+ */
+export const MOCK_EVM_ADDRESS: Address = '0x00000000000000000000000000000000000A11cE';
+
+/**
+ * Fixed Solana wallet address of mock function options
+ */
+export const MOCK_SOLANA_ADDRESS = new PublicKey(new Uint8Array(32).fill(1)).toBase58();
+
+/**
+ * Fixed TON wallet address of mock function options (raw form)
+ */
+export const MOCK_TON_ADDRESS = `0:${'01'.repeat(32)}`;
+
+/**
+ * Fixed user id of mock function options
+ */
+export const MOCK_USER_ID = 'mock-user';
+
+/**
+ * Function option methods recorded by the mock
+ */
+export type MockMethod =
+    | 'evm.sendTransactions'
+    | 'evm.deployContracts'
+    | 'evm.signMessages'
+    | 'evm.signTypedDatas'
+    | 'solana.sendTransactions'
+    | 'solana.signTransactions'
+    | 'ton.sendTransactions';
+
+/**
+ * Props of each recorded method
+ * @interface MockMethodProps
+ */
+export interface MockMethodProps {
+    readonly 'evm.sendTransactions': EVM.types.SendTransactionProps;
+    readonly 'evm.deployContracts': EVM.types.DeployContractProps;
+    readonly 'evm.signMessages': EVM.types.SignMessagesProps;
+    readonly 'evm.signTypedDatas': EVM.types.SignTypedDatasProps;
+    readonly 'solana.sendTransactions': Solana.types.SendTransactionProps;
+    readonly 'solana.signTransactions': Solana.types.SignTransactionsProps;
+    readonly 'ton.sendTransactions': TON.types.SendTransactionProps;
+}
+
+/**
+ * Recorded call of a mocked method
+ * @interface MockCall
+ */
+export interface MockCall<M extends MockMethod = MockMethod> {
+    /** Called method */
+    readonly method: M;
+    /** Props the method was called with */
+    readonly props: MockMethodProps[M];
+    /** Value returned to the adapter (when the call succeeded) */
+    readonly result?: unknown;
+    /** Error thrown to the adapter (when the call failed) */
+    readonly error?: Error;
+}
+
+/**
+ * Recorded `notify` call
+ * @interface MockNotification
+ */
+export interface MockNotification {
+    readonly message: string;
+    readonly type?: 'alert' | 'regular';
+}
+
+/**
+ * Configuration of mock function options
+ * @interface MockFunctionOptionsConfig
+ */
+export interface MockFunctionOptionsConfig {
+    /** EVM wallet address (default: MOCK_EVM_ADDRESS) */
+    readonly evmAddress?: Address;
+    /** Solana wallet address (default: MOCK_SOLANA_ADDRESS) */
+    readonly solanaAddress?: string;
+    /** TON wallet address (default: MOCK_TON_ADDRESS) */
+    readonly tonAddress?: string;
+    /** User id (default: MOCK_USER_ID) */
+    readonly userId?: string;
+    /** Initial user token list */
+    readonly userTokens?: UserToken[];
+    /** Recipient addresses returned by `getRecipient` (default: the wallet addresses) */
+    readonly recipients?: Partial<Record<WalletType, string>>;
+    /** EVM provider factory (default: throws) */
+    readonly getProvider?: (chainId: number) => PublicClient;
+    /** Solana connection factory (default: throws) */
+    readonly getConnection?: () => Connection;
+    /** TON client factory (default: throws) */
+    readonly getTonClient?: () => Promise<TON.types.Client>;
+    /** CCXT exchange factory (default: throws) */
+    readonly getCcxtExchange?: (name: keyof typeof exchanges) => Promise<Exchange>;
+    /** Methods that always fail with the given error */
+    readonly failures?: Partial<Record<MockMethod, Error>>;
+}
+
+/**
+ * Function options that record every call, for adapter tests
+ * @interface MockFunctionOptions
+ */
+export interface MockFunctionOptions extends FunctionOptions {
+    readonly evm: EvmFunctionOptions;
+    readonly solana: SolanaFunctionOptions;
+    readonly ton: TonFunctionOptions;
+    readonly user: UserFunctionOptions;
+    readonly notify: (message: string, type?: 'alert' | 'regular') => Promise<void>;
+    readonly getRecipient: (type: WalletType) => Promise<string>;
+    /** Every recorded call in order */
+    readonly calls: MockCall[];
+    /** Every `notify` call in order */
+    readonly notifications: MockNotification[];
+    /** Returns recorded calls of one method */
+    getCalls<M extends MockMethod>(method: M): MockCall<M>[];
+    /** Makes the next call of a method fail */
+    failNext(method: MockMethod, error?: Error): void;
+    /**
+     * Asserts that a transaction batch was sent on an EVM chain
+     * @param chainId - Expected chain id
+     * @param matcher - Expected transactions (partial match, in order) or a predicate over the batch
+     * @returns Transactions of the first matching batch
+     * @throws {Error} When no sent batch matches
+     */
+    expectSentTransactions(
+        chainId: number,
+        matcher?: Partial<EVM.types.TransactionParams>[] | ((transactions: EVM.types.TransactionParams[]) => boolean),
+    ): EVM.types.TransactionParams[];
+    /**
+     * Asserts that no transactions were sent on any chain
+     * @throws {Error} When any `sendTransactions` call was recorded
+     */
+    expectNoTransactions(): void;
+    /** Clears recorded calls, notifications and pending failures */
+    reset(): void;
+}
+
+function fakeHash(seed: string): Hex {
+    return keccak256(toHex(seed));
+}
+
+function isPartialMatch(actual: EVM.types.TransactionParams, expected: Partial<EVM.types.TransactionParams>): boolean {
+    return Object.entries(expected).every(([key, value]) => {
+        const actualValue = actual[key as keyof EVM.types.TransactionParams];
+        return typeof value === 'string' && typeof actualValue === 'string' ? value.toLowerCase() === actualValue.toLowerCase() : value === actualValue;
+    });
+}
+
+function notConfigured(name: string): never {
+    throw new Error(`${name} is not configured in mock function options`);
+}
+
+/**
+ * Creates in-memory function options for testing adapters
+ * @param config - Wallet addresses, factories and failure injection
+ * @returns Function options with fixed wallets that record calls and return deterministic fake hashes
+ * @example
+ * ```typescript
+ * const options = createMockFunctionOptions({ getProvider: () => mockProvider });
+ *
+ * const result = await adapter.functions.supply({ chainName: 'ethereum', amount: '100' }, options);
+ *
+ * expect(result.success).toBe(true);
+ * options.expectSentTransactions(1, [{ target: USDC_ADDRESS }, { target: POOL_ADDRESS }]);
+ * expect(options.notifications).toHaveLength(1);
+ *
+ * // Failure injection
+ * options.failNext('evm.sendTransactions', new Error('User rejected the request'));
+ * ```
+ */
+export function createMockFunctionOptions(config: MockFunctionOptionsConfig = {}): MockFunctionOptions {
+    const evmAddress = config.evmAddress ?? MOCK_EVM_ADDRESS;
+    const solanaAddress = new PublicKey(config.solanaAddress ?? MOCK_SOLANA_ADDRESS);
+    const tonAddress = TonAddress.parse(config.tonAddress ?? MOCK_TON_ADDRESS);
+    const userTokens = [...(config.userTokens ?? [])];
+
+    const calls: MockCall[] = [];
+    const notifications: MockNotification[] = [];
+    let pendingFailures: { method: MockMethod; error: Error }[] = [];
+    let counter = 0;
+
+    async function record<M extends MockMethod, R>(method: M, props: MockMethodProps[M], execute: () => R): Promise<R> {
+        const index = pendingFailures.findIndex(failure => failure.method === method);
+        const error = index >= 0 ? pendingFailures.splice(index, 1)[0].error : config.failures?.[method];
+
+        if (error) {
+            calls.push({ method, props, error });
+            throw error;
+        }
+
+        const result = execute();
+        calls.push({ method, props, result });
+        return result;
+    }
+
+    const nextHash = (family: string) => fakeHash(`${family}:${++counter}`);
+
+    const evm: EvmFunctionOptions = {
+        getAddress: async () => evmAddress,
+        getProvider: chainId => (config.getProvider ? config.getProvider(chainId) : notConfigured('evm.getProvider')),
+        sendTransactions: props =>
+            record(
+                'evm.sendTransactions',
+                props,
+                (): EVM.types.TransactionReturn => ({
+                    data: props.transactions.map(() => ({ message: 'Transaction sent', hash: nextHash('evm') })),
+                }),
+            ),
+        deployContracts: props => record('evm.deployContracts', props, (): Address[] => props.contracts.map(() => getAddress(`0x${nextHash('contract').slice(-40)}`))),
+        signMessages: props =>
+            record('evm.signMessages', props, (): SignMessageReturnType[] => props.messages.map(() => `${nextHash('signature')}${nextHash('signature').slice(2)}1b` as Hex)),
+        signTypedDatas: props =>
+            record('evm.signTypedDatas', props, (): SignTypedDataReturnType[] => props.datas.map(() => `${nextHash('signature')}${nextHash('signature').slice(2)}1b` as Hex)),
+    };
+
+    const solana: SolanaFunctionOptions = {
+        getConnection: () => (config.getConnection ? config.getConnection() : notConfigured('solana.getConnection')),
+        getPublicKey: async () => solanaAddress,
+        sendTransactions: props =>
+            record(
+                'solana.sendTransactions',
+                props,
+                (): Solana.types.TransactionReturn => ({
+                    data: props.transactions.map(() => ({
+                        message: 'Transaction sent',
+                        hash: bs58.encode(Buffer.from(`${nextHash('solana').slice(2)}${nextHash('solana').slice(2)}`, 'hex')),
+                    })),
+                }),
+            ),
+        signTransactions: props =>
+            record('solana.signTransactions', props, (): (SolanaTransaction | SolanaVersionedTransaction)[] => props.transactions.map(({ transaction }) => transaction)),
+    };
+
+    const ton: TonFunctionOptions = {
+        getAddress: async () => tonAddress,
+        getClient: () => (config.getTonClient ? config.getTonClient() : notConfigured('ton.getClient')),
+        sendTransactions: props =>
+            record(
+                'ton.sendTransactions',
+                props,
+                (): TON.types.TransactionReturn => ({
+                    data: props.transactions.map(() => ({ message: 'Transaction sent', hash: nextHash('ton').slice(2) })),
+                }),
+            ),
+    };
+
+    const user: UserFunctionOptions = {
+        getUserId: async () => config.userId ?? MOCK_USER_ID,
+        getUserTokens: async () => [...userTokens],
+        addUserToken: async token => {
+            userTokens.push(token);
+            return token;
+        },
+    };
+
+    const recipients: Record<WalletType, string> = {
+        [WalletType.EVM]: evmAddress,
+        [WalletType.SOLANA]: solanaAddress.toBase58(),
+        [WalletType.TON]: tonAddress.toString(),
+        ...config.recipients,
+    };
+
+    const getCalls = <M extends MockMethod>(method: M): MockCall<M>[] => calls.filter((call): call is MockCall<M> => call.method === method);
+    const sentBatches = (): EVM.types.SendTransactionProps[] =>
+        getCalls('evm.sendTransactions')
+            .filter(call => !call.error)
+            .map(call => call.props);
+
+    return {
+        evm,
+        solana,
+        ton,
+        user,
+        notify: async (message, type) => {
+            notifications.push(type === undefined ? { message } : { message, type });
+        },
+        getRecipient: async type => recipients[type],
+        getCcxtExchange: name => (config.getCcxtExchange ? config.getCcxtExchange(name) : notConfigured('getCcxtExchange')),
+        calls,
+        notifications,
+        getCalls,
+        failNext: (method, error = new Error(`Mock ${method} failed`)) => {
+            pendingFailures.push({ method, error });
+        },
+        expectSentTransactions: (chainId, matcher) => {
+            const batches = sentBatches().filter(batch => batch.chainId === chainId);
+            const match = batches.find(({ transactions }) => {
+                if (!matcher) return true;
+                if (typeof matcher === 'function') return matcher(transactions);
+                return transactions.length === matcher.length && matcher.every((expected, index) => isPartialMatch(transactions[index], expected));
+            });
+
+            if (!match) {
+                const sent = sentBatches().map(batch => `chain ${batch.chainId}: ${stringify(batch.transactions)}`);
+                throw new Error(`Expected transactions to be sent on chain ${chainId}, sent batches:\n${sent.join('\n') || '(none)'}`);
+            }
+            return match.transactions;
+        },
+        expectNoTransactions: () => {
+            const sent = calls.filter(call => call.method.endsWith('.sendTransactions'));
+            if (sent.length > 0) {
+                throw new Error(`Expected no transactions, but ${sent.map(call => call.method).join(', ')} was called`);
+            }
+        },
+        reset: () => {
+            calls.length = 0;
+            notifications.length = 0;
+            pendingFailures = [];
+        },
+    };
+}
@@ -0,0 +1,64 @@
+import { vi } from 'vitest';
+import { describeAdapterConformance } from './describeAdapterConformance';
+import { createMockFunctionOptions } from './createMockFunctionOptions';
+import { AdapterExport, defineAdapterFunction, toAdapterFunctions, toResult } from '../adapter';
+import { Chain } from '../blockchain';
+
+const getApyHandler = vi.fn(async ({ asset }: { asset: string }) => toResult(`${asset}: 4.2%`));
+const supplyHandler = vi.fn(async () => toResult('Supplied'));
+const createOptions = vi.fn(() => createMockFunctionOptions());
+
+const getApy = defineAdapterFunction(
+    {
+        type: 'function',
+        function: {
+            name: 'getApy',
+            parameters: {
+                type: 'object',
+                properties: { chainName: { type: 'string', enum: ['base'] }, asset: { type: 'string' } },
+                required: ['chainName', 'asset'],
+                additionalProperties: false,
+            },
+        },
+    },
+    getApyHandler,
+);
+
+const supply = defineAdapterFunction(
+    {
+        type: 'function',
+        function: {
+            name: 'supply',
+            parameters: {
+                type: 'object',
+                properties: { chainName: { type: 'string', enum: ['base'] }, amount: { type: 'string', pattern: '^\\d+$' } },
+                required: ['chainName', 'amount'],
+            },
+        },
+    },
+    supplyHandler,
+);
+
+const adapter: AdapterExport = {
+    name: 'conforming',
+    description: 'Conforming adapter',
+    chains: [Chain.BASE],
+    executableFunctions: ['supply'],
+    ...toAdapterFunctions([getApy, supply]),
+};
+
+describeAdapterConformance(adapter, { args: { getApy: { chainName: 'base', asset: 'USDC' }, supply: { chainName: 'base', amount: '100' } }, createOptions });
+
+describe('describeAdapterConformance', () => {
+    afterAll(() => {
+        // Only the valid read-only call reaches a handler
+        expect(getApyHandler).toHaveBeenCalledTimes(1);
+        expect(getApyHandler).toHaveBeenCalledWith({ chainName: 'base', asset: 'USDC' }, expect.anything());
+        expect(supplyHandler).not.toHaveBeenCalled();
+        expect(createOptions.mock.calls.length).toBeGreaterThan(1);
+    });
+
+    it('should register tests for every tool', () => {
+        expect(adapter.tools).toHaveLength(2);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { AdapterExport, assertValidAdapter, FunctionReturn, getToolName, JsonSchema } from '../adapter';
+import { createMockFunctionOptions, MockFunctionOptions } from './createMockFunctionOptions';
+import { getInvalidArgsCases } from './getInvalidArgsCases';
+
+/**
+ * Inputs of the generated conformance tests
+ * @interface AdapterConformanceFixtures
+ */
+export interface AdapterConformanceFixtures {
+    /** Valid arguments per function: base of the invalid arguments, and read-only functions are also called with them */
+    readonly args?: Record<string, Record<string, unknown>>;
+    /** Creates the options of each call (default: `createMockFunctionOptions()`) */
+    readonly createOptions?: () => MockFunctionOptions;
+    /** Functions excluded from the calls, e.g. ones that need live RPC responses */
+    readonly skip?: string[];
+}
+
+function expectFunctionReturn(result: FunctionReturn): void {
+    expect(result, 'function must return a FunctionReturn').toEqual(expect.objectContaining({ success: expect.any(Boolean), data: expect.any(String) }));
+}
+
+/**
+ * Generates vitest conformance tests for an adapter
+ * @param adapter - Adapter to test
+ * @param fixtures - Valid arguments, options factory and skipped functions
+ * @description Registers a `describe` block checking that the adapter passes `validateAdapter`, that every tool has a function, and
+ * that every function called with schema-invalid arguments (see `getInvalidArgsCases`) returns a failed `FunctionReturn` without
+ * throwing or sending transactions. Read-only functions with valid arguments in `fixtures.args` are also called with them and must
+ * return a `FunctionReturn` without calling any `sendTransactions`. Options default to mocks that throw on network access,
+ * so functions must validate their arguments before using the network.
+ * @example
+ * ```typescript
+ * // src/adapter.spec.ts
+ * import { describeAdapterConformance, createMockFunctionOptions } from '@heyanon/sdk/testing';
+ * import adapter from '.';
+ *
+ * describeAdapterConformance(adapter, {
+ *   args: { getApy: { chainName: 'base', asset: 'USDC' } },
+ *   createOptions: () => createMockFunctionOptions({ getProvider: () => forkClient }),
+ *   skip: ['getPositions']
+ * });
+ * ```
+ */
+export function describeAdapterConformance(adapter: AdapterExport, fixtures: AdapterConformanceFixtures = {}): void {
+    const { args: validArgs = {}, createOptions = () => createMockFunctionOptions(), skip = [] } = fixtures;
+
+    describe(`${adapter.name} adapter conformance`, () => {
+        it('should pass adapter validation', () => {
+            expect(() => assertValidAdapter(adapter)).not.toThrow();
+        });
+
+        for (const tool of adapter.tools) {
+            const name = getToolName(tool);
+            const fn = adapter.functions[name];
+            const executable = adapter.executableFunctions.includes(name);
+
+            describe(name, () => {
+                it('should have a function', () => {
+                    expect(fn, `tool "${name}" has no function`).toBeTypeOf('function');
+                });
+
+                if (!fn || skip.includes(name) || tool.type !== 'function' || !tool.function.parameters) return;
+
+                for (const { label, args } of getInvalidArgsCases(tool.function.parameters as JsonSchema, validArgs[name])) {
+                    it(`should return a failed result for ${label}`, async () => {
+                        const options = createOptions();
+                        const result = await fn(args, options);
+
+                        expectFunctionReturn(result);
+                        expect(result.success, `${name} accepted ${label}`).toBe(false);
+                        options.expectNoTransactions();
+                    });
+                }
+
+                if (!executable && validArgs[name]) {
+                    it('should not send transactions', async () => {
+                        const options = createOptions();
+                        const result = await fn(validArgs[name], options);
+
+                        expectFunctionReturn(result);
+                        options.expectNoTransactions();
+                    });
+                }
+            });
+        }
+    });
+}
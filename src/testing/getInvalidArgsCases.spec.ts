@@ -0,0 +1,51 @@
+import { getInvalidArgsCases } from './getInvalidArgsCases';
+import { JsonSchema, validateBySchema } from '../adapter';
+
+describe('getInvalidArgsCases', () => {
+    const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+            chainName: { type: 'string', enum: ['base', 'arbitrum'] },
+            amount: { type: 'string', pattern: '^\\d+$' },
+            slippage: { type: 'number', minimum: 0, maximum: 100 },
+            note: { description: 'Anything goes' },
+        },
+        required: ['chainName', 'amount'],
+        additionalProperties: false,
+    };
+
+    it('should break one thing at a time', () => {
+        const cases = getInvalidArgsCases(schema, { chainName: 'base', amount: '100' });
+
+        expect(cases).toEqual([
+            { label: 'null instead of an object', args: null },
+            { label: 'a string instead of an object', args: '__invalid__' },
+            { label: 'missing required "chainName"', args: { amount: '100' } },
+            { label: 'missing required "amount"', args: { chainName: 'base' } },
+            { label: '"chainName" set to "__invalid__"', args: { chainName: '__invalid__', amount: '100' } },
+            { label: '"amount" set to "__invalid__"', args: { chainName: 'base', amount: '__invalid__' } },
+            { label: '"slippage" set to "__invalid__"', args: { chainName: 'base', amount: '100', slippage: '__invalid__' } },
+            { label: 'unknown property "__unexpected__"', args: { chainName: 'base', amount: '100', __unexpected__: 'x' } },
+        ]);
+    });
+
+    it('should sample base arguments from the schema', () => {
+        const cases = getInvalidArgsCases({
+            type: 'object',
+            properties: { chainName: { type: 'string', enum: ['base'] }, flag: { type: 'boolean' } },
+            required: ['chainName'],
+        });
+
+        expect(cases.find(({ label }) => label === '"flag" set to "__invalid__"')).toEqual({
+            label: '"flag" set to "__invalid__"',
+            args: { chainName: 'base', flag: '__invalid__' },
+        });
+    });
+
+    it('should only return schema-invalid arguments', () => {
+        const cases = getInvalidArgsCases({ type: 'object', properties: { note: {} } });
+
+        expect(cases.map(({ label }) => label)).toEqual(['null instead of an object', 'a string instead of an object']);
+        cases.forEach(({ args }) => expect(validateBySchema(schema, args).length).toBeGreaterThan(0));
+    });
+});
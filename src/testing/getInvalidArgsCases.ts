@@ -0,0 +1,93 @@
+import { JsonSchema, validateBySchema } from '../adapter';
+import { stringify } from '../utils';
+
+/**
+ * Schema-invalid arguments of a tool
+ * @interface InvalidArgsCase
+ */
+export interface InvalidArgsCase {
+    /** Description of what is wrong */
+    readonly label: string;
+    /** Arguments violating the schema */
+    readonly args: unknown;
+}
+
+/**
+ * Values tried in order to break a property, the first one violating the schema is used
+ */
+const INVALID_VALUES: unknown[] = ['__invalid__', -1, 1.5, 12345, true, null, [], {}];
+
+const UNEXPECTED_PROPERTY = '__unexpected__';
+
+/**
+ * Builds a value matching the schema where possible, used when no valid arguments are given
+ */
+function sampleValue(schema: JsonSchema): unknown {
+    if (schema.default !== undefined) return schema.default;
+    if (schema.const !== undefined) return schema.const;
+    if (schema.enum?.length) return schema.enum[0];
+
+    const variants = schema.anyOf ?? schema.oneOf;
+    if (variants?.length) return sampleValue(variants[0]);
+
+    switch (Array.isArray(schema.type) ? schema.type[0] : schema.type) {
+        case 'string':
+            return 'x'.repeat(schema.minLength ?? 0);
+        case 'number':
+        case 'integer':
+            return schema.minimum ?? 0;
+        case 'boolean':
+            return false;
+        case 'array':
+            return Array.from({ length: schema.minItems ?? 0 }, () => sampleValue(schema.items ?? {}));
+        case 'null':
+            return null;
+        case 'object':
+            return Object.fromEntries((schema.required ?? []).map(name => [name, sampleValue(schema.properties?.[name] ?? {})]));
+        default:
+            return null;
+    }
+}
+
+/**
+ * Generates arguments that violate a tool parameters schema, one problem at a time
+ * @param schema - Tool parameters schema
+ * @param validArgs - Arguments matching the schema, used as the base of property mutations (default: sampled from the schema)
+ * @returns Cases that `validateBySchema` rejects: a non-object, each required property missing, each property with a wrong value
+ * and an unknown property when `additionalProperties` is false
+ * @example
+ * ```typescript
+ * getInvalidArgsCases({ type: 'object', properties: { amount: { type: 'string' } }, required: ['amount'] });
+ * // [
+ * //   { label: 'null instead of an object', args: null },
+ * //   { label: 'a string instead of an object', args: '__invalid__' },
+ * //   { label: 'missing required "amount"', args: {} },
+ * //   { label: '"amount" set to -1', args: { amount: -1 } }
+ * // ]
+ * ```
+ */
+export function getInvalidArgsCases(schema: JsonSchema, validArgs?: Record<string, unknown>): InvalidArgsCase[] {
+    const base = validArgs ?? (sampleValue({ ...schema, type: 'object' }) as Record<string, unknown>);
+    const cases: InvalidArgsCase[] = [
+        { label: 'null instead of an object', args: null },
+        { label: 'a string instead of an object', args: '__invalid__' },
+    ];
+
+    for (const name of schema.required ?? []) {
+        const { [name]: _omitted, ...args } = base;
+        cases.push({ label: `missing required "${name}"`, args });
+    }
+
+    for (const name of Object.keys(schema.properties ?? {})) {
+        const value = INVALID_VALUES.find(candidate => validateBySchema(schema, { ...base, [name]: candidate }).length > 0);
+        if (value !== undefined) {
+            cases.push({ label: `"${name}" set to ${stringify(value)}`, args: { ...base, [name]: value } });
+        }
+    }
+
+    if (schema.additionalProperties === false) {
+        cases.push({ label: `unknown property "${UNEXPECTED_PROPERTY}"`, args: { ...base, [UNEXPECTED_PROPERTY]: 'x' } });
+    }
+
+    return cases.filter(({ args }) => validateBySchema(schema, args).length > 0);
+}
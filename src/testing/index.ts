@@ -0,0 +1,3 @@
+export * from './createMockFunctionOptions';
+export * from './getInvalidArgsCases';
+export * from './describeAdapterConformance';
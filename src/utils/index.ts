@@ -7,3 +7,4 @@ export * from './normalize-address';
 export * from './messages-releaser';
 export * from './try-steps-executor';
 export * from './workflow-retry';
+export * from './satisfies-version';
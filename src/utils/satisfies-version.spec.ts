@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { satisfiesVersion } from './satisfies-version';
+
+describe('satisfiesVersion', () => {
+    it('should match exact versions and wildcards', () => {
+        expect(satisfiesVersion('2.4.6', '2.4.6')).toBe(true);
+        expect(satisfiesVersion('2.4.6', '=2.4.5')).toBe(false);
+        expect(satisfiesVersion('2.4.6', '2.x')).toBe(true);
+        expect(satisfiesVersion('2.4.6', '2.4')).toBe(true);
+        expect(satisfiesVersion('2.5.0', '2.4.x')).toBe(false);
+        expect(satisfiesVersion('2.4.6', '*')).toBe(true);
+        expect(satisfiesVersion('2.4.6', '')).toBe(true);
+    });
+
+    it('should match caret ranges', () => {
+        expect(satisfiesVersion('2.4.6', '^2.3.0')).toBe(true);
+        expect(satisfiesVersion('3.0.0', '^2.3.0')).toBe(false);
+        expect(satisfiesVersion('2.2.9', '^2.3.0')).toBe(false);
+        expect(satisfiesVersion('0.3.9', '^0.3.1')).toBe(true);
+        expect(satisfiesVersion('0.4.0', '^0.3.1')).toBe(false);
+        expect(satisfiesVersion('0.0.3', '^0.0.3')).toBe(true);
+        expect(satisfiesVersion('0.0.4', '^0.0.3')).toBe(false);
+        expect(satisfiesVersion('2.9.0', '^2')).toBe(true);
+    });
+
+    it('should match tilde ranges', () => {
+        expect(satisfiesVersion('2.4.9', '~2.4.1')).toBe(true);
+        expect(satisfiesVersion('2.5.0', '~2.4.1')).toBe(false);
+        expect(satisfiesVersion('2.9.0', '~2')).toBe(true);
+    });
+
+    it('should match comparators, AND and OR', () => {
+        expect(satisfiesVersion('2.4.6', '>=2.0.0 <2.4.0')).toBe(false);
+        expect(satisfiesVersion('2.3.9', '>= 2.0.0 < 2.4.0')).toBe(true);
+        expect(satisfiesVersion('2.4.6', '>2.4.5')).toBe(true);
+        expect(satisfiesVersion('2.4.6', '>2.4')).toBe(false);
+        expect(satisfiesVersion('2.4.6', '<=2.4')).toBe(true);
+        expect(satisfiesVersion('3.1.0', '^1.0.0 || ^3.0.0')).toBe(true);
+        expect(satisfiesVersion('2.1.0', '^1.0.0 || ^3.0.0')).toBe(false);
+    });
+
+    it('should ignore prerelease and build tags', () => {
+        expect(satisfiesVersion('v2.4.6-beta.1+build.5', '^2.4.0')).toBe(true);
+    });
+
+    it('should throw for invalid input', () => {
+        expect(() => satisfiesVersion('latest', '^2.0.0')).toThrow('Invalid version: latest');
+        expect(() => satisfiesVersion('2.x', '^2.0.0')).toThrow('Invalid version: 2.x');
+        expect(() => satisfiesVersion('2.4.6', '^two')).toThrow('Invalid version range comparator: ^two');
+    });
+});
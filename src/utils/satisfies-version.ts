@@ -0,0 +1,96 @@
+const VERSION_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+const COMPARATOR_PATTERN = /^(\^|~|>=|<=|>|<|=)?\s*(.*)$/;
+
+/**
+ * Parsed version, missing or wildcard parts are undefined
+ */
+type PartialVersion = (number | undefined)[];
+
+function parseVersion(version: string): PartialVersion | undefined {
+    const match = version.trim().match(VERSION_PATTERN);
+    if (!match) return undefined;
+
+    const parts = match.slice(1, 4).map(part => (part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part)));
+    // Parts after a wildcard are wildcards as well (1.x.3 means 1.x.x)
+    const wildcard = parts.indexOf(undefined);
+    return wildcard === -1 ? parts : parts.map((part, index) => (index < wildcard ? part : undefined));
+}
+
+function compare(left: number[], right: number[]): number {
+    for (let i = 0; i < 3; i++) {
+        if (left[i] !== right[i]) return left[i] - right[i];
+    }
+    return 0;
+}
+
+function fill(version: PartialVersion): number[] {
+    return [version[0] ?? 0, version[1] ?? 0, version[2] ?? 0];
+}
+
+/**
+ * Upper bound (exclusive) of a partial version, e.g. 1.2 -> 1.3.0
+ */
+function bump(version: PartialVersion): number[] {
+    const [major, minor] = version;
+    if (major === undefined) return [Infinity, 0, 0];
+    if (minor === undefined) return [major + 1, 0, 0];
+    return [major, minor + 1, 0];
+}
+
+function satisfiesComparator(version: number[], comparator: string): boolean {
+    const [, operator = '', value] = comparator.match(COMPARATOR_PATTERN)!;
+    const target = parseVersion(value);
+    if (!target) throw new Error(`Invalid version range comparator: ${comparator}`);
+
+    const [major, minor, patch] = target;
+    const lower = fill(target);
+    const within = (upper: number[]) => compare(version, lower) >= 0 && compare(version, upper) < 0;
+
+    switch (operator) {
+        case '^':
+            if (major === undefined || major > 0 || minor === undefined) return within(bump([major]));
+            if (minor > 0 || patch === undefined) return within(bump([major, minor]));
+            return within([0, 0, patch + 1]);
+        case '~':
+            return within(bump(minor === undefined ? [major] : [major, minor]));
+        case '>=':
+            return compare(version, lower) >= 0;
+        case '>':
+            return patch === undefined ? compare(version, bump(target)) >= 0 : compare(version, lower) > 0;
+        case '<=':
+            return patch === undefined ? compare(version, bump(target)) < 0 : compare(version, lower) <= 0;
+        case '<':
+            return compare(version, lower) < 0;
+        default:
+            return patch === undefined ? within(bump(target)) : compare(version, lower) === 0;
+    }
+}
+
+/**
+ * Checks whether a version satisfies an npm-style semver range
+ * @param version - Version to check (e.g. '2.4.6')
+ * @param range - Range with `^`, `~`, comparators (`>=`, `<`, ...), wildcards (`2.x`, `*`), space-separated AND and `||`
+ * @returns True if the version is within the range
+ * @throws {Error} When the version or range is invalid
+ * @description Prerelease and build tags are ignored. Hyphen ranges (`1.0.0 - 2.0.0`) are not supported.
+ * @example
+ * ```typescript
+ * satisfiesVersion('2.4.6', '^2.3.0');           // true
+ * satisfiesVersion('2.4.6', '>=2.0.0 <2.4.0');   // false
+ * satisfiesVersion('3.0.0', '^2.0.0 || ^3.0.0'); // true
+ * ```
+ */
+export function satisfiesVersion(version: string, range: string): boolean {
+    const parsed = parseVersion(version);
+    if (!parsed || parsed.includes(undefined)) throw new Error(`Invalid version: ${version}`);
+    const target = fill(parsed);
+
+    return range.split('||').some(alternative => {
+        const comparators = alternative
+            .trim()
+            .replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1')
+            .split(/\s+/)
+            .filter(Boolean);
+        return comparators.length === 0 || comparators.every(comparator => satisfiesComparator(target, comparator));
+    });
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { MessagesReleaser } from './messages-releaser';
+import { TryStepsExecutor } from './try-steps-executor';
+
+describe('TryStepsExecutor', () => {
+    it('should add success messages to the releaser', async () => {
+        const releaser = new MessagesReleaser();
+        const executor = new TryStepsExecutor(releaser, vi.fn());
+
+        const result = await executor.executeStep(async () => 'hash', 'Approved USDC', 'Approve failed');
+
+        expect(result).toBe('hash');
+        expect(releaser.release()).toBe('\nApproved USDC');
+    });
+
+    it('should call the failure function and rethrow', async () => {
+        const onFailure = vi.fn(async () => {});
+        const executor = new TryStepsExecutor(new MessagesReleaser(), onFailure);
+
+        await expect(executor.executeStep(async () => Promise.reject(new Error('reverted')), 'Swapped', 'Swap failed')).rejects.toThrow('reverted');
+        expect(onFailure).toHaveBeenCalledWith('Swap failed');
+    });
+
+    it('should report the progress of each step', async () => {
+        const onProgress = vi.fn(async () => {});
+        const executor = new TryStepsExecutor(
+            new MessagesReleaser(),
+            vi.fn(async () => {}),
+            onProgress,
+        );
+
+        await executor.executeStep(async () => 'hash', 'Approved USDC', 'Approve failed', 'Approving USDC');
+        await executor.executeStep(async () => Promise.reject(new Error('reverted')), 'Swapped', 'Swap failed').catch(() => {});
+
+        expect(onProgress.mock.calls).toEqual([
+            [{ step: 1, status: 'pending', message: 'Approving USDC' }],
+            [{ step: 1, status: 'success', message: 'Approved USDC', result: 'hash' }],
+            [{ step: 2, status: 'failed', message: 'Swap failed' }],
+        ]);
+    });
+
+    it('should not let failing progress updates change the outcome of a step', async () => {
+        const onFailure = vi.fn(async () => {});
+        const executeFn = vi.fn(async () => 'hash');
+        const executor = new TryStepsExecutor(new MessagesReleaser(), onFailure, async () => Promise.reject(new Error('notify failed')));
+
+        await expect(executor.executeStep(executeFn, 'Swapped', 'Swap failed', 'Swapping')).resolves.toBe('hash');
+        expect(executeFn).toHaveBeenCalledTimes(1);
+        expect(onFailure).not.toHaveBeenCalled();
+
+        await expect(executor.executeStep(async () => Promise.reject(new Error('reverted')), 'Swapped', 'Swap failed')).rejects.toThrow('reverted');
+    });
+});
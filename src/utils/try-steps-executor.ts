@@ -1,9 +1,21 @@
 import { MessagesReleaser } from './messages-releaser';
+import { ProgressStatus } from '../adapter/types';
 
 export type ExecuteFn<T> = () => Promise<T>;
 export type OnSuccessFn = () => Promise<void>;
 export type OnFailureFn = (message: string) => Promise<void>;
 
+export type StepProgressEvent = {
+    /** 1-based index of the step within the executor */
+    step: number;
+    status: ProgressStatus;
+    message: string;
+    /** Value returned by the step (success only) */
+    result?: unknown;
+};
+
+export type OnStepProgressFn = (event: StepProgressEvent) => Promise<void>;
+
 export type StepOpts<R> = {
     executeFn: ExecuteFn<R>;
     onSuccessMessage: string;
@@ -13,20 +25,44 @@ export type StepOpts<R> = {
 export class TryStepsExecutor {
     private msgsReleaser: MessagesReleaser;
     private onFailureFn: OnFailureFn;
+    private onProgressFn?: OnStepProgressFn;
+    private stepsCount = 0;
 
-    constructor(initialReleaser: MessagesReleaser, initialOnFailureFn: OnFailureFn) {
+    constructor(initialReleaser: MessagesReleaser, initialOnFailureFn: OnFailureFn, onProgressFn?: OnStepProgressFn) {
         this.msgsReleaser = initialReleaser || new MessagesReleaser();
         this.onFailureFn = initialOnFailureFn;
+        this.onProgressFn = onProgressFn;
     }
 
-    public async executeStep<ER, FR>(executeFn: ExecuteFn<ER>, onSuccessMessage: string, onFailureMessage: string): Promise<ER | FR> {
+    public async executeStep<ER, FR>(executeFn: ExecuteFn<ER>, onSuccessMessage: string, onFailureMessage: string, onPendingMessage?: string): Promise<ER | FR> {
+        const step = ++this.stepsCount;
+        if (onPendingMessage) {
+            await this.reportProgress({ step, status: 'pending', message: onPendingMessage });
+        }
+
+        let result: ER;
         try {
-            const result: ER = await executeFn();
-            this.msgsReleaser.add(onSuccessMessage);
-            return result;
+            result = await executeFn();
         } catch (error) {
             await this.onFailureFn(onFailureMessage);
+            await this.reportProgress({ step, status: 'failed', message: onFailureMessage });
             throw error;
         }
+
+        this.msgsReleaser.add(onSuccessMessage);
+        await this.reportProgress({ step, status: 'success', message: onSuccessMessage, result });
+        return result;
+    }
+
+    /**
+     * Progress updates are informational, a failing host callback must not change the outcome of a step
+     * (e.g. report a sent transaction as failed)
+     */
+    private async reportProgress(event: StepProgressEvent): Promise<void> {
+        try {
+            await this.onProgressFn?.(event);
+        } catch (_error) {
+            // ignored
+        }
     }
 }
@@ -1,15 +1,21 @@
 import { defineConfig } from 'tsup'
 import { exec } from 'child_process'
+import { version } from './package.json'
 
 export default defineConfig((options) => ({
   entry: {
     index: './src/index.ts',
+    testing: './src/testing/index.ts',
+    cli: './src/cli/index.ts',
   },
   format: ['esm', 'cjs'],
   dts: false,
   treeshake: true,
   splitting: true,
   clean: !options.watch,
+  define: {
+    __SDK_VERSION__: JSON.stringify(version),
+  },
   onSuccess: async () => {
     exec('tsc --emitDeclarationOnly --declaration', (err) => {
       if (err) {
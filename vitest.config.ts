@@ -1,6 +1,10 @@
 import { defineConfig } from 'vitest/config'
+import { version } from './package.json'
 
 export default defineConfig({
+  define: {
+    __SDK_VERSION__: JSON.stringify(version),
+  },
   test: {
     environment: 'jsdom',
     globals: true,